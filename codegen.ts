@@ -0,0 +1,29 @@
+import type { CodegenConfig } from '@graphql-codegen/cli';
+
+// Generates the result and variable types of the operations in src/graphql from the Admin API
+// schema snapshot. The snapshot's version must match DEFAULT_API_VERSION in src/shopify-client.ts.
+const config: CodegenConfig = {
+  schema: 'schema/admin-2026-10.graphql',
+  documents: 'src/graphql/*.graphql',
+  generates: {
+    'src/generated/admin.ts': {
+      plugins: ['typescript-operations', 'typed-document-node'],
+      config: {
+        documentMode: 'string',
+        enumsAsTypes: true,
+        skipTypename: true,
+        useTypeImports: true,
+        // Shopify serializes these scalars as strings, and takes decimals as numbers as well
+        scalars: {
+          DateTime: 'string',
+          Decimal: { input: 'string | number', output: 'string' },
+          Money: { input: 'string | number', output: 'string' },
+          UnsignedInt64: 'string',
+          URL: 'string'
+        }
+      }
+    }
+  }
+};
+
+export default config;
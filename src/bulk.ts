@@ -0,0 +1,218 @@
+import {
+  BulkRunOptions,
+  IncompleteOrder,
+  JournalEntry,
+  JournalOrderRecord,
+  OrderGenerationOptions,
+  OrderResult,
+  ShopifyClient
+} from './types';
+import { formatQueryCostUsage } from './shopify-client';
+import { log, warn } from './log';
+import { withOrderContext } from './random';
+import { openJournal, readJournal, readRunStarted, toJournalOrderRecord, writeJournal } from './journal';
+import { fetchCatalog } from './catalog';
+import { createRandomOrder, discardDraftOrder } from './orders';
+import { buildHistorySchedule, getDailyVolumes } from './history';
+import { normalizeShopDomain } from './stores';
+
+/**
+ * Increments the count for a key in a tally
+ */
+function tally(counts: Record<string, number>, key: string): void {
+  counts[key] = (counts[key] || 0) + 1;
+}
+
+/**
+ * Prints a tally sorted by count
+ */
+function printTally(title: string, counts: Record<string, number>): void {
+  log(`\n${title}:`);
+  
+  const entries = Object.entries(counts).sort((a, b) => b[1] - a[1]);
+  if (entries.length === 0) {
+    log('  (none)');
+    return;
+  }
+  
+  for (const [key, count] of entries) {
+    log(`  ${key}: ${count}`);
+  }
+}
+
+/**
+ * Creates many orders from a single catalog fetch, running up to `concurrency` orders at a time.
+ * Failed orders are collected and reported instead of stopping the batch.
+ * When resuming, orders already created by the run are skipped and counted in the summary, which
+ * also lists the ones whose remaining steps never ran.
+ */
+export async function createBulkOrders(
+  client: ShopifyClient,
+  count: number,
+  orderOptions: OrderGenerationOptions,
+  bulkOptions: BulkRunOptions
+): Promise<{
+  results: OrderResult[],
+  failures: { index: number, message: string }[]
+}> {
+  const { concurrency, previous = { createdIndices: new Set<number>(), records: [] } } = bulkOptions;
+  const incomplete = previous.incomplete ?? [];
+  const pending = Array.from({ length: count }, (_, i) => i + 1).filter(index => !previous.createdIndices.has(index));
+  log(`Creating ${pending.length} orders in Shopify store: ${client.shopUrl} (concurrency: ${concurrency})`);
+  if (previous.createdIndices.size > 0) {
+    log(`Skipping ${previous.createdIndices.size} orders already created by this run`);
+  }
+  
+  // Backdated runs give every order number its processed time up front, oldest first
+  let schedule: string[] | null = null;
+  if (bulkOptions.history) {
+    const { from, to } = bulkOptions.history;
+    const days = getDailyVolumes(bulkOptions.history, orderOptions.scenario.volumeCurve).length;
+    schedule = buildHistorySchedule(count, bulkOptions.history, orderOptions.scenario.volumeCurve, orderOptions.seed);
+    log(`Backdating orders from ${from} to ${to} (${days} days, ${(count / days).toFixed(1)} orders per day on average)`);
+  }
+  
+  const catalog = await withOrderContext(orderOptions, 0, () => fetchCatalog(client, orderOptions));
+  const results: OrderResult[] = [];
+  const failures: { index: number, message: string }[] = [];
+  let nextPending = 0;
+  
+  // Each worker takes the next order number until all orders have been attempted
+  const worker = async (): Promise<void> => {
+    while (nextPending < pending.length) {
+      const index = pending[nextPending++];
+      log(`\n--- Order ${index} of ${count} ---`);
+      
+      try {
+        const options = schedule ? { ...orderOptions, processedAt: schedule[index - 1] } : orderOptions;
+        const result = await withOrderContext(options, index, () => createRandomOrder(client, options, catalog));
+        results.push(result);
+        bulkOptions.onResult?.(result);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error occurred';
+        warn(`Order ${index} failed: ${message}`);
+        failures.push({ index, message });
+        writeJournal({ type: 'order-failed', index, message });
+        bulkOptions.onFailure?.({ index, message });
+      }
+    }
+  };
+  
+  await Promise.all(Array.from({ length: Math.min(concurrency, pending.length) }, () => worker()));
+  
+  // Print the run summary, including orders created before a resume
+  const records = [...previous.records, ...results.map(toJournalOrderRecord)];
+  const byPaymentStatus: Record<string, number> = {};
+  const byFulfillmentStatus: Record<string, number> = {};
+  const byLifecycleAction: Record<string, number> = {};
+  const byTag: Record<string, number> = {};
+  
+  for (const record of records) {
+    tally(byPaymentStatus, record.paymentStatus);
+    tally(byFulfillmentStatus, record.fulfillmentStatus);
+    tally(byLifecycleAction, record.lifecycleAction ?? 'NONE');
+    record.tags.forEach(tag => tally(byTag, tag));
+  }
+  
+  log('\n=============================================');
+  log('BULK RUN SUMMARY');
+  log('=============================================');
+  log(`Run ID: ${orderOptions.runId}`);
+  log(`Seed: ${orderOptions.seed}`);
+  log(`Requested: ${count}`);
+  if (previous.createdIndices.size > 0) {
+    log(`Created before resume: ${previous.createdIndices.size}`);
+  }
+  log(`${orderOptions.dryRun ? 'Planned (dry run)' : 'Created'}: ${results.length}`);
+  log(`Failed: ${failures.length}`);
+  log(`GraphQL usage: ${formatQueryCostUsage(client)}`);
+  printTally('Payment Status', byPaymentStatus);
+  printTally('Fulfillment Status', byFulfillmentStatus);
+  printTally('Lifecycle', byLifecycleAction);
+  printTally('Tags', byTag);
+  
+  if (failures.length > 0) {
+    log('\nFailures:');
+    failures
+      .sort((a, b) => a.index - b.index)
+      .forEach(failure => log(`  Order ${failure.index}: ${failure.message}`));
+  }
+  if (incomplete.length > 0) {
+    log('\nIncomplete (created before resume, remaining steps not run; finish or cancel them by hand):');
+    incomplete.forEach(order => log(`  Order ${order.index}: ${order.orderId} (last step: ${order.lastStep})`));
+  }
+  log('=============================================');
+  
+  writeJournal({ type: 'run-finished', created: previous.createdIndices.size + results.length, failed: failures.length });
+  return { results, failures };
+}
+
+/**
+ * Reads a run journal and works out what is left to do: orders already created are skipped,
+ * and drafts whose completion never produced an order are deleted so those orders can be created again.
+ * Orders that were created but never completed are reported as incomplete, since their payment,
+ * fulfillment and lifecycle steps can't be replayed safely.
+ */
+export async function prepareResume(client: ShopifyClient, journalPath: string): Promise<{
+  runStarted: Extract<JournalEntry, { type: 'run-started' }>,
+  createdIndices: Set<number>,
+  records: JournalOrderRecord[],
+  incomplete: IncompleteOrder[]
+}> {
+  const entries = readJournal(journalPath);
+  const runStarted = readRunStarted(journalPath);
+  
+  // Leftover drafts are deleted below, so make sure they are looked for in the right shop
+  if (runStarted.shopUrl && normalizeShopDomain(runStarted.shopUrl) !== normalizeShopDomain(client.shopUrl)) {
+    throw new Error(`The run was created in ${runStarted.shopUrl}, not ${client.shopUrl}`);
+  }
+  
+  const createdIndices = new Set<number>();
+  const records: JournalOrderRecord[] = [];
+  const drafts = new Map<number, string>();
+  const unfinished = new Map<number, IncompleteOrder>();
+  
+  for (const entry of entries) {
+    switch(entry.type) {
+      case 'draft-created':
+        drafts.set(entry.index, entry.draftOrderId);
+        break;
+      case 'draft-deleted':
+        drafts.delete(entry.index);
+        break;
+      case 'order-created':
+        createdIndices.add(entry.index);
+        drafts.delete(entry.index);
+        unfinished.set(entry.index, { index: entry.index, orderId: entry.orderId, lastStep: entry.type });
+        break;
+      case 'fulfillment-created':
+      case 'refund-created':
+      case 'order-cancelled':
+      case 'return-created':
+      case 'return-closed': {
+        const order = unfinished.get(entry.index);
+        if (order) order.lastStep = entry.type;
+        break;
+      }
+      case 'order-completed':
+        records.push(entry.order);
+        unfinished.delete(entry.index);
+        break;
+    }
+  }
+  
+  openJournal(runStarted.runId, journalPath);
+  writeJournal({ type: 'run-resumed' });
+  
+  for (const [index, draftOrderId] of drafts) {
+    log(`Deleting orphaned draft order from order ${index}: ${draftOrderId}`);
+    await discardDraftOrder(client, draftOrderId, index);
+  }
+  
+  const incomplete = [...unfinished.values()].sort((a, b) => a.index - b.index);
+  if (incomplete.length > 0) {
+    warn(`Warning: Orders created but not finished before the run stopped: ${incomplete.length} (skipped and listed in the summary)`);
+  }
+  
+  return { runStarted, createdIndices, records, incomplete };
+}
@@ -0,0 +1,484 @@
+import {
+  Catalog,
+  Customer,
+  CustomerFilter,
+  IntegerRange,
+  LineItemSelection,
+  OrderGenerationOptions,
+  Product,
+  ProductFilter,
+  ProductVariant,
+  ProductVariantWithProduct,
+  ShopifyClient,
+  ShopLocation
+} from './types';
+import { fetchAllPages, makeShopifyGraphQLRequest } from './shopify-client';
+import {
+  CurrencyCode,
+  CustomerDocument,
+  CustomerSortKeys,
+  CustomersDocument,
+  ProductVariantSortKeys,
+  ProductVariantsDocument,
+  ShopCurrencyDocument,
+  VariantsDocument
+} from './generated/admin';
+import {
+  fetchFulfillmentLocations,
+  fetchLocation,
+  getAvailableQuantity,
+  getUnreservedQuantity,
+  isInStock,
+  reserveStock
+} from './inventory';
+import { log } from './log';
+import { random, randomInteger } from './random';
+
+// Page sizes and default page cap for catalog queries. Variant pages are smaller, since each
+// variant brings its inventory levels and a page must stay within the single query cost limit.
+const CUSTOMER_PAGE_SIZE = 100;
+const VARIANT_PAGE_SIZE = 25;
+export const DEFAULT_MAX_CATALOG_PAGES = 10;
+
+/**
+ * Quotes a value for Shopify search syntax
+ */
+function quoteSearchValue(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+/**
+ * Builds a search term matching any of the given values of a field, or null when there are none
+ */
+function anyOf(field: string, values: string[] | undefined, format: (value: string) => string = quoteSearchValue): string | null {
+  if (!values || values.length === 0) return null;
+  const terms = values.map(value => `${field}:${format(value)}`);
+  return terms.length === 1 ? terms[0] : `(${terms.join(' OR ')})`;
+}
+
+/**
+ * Joins search terms with AND, or returns null when there are none
+ */
+function allOf(terms: (string | null)[]): string | null {
+  const present = terms.filter((term): term is string => term !== null);
+  return present.length > 0 ? present.join(' AND ') : null;
+}
+
+/**
+ * Builds the product variant search query for a product filter. The price range isn't part of it,
+ * as the variant search has no price filter: prices are compared on the loaded variants. The raw
+ * query is passed as is, so it uses the variant search's field names (`product_status`, not `status`).
+ */
+export function buildProductSearchQuery(filter: ProductFilter): string | null {
+  return allOf([
+    anyOf('product_type', filter.productTypes),
+    anyOf('vendor', filter.vendors),
+    anyOf('collection', filter.collectionIds?.map(id => id.replace(/^gid:\/\/shopify\/Collection\//, '')), id => id),
+    anyOf('tag', filter.tags),
+    filter.query ? `(${filter.query})` : null
+  ]);
+}
+
+/**
+ * Builds the customer search query for a customer filter. Shopify's `country` filter matches any
+ * of a customer's addresses, and there is no filter for having a default address, so the loaded
+ * customers' default addresses are checked as well.
+ */
+export function buildCustomerSearchQuery(filter: CustomerFilter): string | null {
+  return allOf([
+    anyOf('tag', filter.tags),
+    anyOf('country', filter.countries, code => code),
+    filter.query ? `(${filter.query})` : null
+  ]);
+}
+
+/**
+ * Checks whether a product or customer filter sets any condition
+ */
+function hasConditions(filter: ProductFilter | CustomerFilter | undefined): boolean {
+  return filter !== undefined && Object.values(filter).some(value =>
+    value !== undefined && value !== false && value !== '' && !(Array.isArray(value) && value.length === 0)
+  );
+}
+
+/**
+ * Checks a variant's price against a product filter's price range
+ */
+function matchesPriceRange(variant: ProductVariant, filter: ProductFilter): boolean {
+  const price = parseFloat(variant.price);
+  return (filter.minPrice === undefined || price >= filter.minPrice)
+    && (filter.maxPrice === undefined || price <= filter.maxPrice);
+}
+
+/**
+ * Checks a customer's default address against a customer filter
+ */
+function matchesDefaultAddress(customer: Customer, filter: CustomerFilter): boolean {
+  const countryCode = customer.defaultAddress?.countryCode?.toUpperCase();
+  if (filter.hasDefaultAddress && !customer.defaultAddress) return false;
+  return !filter.countries || filter.countries.length === 0
+    || (countryCode !== undefined && filter.countries.some(country => country.toUpperCase() === countryCode));
+}
+
+/**
+ * Fetches customers from Shopify, following pagination up to `maxPages` pages, keeping only those
+ * that match `filter` when one is given. Returns an empty list when no customers are found.
+ */
+export async function fetchCustomers(
+  client: ShopifyClient,
+  maxPages: number = DEFAULT_MAX_CATALOG_PAGES,
+  filter: CustomerFilter = {}
+): Promise<Customer[]> {
+  // Generate a random sort key to vary results
+  const sortKeys: CustomerSortKeys[] = ['CREATED_AT', 'UPDATED_AT', 'NAME', 'ID'];
+  const randomSortKey = sortKeys[Math.floor(random() * sortKeys.length)];
+  
+  // Generate a random boolean for reverse
+  const reverse = random() > 0.5;
+  
+  // The random sort order means a capped fetch still samples a different slice each run
+  const customers: Customer[] = await fetchAllPages(
+    client,
+    'customers',
+    CustomersDocument,
+    { first: CUSTOMER_PAGE_SIZE, sortKey: randomSortKey, reverse, query: buildCustomerSearchQuery(filter) },
+    response => response.data?.customers,
+    maxPages
+  );
+  
+  return customers.filter(customer => matchesDefaultAddress(customer, filter));
+}
+
+/**
+ * Picks a random customer from a list of customers
+ */
+export function pickRandomCustomer(customers: Customer[]): Customer {
+  if (customers.length === 0) {
+    throw new Error('No customers found in the store');
+  }
+  
+  const randomCustomerIndex = Math.floor(random() * customers.length);
+  const randomCustomer = customers[randomCustomerIndex];
+  
+  log(`Selected customer: ${randomCustomer.firstName} ${randomCustomer.lastName} (${randomCustomer.email})`);
+  return randomCustomer;
+}
+
+/**
+ * Fetches random customer from Shopify
+ */
+export async function fetchRandomCustomer(client: ShopifyClient, maxPages: number = DEFAULT_MAX_CATALOG_PAGES): Promise<Customer> {
+  log('Fetching random customer...');
+  return pickRandomCustomer(await fetchCustomers(client, maxPages));
+}
+
+/**
+ * Fetches the variants matching a search query in a random sort order, following pagination up
+ * to `maxPages` pages
+ */
+async function fetchVariants(client: ShopifyClient, searchQuery: string | null, maxPages: number): Promise<ProductVariantWithProduct[]> {
+  // Vary the sort order so a capped fetch doesn't always see the same variants
+  const sortKeys: ProductVariantSortKeys[] = ['ID', 'INVENTORY_QUANTITY', 'NAME', 'POSITION', 'SKU', 'TITLE'];
+  const randomSortKey = sortKeys[Math.floor(random() * sortKeys.length)];
+  const reverse = random() > 0.5;
+  
+  return fetchAllPages(
+    client,
+    'product variants',
+    ProductVariantsDocument,
+    { first: VARIANT_PAGE_SIZE, sortKey: randomSortKey, reverse, query: searchQuery },
+    response => response.data?.productVariants,
+    maxPages
+  );
+}
+
+/**
+ * Fetches products that have at least one variant that can be sold: one with available inventory
+ * (at `locationId` when given, otherwise at any location), one that keeps selling when out of
+ * stock, or one whose inventory isn't tracked. Variants are queried directly so every sellable
+ * variant of every product that matches `filter` can be selected.
+ *
+ * Shopify's search can only find variants by their stock, so variants in stock and out of stock
+ * are fetched separately, each up to `maxPages` pages: out-of-stock variants are kept when they
+ * keep selling or aren't tracked, without taking pages away from the variants in stock.
+ */
+export async function fetchProductsWithInventory(
+  client: ShopifyClient,
+  maxPages: number = DEFAULT_MAX_CATALOG_PAGES,
+  locationId?: string,
+  filter: ProductFilter = {}
+): Promise<Product[]> {
+  const productQuery = buildProductSearchQuery(filter);
+  const variants = [
+    ...await fetchVariants(client, allOf(['inventory_quantity:>0', productQuery]), maxPages),
+    ...await fetchVariants(client, allOf(['inventory_quantity:<=0', productQuery]), maxPages)
+  ];
+  
+  const products = groupVariantsByProduct(variants.filter(variant =>
+    (locationId ? getAvailableQuantity(variant, locationId) > 0 : isInStock(variant)) && matchesPriceRange(variant, filter)
+  ));
+  
+  if (products.length === 0) {
+    const matching = hasConditions(filter) ? ' matching the product filter' : '';
+    throw new Error(`No products${matching} with available inventory found${locationId ? ` at location ${locationId}` : ''}`);
+  }
+  
+  return products;
+}
+
+/**
+ * Groups variants under their products
+ */
+function groupVariantsByProduct(variants: ProductVariantWithProduct[]): Product[] {
+  const productsById = new Map<string, Product>();
+  
+  for (const { product, ...variant } of variants) {
+    let entry = productsById.get(product.id);
+    if (!entry) {
+      entry = { id: product.id, title: product.title, variants: { edges: [] } };
+      productsById.set(product.id, entry);
+    }
+    entry.variants.edges.push({ node: variant });
+  }
+  
+  return [...productsById.values()];
+}
+
+/**
+ * Converts a numeric ID into a Shopify global ID; global IDs are returned unchanged
+ */
+export function toGlobalId(resource: string, id: string): string {
+  return /^\d+$/.test(id) ? `gid://shopify/${resource}/${id}` : id;
+}
+
+/**
+ * Fetches a single customer by ID
+ */
+export async function fetchCustomerById(client: ShopifyClient, customerId: string): Promise<Customer> {
+  const response = await makeShopifyGraphQLRequest(client, CustomerDocument, { id: customerId });
+  
+  if (!response.data?.customer) {
+    throw new Error(`Customer not found: ${customerId}`);
+  }
+  
+  log(`Using customer: ${response.data.customer.firstName} ${response.data.customer.lastName} (${response.data.customer.email})`);
+  return response.data.customer;
+}
+
+/**
+ * Fetches specific variants by ID, grouped under their products. Fails when a variant can't be sold
+ * (at `locationId` when given, otherwise at any location).
+ */
+export async function fetchVariantsByIds(client: ShopifyClient, variantIds: string[], locationId?: string): Promise<Product[]> {
+  const response = await makeShopifyGraphQLRequest(client, VariantsDocument, { ids: variantIds });
+  // IDs of other resources resolve to nodes without the variant fields, which the check below catches
+  const variants = (response.data?.nodes ?? []) as (ProductVariantWithProduct | null)[];
+  
+  variantIds.forEach((variantId, index) => {
+    const variant = variants[index];
+    if (!variant || !variant.id) {
+      throw new Error(`Product variant not found: ${variantId}`);
+    }
+    if (locationId ? getAvailableQuantity(variant, locationId) <= 0 : !isInStock(variant)) {
+      throw new Error(`Product variant has no available inventory${locationId ? ` at location ${locationId}` : ''}: ${variantId}`);
+    }
+  });
+  
+  return groupVariantsByProduct(variants as ProductVariantWithProduct[]);
+}
+
+/**
+ * Picks a random variant of a product among those that can be sold
+ */
+function pickRandomVariant(product: Product, canSell: (variant: ProductVariant) => boolean): ProductVariant {
+  // Get variants with inventory
+  const availableVariants = product.variants.edges
+    .map(edge => edge.node)
+    .filter(canSell);
+  
+  // Choose a random variant
+  const randomVariantIndex = Math.floor(random() * availableVariants.length);
+  return availableVariants[randomVariantIndex];
+}
+
+/**
+ * Picks a random product and in-stock variant from a list of products with inventory
+ */
+export function pickRandomProduct(products: Product[]): { product: Product, variant: ProductVariant } {
+  // Choose a random product
+  const randomProductIndex = Math.floor(random() * products.length);
+  const randomProduct = products[randomProductIndex];
+  const randomVariant = pickRandomVariant(randomProduct, isInStock);
+  
+  log(`Selected product: ${randomProduct.title} - ${randomVariant.title} (${randomVariant.price})`);
+  return { product: randomProduct, variant: randomVariant };
+}
+
+/**
+ * Picks the location an order is fulfilled from, among the locations that still have stock left
+ * in the run: of any of the products, or of every variant when `everyVariant` is set, as pinned
+ * variants all go into the order
+ */
+export function pickFulfillmentLocation(
+  products: Product[],
+  locations: ShopLocation[],
+  reservedQuantities: Map<string, number>,
+  everyVariant: boolean = false
+): ShopLocation {
+  const variants = products.flatMap(product => product.variants.edges.map(edge => edge.node));
+  const candidates = locations.filter(location => {
+    const hasStock = (variant: ProductVariant) => getUnreservedQuantity(variant, location.id, reservedQuantities) > 0;
+    return everyVariant ? variants.every(hasStock) : variants.some(hasStock);
+  });
+  
+  if (candidates.length === 0) {
+    throw new Error(everyVariant
+      ? 'No stock left to sell of the pinned product variants at one location: earlier orders in this run have reserved it, or the variants are stocked at different locations'
+      : 'No stock left to sell: earlier orders in this run have reserved all available inventory');
+  }
+  
+  const location = candidates[Math.floor(random() * candidates.length)];
+  if (locations.length > 1) {
+    log(`Selected location: ${location.name} (${location.id})`);
+  }
+  return location;
+}
+
+/**
+ * Picks line items from different products, with a random quantity for each capped at the
+ * variant's stock left at the location in the run. The picked units are reserved there in
+ * `reservedQuantities`.
+ */
+export function pickRandomLineItems(
+  products: Product[],
+  lineItemCount: IntegerRange,
+  quantity: IntegerRange,
+  locationId: string,
+  reservedQuantities: Map<string, number> = new Map()
+): LineItemSelection[] {
+  // Earlier orders of the run may have taken the last units of some products
+  const canSell = (variant: ProductVariant) => getUnreservedQuantity(variant, locationId, reservedQuantities) > 0;
+  const remainingProducts = products.filter(product => product.variants.edges.some(edge => canSell(edge.node)));
+  if (remainingProducts.length === 0) {
+    throw new Error('No stock left to sell: earlier orders in this run have reserved all available inventory');
+  }
+  
+  const count = Math.min(randomInteger(lineItemCount), remainingProducts.length);
+  const lineItems: LineItemSelection[] = [];
+  
+  for (let i = 0; i < count; i++) {
+    // Take each product at most once so every line item is a different product
+    const randomProductIndex = Math.floor(random() * remainingProducts.length);
+    const [product] = remainingProducts.splice(randomProductIndex, 1);
+    const variant = pickRandomVariant(product, canSell);
+    const lineItemQuantity = Math.min(randomInteger(quantity), getUnreservedQuantity(variant, locationId, reservedQuantities));
+    
+    log(`Selected product: ${product.title} - ${variant.title} (${variant.price}) x ${lineItemQuantity}`);
+    lineItems.push({ product, variant, quantity: lineItemQuantity });
+  }
+  
+  reserveStock(reservedQuantities, locationId, lineItems);
+  return lineItems;
+}
+
+/**
+ * Builds one line item for every variant in the given products, with a random quantity capped
+ * at the variant's stock left at the location in the run. The picked units are reserved there in
+ * `reservedQuantities`.
+ */
+export function pickPinnedLineItems(
+  products: Product[],
+  quantity: IntegerRange,
+  locationId: string,
+  reservedQuantities: Map<string, number> = new Map()
+): LineItemSelection[] {
+  const lineItems = products.flatMap(product => product.variants.edges.map(({ node: variant }) => {
+    const remaining = getUnreservedQuantity(variant, locationId, reservedQuantities);
+    if (remaining <= 0) {
+      throw new Error(`No stock left to sell of product variant ${variant.id} at location ${locationId}: earlier orders in this run have reserved it all`);
+    }
+    const lineItemQuantity = Math.min(randomInteger(quantity), remaining);
+    log(`Selected product: ${product.title} - ${variant.title} (${variant.price}) x ${lineItemQuantity}`);
+    return { product, variant, quantity: lineItemQuantity };
+  }));
+  
+  reserveStock(reservedQuantities, locationId, lineItems);
+  return lineItems;
+}
+
+/**
+ * Adds one unit to the first line item with stock left at the location in the run, and reserves
+ * it there. Returns false when no line item has a unit to spare.
+ */
+export function addLineItemUnit(
+  lineItems: LineItemSelection[],
+  locationId: string,
+  reservedQuantities: Map<string, number> = new Map()
+): boolean {
+  const lineItem = lineItems.find(candidate => getUnreservedQuantity(candidate.variant, locationId, reservedQuantities) > 0);
+  if (!lineItem) {
+    return false;
+  }
+  
+  lineItem.quantity++;
+  reserveStock(reservedQuantities, locationId, [{ ...lineItem, quantity: 1 }]);
+  log(`Added a unit of ${lineItem.product.title} - ${lineItem.variant.title} (now x ${lineItem.quantity})`);
+  return true;
+}
+
+/**
+ * Fetches random product with available inventory from Shopify
+ */
+export async function fetchRandomProduct(client: ShopifyClient, maxPages: number = DEFAULT_MAX_CATALOG_PAGES): Promise<{ product: Product, variant: ProductVariant }> {
+  log('Fetching random product...');
+  return pickRandomProduct(await fetchProductsWithInventory(client, maxPages));
+}
+
+/**
+ * Fetches the currency the shop's prices are in
+ */
+export async function fetchShopCurrency(client: ShopifyClient): Promise<CurrencyCode> {
+  const response = await makeShopifyGraphQLRequest(client, ShopCurrencyDocument);
+  return response.data.shop.currencyCode;
+}
+
+/**
+ * Fetches the customers and in-stock products orders are picked from, the shop currency and
+ * the locations orders can be fulfilled from
+ */
+export async function fetchCatalog(client: ShopifyClient, options: OrderGenerationOptions): Promise<Catalog> {
+  log('Fetching customer and product catalog...');
+  
+  // Customers created for orders wouldn't meet the filter's conditions
+  if (hasConditions(options.customerFilter) && options.scenario.customerTypes.some(entry => entry.value === 'new' && entry.weight > 0)) {
+    throw new Error('A customer filter can\'t be combined with new customers; set the share of new customers to 0');
+  }
+  
+  // Check the locations first, so a wrong ID fails before the slower catalog queries
+  const locations = options.locationId
+    ? [await fetchLocation(client, options.locationId)]
+    : await fetchFulfillmentLocations(client);
+  if (options.locationId) {
+    log(`Orders are pinned to location ${locations[0].name} (${locations[0].id})`);
+  }
+  
+  // A pinned customer or variants replace the random pool, and the filters with it
+  const customers = options.customerId
+    ? [await fetchCustomerById(client, options.customerId)]
+    : await fetchCustomers(client, options.maxCatalogPages, options.customerFilter);
+  const products = options.variantIds && options.variantIds.length > 0
+    ? await fetchVariantsByIds(client, options.variantIds, options.locationId)
+    : await fetchProductsWithInventory(client, options.maxCatalogPages, options.locationId, options.productFilter);
+  
+  const currencyCode = await fetchShopCurrency(client);
+  
+  log(`Catalog loaded: ${customers.length} customers, ${products.length} products with inventory (${currencyCode})`);
+  // New customers wouldn't meet the filter's conditions, so they don't stand in for matching ones
+  if (customers.length === 0 && hasConditions(options.customerFilter)) {
+    throw new Error('No customers match the customer filter');
+  }
+  if (customers.length === 0) {
+    log('No customers found in the store; a new customer will be created for every order');
+  }
+  return { customers, products, currencyCode, locations, reservedQuantities: new Map() };
+}
@@ -0,0 +1,256 @@
+import * as readline from 'readline';
+
+import {
+  CleanupFilter,
+  GeneratedCustomer,
+  GeneratedDraftOrder,
+  GeneratedOrder,
+  ShopifyClient
+} from './types';
+import { fetchAllPages, makeShopifyGraphQLRequest } from './shopify-client';
+import {
+  CustomerDeleteDocument,
+  DraftOrderDeleteDocument,
+  GeneratedCustomersDocument,
+  GeneratedDraftOrdersDocument,
+  GeneratedOrdersDocument,
+  OrderCancelDocument,
+  OrderCancelReason
+} from './generated/admin';
+import { log, warn } from './log';
+import { GENERATED_ORDER_TAG, RUN_TAG_PREFIX } from './run';
+
+/**
+ * Builds the Shopify search query selecting generated orders, draft orders or customers.
+ * Customers are searched by `customer_date` rather than `created_at`.
+ */
+function buildCleanupSearchQuery(filter: CleanupFilter, dateField: string = 'created_at'): string {
+  const terms = [`tag:'${GENERATED_ORDER_TAG}'`];
+  
+  if (filter.runId) {
+    terms.push(`tag:'${RUN_TAG_PREFIX}${filter.runId}'`);
+  }
+  if (filter.since) {
+    terms.push(`${dateField}:>='${filter.since}'`);
+  }
+  if (filter.until) {
+    terms.push(`${dateField}:<='${filter.until}'`);
+  }
+  
+  return terms.join(' AND ');
+}
+
+/**
+ * Fetches generated orders that have not been cancelled yet
+ */
+async function fetchGeneratedOrders(client: ShopifyClient, filter: CleanupFilter): Promise<GeneratedOrder[]> {
+  const orders: GeneratedOrder[] = await fetchAllPages(
+    client,
+    'orders',
+    GeneratedOrdersDocument,
+    { first: 100, query: buildCleanupSearchQuery(filter) },
+    response => response.data?.orders,
+    Number.MAX_SAFE_INTEGER
+  );
+  
+  // Search results can lag behind, so check the tags again before touching anything
+  return orders.filter(order => !order.cancelledAt && order.tags.includes(GENERATED_ORDER_TAG));
+}
+
+/**
+ * Fetches open draft orders left behind by generated runs
+ */
+async function fetchGeneratedDraftOrders(client: ShopifyClient, filter: CleanupFilter): Promise<GeneratedDraftOrder[]> {
+  const draftOrders: GeneratedDraftOrder[] = await fetchAllPages(
+    client,
+    'draft orders',
+    GeneratedDraftOrdersDocument,
+    { first: 100, query: `${buildCleanupSearchQuery(filter)} AND status:open` },
+    response => response.data?.draftOrders,
+    Number.MAX_SAFE_INTEGER
+  );
+  
+  return draftOrders.filter(draftOrder => draftOrder.tags.includes(GENERATED_ORDER_TAG));
+}
+
+/**
+ * Fetches customers created by generated runs that have no orders. Customers with orders are
+ * left alone: their orders are only cancelled, and Shopify doesn't delete customers with orders.
+ */
+async function fetchGeneratedCustomers(client: ShopifyClient, filter: CleanupFilter): Promise<GeneratedCustomer[]> {
+  const customers: GeneratedCustomer[] = await fetchAllPages(
+    client,
+    'customers',
+    GeneratedCustomersDocument,
+    { first: 100, query: `${buildCleanupSearchQuery(filter, 'customer_date')} AND orders_count:0` },
+    response => response.data?.customers,
+    Number.MAX_SAFE_INTEGER
+  );
+  
+  // Search results can lag behind, so check the tags and orders again before touching anything
+  return customers.filter(customer => customer.numberOfOrders === '0'
+    && customer.tags.includes(GENERATED_ORDER_TAG)
+    && (!filter.runId || customer.tags.includes(`${RUN_TAG_PREFIX}${filter.runId}`)));
+}
+
+/**
+ * Cancels an order and restocks its items without notifying the customer. Cleanup leaves payments
+ * alone; pass `refund` to refund what was paid as well.
+ */
+export async function cancelOrder(
+  client: ShopifyClient,
+  orderId: string,
+  reason: OrderCancelReason = 'OTHER',
+  refund: boolean = false,
+  staffNote: string = 'Generated test order removed by cleanup'
+): Promise<void> {
+  const variables = {
+    orderId,
+    reason,
+    refund,
+    restock: true,
+    notifyCustomer: false,
+    staffNote
+  };
+  
+  const response = await makeShopifyGraphQLRequest(client, OrderCancelDocument, variables);
+  
+  // Check for errors
+  if (response.data.orderCancel?.orderCancelUserErrors && response.data.orderCancel.orderCancelUserErrors.length > 0) {
+    throw new Error(`Failed to cancel order: ${JSON.stringify(response.data.orderCancel.orderCancelUserErrors)}`);
+  }
+}
+
+/**
+ * Deletes a draft order
+ */
+export async function deleteDraftOrder(client: ShopifyClient, draftOrderId: string): Promise<void> {
+  const response = await makeShopifyGraphQLRequest(client, DraftOrderDeleteDocument, { input: { id: draftOrderId } });
+  
+  // Check for errors
+  if (response.data.draftOrderDelete?.userErrors && response.data.draftOrderDelete.userErrors.length > 0) {
+    throw new Error(`Failed to delete draft order: ${JSON.stringify(response.data.draftOrderDelete.userErrors)}`);
+  }
+}
+
+/**
+ * Deletes a customer. Shopify refuses to delete customers who have orders.
+ */
+export async function deleteCustomer(client: ShopifyClient, customerId: string): Promise<void> {
+  const response = await makeShopifyGraphQLRequest(client, CustomerDeleteDocument, { input: { id: customerId } });
+  
+  // Check for errors
+  if (response.data.customerDelete?.userErrors && response.data.customerDelete.userErrors.length > 0) {
+    throw new Error(`Failed to delete customer: ${JSON.stringify(response.data.customerDelete.userErrors)}`);
+  }
+}
+
+/**
+ * Asks a yes/no question on the terminal
+ */
+function confirm(question: string): Promise<boolean> {
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+  
+  return new Promise(resolve => {
+    rl.question(`${question} [y/N] `, answer => {
+      rl.close();
+      resolve(/^y(es)?$/i.test(answer.trim()));
+    });
+  });
+}
+
+/**
+ * Finds generated orders, leftover draft orders and generated customers without orders, previews
+ * them, and after confirmation cancels the orders (with restock) and deletes the drafts and customers
+ */
+export async function cleanupGeneratedOrders(client: ShopifyClient, filter: CleanupFilter, dryRun: boolean, skipConfirmation: boolean): Promise<{
+  cancelled: number,
+  deleted: number,
+  customersDeleted: number,
+  failures: { id: string, message: string }[]
+}> {
+  log(`Finding generated orders in Shopify store: ${client.shopUrl}`);
+  log(`Search: ${buildCleanupSearchQuery(filter)}`);
+  
+  const orders = await fetchGeneratedOrders(client, filter);
+  const draftOrders = await fetchGeneratedDraftOrders(client, filter);
+  const customers = await fetchGeneratedCustomers(client, filter);
+  
+  log(`\nOrders to cancel and restock: ${orders.length}`);
+  orders.forEach(order => log(`  ${order.name} (${order.id}) created ${order.createdAt}`));
+  log(`Draft orders to delete: ${draftOrders.length}`);
+  draftOrders.forEach(draftOrder => log(`  ${draftOrder.name} (${draftOrder.id}) created ${draftOrder.createdAt}`));
+  log(`Customers without orders to delete: ${customers.length}`);
+  customers.forEach(customer => log(`  ${customer.displayName} <${customer.email ?? 'no email'}> (${customer.id}) created ${customer.createdAt}`));
+  
+  const result = { cancelled: 0, deleted: 0, customersDeleted: 0, failures: [] as { id: string, message: string }[] };
+  
+  if (orders.length === 0 && draftOrders.length === 0 && customers.length === 0) {
+    log('\nNothing to clean up');
+    return result;
+  }
+  
+  if (dryRun) {
+    log('\n[dry run] No orders were cancelled and no draft orders or customers were deleted');
+    return result;
+  }
+  
+  if (!skipConfirmation) {
+    if (!process.stdin.isTTY) {
+      throw new Error('Refusing to clean up without confirmation; pass --yes when not running in a terminal');
+    }
+    if (!await confirm(`\nCancel ${orders.length} orders, delete ${draftOrders.length} draft orders and delete ${customers.length} customers?`)) {
+      log('Cleanup aborted');
+      return result;
+    }
+  }
+  
+  // Keep going when one item fails so a single bad order doesn't block the rest
+  for (const order of orders) {
+    try {
+      await cancelOrder(client, order.id);
+      result.cancelled++;
+      log(`Cancelled ${order.name}`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error occurred';
+      warn(`Failed to cancel ${order.name}: ${message}`);
+      result.failures.push({ id: order.id, message });
+    }
+  }
+  
+  for (const draftOrder of draftOrders) {
+    try {
+      await deleteDraftOrder(client, draftOrder.id);
+      result.deleted++;
+      log(`Deleted draft ${draftOrder.name}`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error occurred';
+      warn(`Failed to delete draft ${draftOrder.name}: ${message}`);
+      result.failures.push({ id: draftOrder.id, message });
+    }
+  }
+  
+  for (const customer of customers) {
+    try {
+      await deleteCustomer(client, customer.id);
+      result.customersDeleted++;
+      log(`Deleted customer ${customer.displayName}`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error occurred';
+      warn(`Failed to delete customer ${customer.displayName}: ${message}`);
+      result.failures.push({ id: customer.id, message });
+    }
+  }
+  
+  log('\n=============================================');
+  log('CLEANUP SUMMARY');
+  log('=============================================');
+  log(`Orders cancelled: ${result.cancelled}`);
+  log(`Draft orders deleted: ${result.deleted}`);
+  log(`Customers deleted: ${result.customersDeleted}`);
+  log(`Failed: ${result.failures.length}`);
+  result.failures.forEach(failure => log(`  ${failure.id}: ${failure.message}`));
+  log('=============================================');
+  
+  return result;
+}
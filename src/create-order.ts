@@ -1,801 +1,975 @@
-import axios, { AxiosResponse } from 'axios';
 import * as dotenv from 'dotenv';
+import * as fs from 'fs';
+
+import {
+  ADDRESS_COUNTRIES,
+  AddressCountry,
+  CleanupFilter,
+  CustomerFilter,
+  DISCOUNT_TYPES,
+  DiscountType,
+  LIFECYCLE_ACTIONS,
+  LifecycleAction,
+  HistoryRange,
+  IntegerRange,
+  ORDER_FULFILLMENT_STATUSES,
+  ORDER_PAYMENT_STATUSES,
+  OrderFulfillmentStatus,
+  OrderGenerationOptions,
+  OrderPaymentStatus,
+  OUTPUT_FORMATS,
+  OutputFormat,
+  PreflightFeature,
+  ProductFilter,
+  RunSummaryOutput,
+  Scenario,
+  SHIPPING_CARRIERS,
+  ShippingCarrier,
+  ShopifyClient,
+  StoreProfile
+} from './types';
+import { createShopifyClient, formatQueryCostUsage, getQueryCostTotals } from './shopify-client';
+import { log, setLogger } from './log';
+import { createRunSeed, uniform, withOrderContext } from './random';
+import { DEFAULT_SCENARIO, loadScenario } from './scenario';
+import { createRunId, GENERATED_ORDER_TAG } from './run';
+import { openJournal, readRunStarted, resolveJournalPath, writeJournal } from './journal';
+import { DEFAULT_MAX_CATALOG_PAGES, toGlobalId } from './catalog';
+import { createRandomOrder } from './orders';
+import { createBulkOrders, prepareResume } from './bulk';
+import { parseHistoryDate } from './history';
+import { cleanupGeneratedOrders } from './cleanup';
+import { inspectOrder } from './inspect';
+import { formatPreflightReport, getOrderRunFeatures, runPreflight } from './preflight';
+import {
+  assertWritesAllowed,
+  DEFAULT_STORES_FILE,
+  findStoreProfile,
+  loadStoreProfiles,
+  normalizeShopDomain,
+  readStoreAccessToken,
+  StoreConfigError
+} from './stores';
+import { toOrderOutput, writeOutput, writeRunOutput } from './output';
 
 // Initialize environment variables
 dotenv.config();
 
-// Define interfaces for Shopify GraphQL response types
-interface Money {
-  amount: string;
-  currencyCode: string;
+// Subcommands of the command line interface
+type CommandName = 'create' | 'bulk' | 'cleanup' | 'inspect' | 'doctor' | 'help';
+const COMMAND_NAMES: CommandName[] = ['create', 'bulk', 'cleanup', 'inspect', 'doctor', 'help'];
+
+// Options parsed from the command line
+interface CommandLineOptions {
+  command: CommandName;
+  store: string | null;
+  allowUnlistedStore: boolean;
+  count: number;
+  concurrency: number;
+  seed: string | null;
+  lineItemCount: IntegerRange;
+  quantity: IntegerRange;
+  maxPages: number;
+  dryRun: boolean;
+  scenarioPath: string | null;
+  customerId: string | null;
+  variantIds: string[];
+  locationId: string | null;
+  productFilter: ProductFilter;
+  customerFilter: CustomerFilter;
+  paymentStatus: OrderPaymentStatus | null;
+  fulfillmentStatus: OrderFulfillmentStatus | null;
+  carrier: ShippingCarrier | null;
+  discount: DiscountType | null;
+  lifecycle: LifecycleAction | null;
+  history: HistoryRange | null;
+  processedAt: string | null;
+  countries: AddressCountry[];
+  newCustomerPercent: number | null;
+  tags: string[];
+  orderId: string | null;
+  cleanupFilter: CleanupFilter;
+  cleanupAll: boolean;
+  yes: boolean;
+  resume: string | null;
+  output: OutputFormat;
+}
+
+// Store a command runs against, with the profiles it is checked against before writing
+interface StoreTarget {
+  client: ShopifyClient;
+  profile: StoreProfile | null;
+  // Profiles from the stores file, or null when there is no stores file
+  profiles: StoreProfile[] | null;
 }
 
-interface MoneyInput {
-  amount: number;
-  currencyCode: string;
-}
-
-interface Customer {
-  id: string;
-  firstName: string;
-  lastName: string;
-  email: string;
-  defaultAddress?: Address | null;
-}
-
-interface CustomerEdge {
-  node: Customer;
-}
-
-interface CustomerConnection {
-  edges: CustomerEdge[];
-}
-
-interface ProductVariant {
-  id: string;
-  title: string;
-  price: string;
-  inventoryQuantity: number;
-  sku: string | null;
-}
-
-interface ProductVariantEdge {
-  node: ProductVariant;
+/**
+ * Creates a client for the store named with --store, or from the Shopify credentials in the
+ * environment when no store is named. Exits when the store or the credentials are missing.
+ */
+function resolveStoreTarget(storeName: string | null): StoreTarget {
+  const storesFile = process.env.STORES_FILE || DEFAULT_STORES_FILE;
+  const apiBaseUrl = process.env.SHOPIFY_API_BASE_URL || undefined;
+  
+  try {
+    const profiles = storeName !== null || fs.existsSync(storesFile) ? loadStoreProfiles(storesFile) : null;
+    
+    if (storeName !== null) {
+      const profile = findStoreProfile(profiles as StoreProfile[], storeName);
+      const client = createShopifyClient({
+        shopUrl: profile.shopUrl,
+        accessToken: readStoreAccessToken(profile),
+        apiVersion: profile.apiVersion,
+        apiBaseUrl
+      });
+      return { client, profile, profiles };
+    }
+    
+    const shopUrl = process.env.SHOP_URL;
+    const accessToken = process.env.ACCESS_TOKEN;
+    if (!shopUrl || !accessToken) {
+      console.error('Error: Missing required environment variables.');
+      console.error('Please make sure SHOP_URL and ACCESS_TOKEN are set in your .env file, or select a store with --store.');
+      process.exit(1);
+    }
+    
+    const client = createShopifyClient({
+      shopUrl,
+      accessToken,
+      apiVersion: process.env.API_VERSION || undefined,
+      apiBaseUrl
+    });
+    return { client, profile: null, profiles };
+  } catch (error) {
+    console.error(error instanceof StoreConfigError ? error.message : `Error: ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
 }
 
-interface ProductVariantConnection {
-  edges: ProductVariantEdge[];
+/**
+ * Exits before a command writes to a store that isn't allowlisted. Without a stores file nothing
+ * is allowlisted, so the shop in the environment needs --allow-unlisted-store.
+ */
+function checkWriteAccess(target: StoreTarget, allowUnlisted: boolean): void {
+  try {
+    assertWritesAllowed(target.client.shopUrl, target.profiles ?? [], target.profile, allowUnlisted);
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+  
+  if (allowUnlisted) {
+    console.warn(`Warning: --allow-unlisted-store is set, so ${target.client.shopUrl} accepts writes without an allowlisted profile`);
+  }
 }
 
-interface Product {
-  id: string;
-  title: string;
-  variants: ProductVariantConnection;
+/**
+ * Checks the token, API version and access scopes before a command writes anything, and exits
+ * with the report when a check fails
+ */
+async function runPreflightOrExit(client: ShopifyClient, features: PreflightFeature[]): Promise<void> {
+  const report = await runPreflight(client, features);
+  if (!report.passed) {
+    console.error('Error: Preflight failed, nothing was changed in the store:');
+    console.error(formatPreflightReport(report));
+    console.error('Run the doctor command for the full report.');
+    process.exit(1);
+  }
+  log(`Preflight passed: access token, API version ${client.apiVersion} and access scopes`);
 }
 
-interface ProductEdge {
-  node: Product;
+/**
+ * Loads a scenario file, exiting with its problems when it is invalid
+ */
+function loadScenarioOrExit(scenarioPath: string | null): Scenario {
+  if (scenarioPath === null) {
+    return DEFAULT_SCENARIO;
+  }
+  
+  try {
+    const scenario = loadScenario(scenarioPath);
+    log(`Using scenario: ${scenarioPath}`);
+    return scenario;
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
 }
 
-interface ProductConnection {
-  edges: ProductEdge[];
+/**
+ * Error raised for invalid command line usage
+ */
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
 }
 
-interface PageInfo {
-  hasNextPage: boolean;
-  endCursor: string | null;
-}
+const HELP_TEXT = `Usage: npm start -- [command] [options]
+
+Commands:
+  create                 Create a single order (default)
+  bulk                   Create many orders from one catalog fetch
+  cleanup                Cancel generated orders, delete leftover draft orders and generated
+                         customers without orders
+  inspect <order-id>     Show an order's statuses, line items and fulfillments
+  doctor                 Check the access token, API version and access scopes (and --scenario)
+  help                   Show this help
+
+Store options (all commands):
+  --store NAME           Use this profile from the stores file (${DEFAULT_STORES_FILE}, or STORES_FILE)
+                         instead of SHOP_URL, ACCESS_TOKEN and API_VERSION; orders are only
+                         created or cleaned up in stores allowlisted with "allowWrites": true
+  --allow-unlisted-store Write to the store in SHOP_URL even though no profile lists it (create,
+                         bulk, cleanup); stores whose profile leaves writes off stay refused
+
+Order options (create, bulk):
+  --customer-id ID       Use this customer instead of a random one
+  --new-customers PCT    Percentage of orders placed by a newly created customer (0-100, default 0;
+                         new customers are always created when the store has none)
+  --variant-id ID        Order this variant; repeat or separate with commas for several line items
+  --location ID          Pick products by their stock at this location and fulfill orders from it
+
+Product and customer filters (create, bulk; repeat or separate values with commas to allow several):
+  --product-type TYPE    Only products of this product type
+  --vendor NAME          Only products from this vendor
+  --collection ID        Only products in this collection
+  --product-tag TAG      Only products with this tag
+  --min-price N          Only variants priced at N or more
+  --max-price N          Only variants priced at N or less
+  --product-query Q      Only variants matching this Shopify product variant search query,
+                         e.g. "product_status:active"
+  --customer-tag TAG     Only customers with this tag
+  --customer-country CC  Only customers whose default address is in this country, e.g. US
+  --customer-has-address Only customers with a default address
+  --customer-query Q     Only customers matching this Shopify search query, e.g. "orders_count:>2"
+  --payment-status S     ${ORDER_PAYMENT_STATUSES.join(' | ')}
+  --fulfillment-status S ${ORDER_FULFILLMENT_STATUSES.join(' | ')}
+  --carrier C            ${SHIPPING_CARRIERS.join(' | ')}
+  --discount TYPE        ${DISCOUNT_TYPES.join(' | ')}: order-level discount (line item discounts,
+                         shipping lines and other details are set in the scenario file)
+  --lifecycle ACTION     ${LIFECYCLE_ACTIONS.join(' | ')}:
+                         what happens to each order after it is completed (default NONE)
+  --country CODES        Generate addresses in these countries, e.g. CA or US,GB,DE (${ADDRESS_COUNTRIES.join(' | ')})
+  --tags a,b             Use these order tags instead of random ones
+  --line-items MIN-MAX   Number of different products per order (default 1)
+  --quantity MIN-MAX     Quantity per line item, capped at the stock the run hasn't used (default 1)
+  --scenario FILE        Weighted distributions for the random choices (JSON)
+  --seed S               Seed for reproducible random choices
+  --max-pages N          Page cap for catalog queries (default ${DEFAULT_MAX_CATALOG_PAGES})
+  --dry-run              Print the planned mutations without writing
+  --output FORMAT        ${OUTPUT_FORMATS.join(' | ')}: write results as JSON to stdout and logs to stderr (default text)
+
+Create options:
+  --processed-at DATE    Backdate the order to this date or time (created with orderCreate)
+
+Bulk options:
+  --count N              Number of orders to create (default 10)
+  --concurrency N        Orders created at the same time (default 1)
+  --history FROM..TO     Backdate the orders, spread over these dates (YYYY-MM-DD) following the
+                         scenario's volume curve, e.g. 2025-01-01..2025-06-30
+  --resume RUN           Finish an interrupted run from its journal (run ID or journal file);
+                         only --concurrency and --output may be combined with it
+
+Cleanup options (only orders tagged ${GENERATED_ORDER_TAG} are touched):
+  --run-id ID            Only orders and drafts from this run
+  --since DATE           Only orders and drafts created on or after this date
+  --until DATE           Only orders and drafts created on or before this date
+                         (a date without a time includes the whole day)
+  --all                  Every generated order and draft (required when no other filter is given)
+  --dry-run              List what would be cancelled and deleted without changing anything
+  --yes                  Skip the confirmation prompt
+
+  -h, --help             Show this help
+`;
 
-interface CustomerQueryResponse {
-  data: {
-    customers: {
-      edges: CustomerEdge[];
-      pageInfo: PageInfo;
-    };
-  };
+/**
+ * Parses a positive integer option value
+ */
+function parsePositiveInteger(name: string, value: string | undefined): number {
+  const parsed = Number(value);
+  if (!value || !Number.isInteger(parsed) || parsed < 1) {
+    throw new UsageError(`${name} must be a positive integer (got "${value ?? ''}")`);
+  }
+  return parsed;
 }
 
-interface ProductQueryResponse {
-  data: {
-    products: {
-      edges: ProductEdge[];
-      pageInfo: PageInfo;
-    };
-  };
+/**
+ * Parses a whole-number percentage option value
+ */
+function parsePercentage(name: string, value: string | undefined): number {
+  const parsed = Number(value);
+  if (!value || !Number.isInteger(parsed) || parsed < 0 || parsed > 100) {
+    throw new UsageError(`${name} must be a whole number from 0 to 100 (got "${value ?? ''}")`);
+  }
+  return parsed;
 }
 
-interface DraftOrderCreateResponse {
-  data: {
-    draftOrderCreate: {
-      draftOrder: {
-        id: string;
-        name: string;
-        totalPrice: string;
-      };
-      userErrors: {
-        field: string[];
-        message: string;
-      }[];
-    };
-  };
+/**
+ * Parses a range option given as `N` or `MIN-MAX`
+ */
+function parseIntegerRange(name: string, value: string | undefined): IntegerRange {
+  const match = /^(\d+)(?:-(\d+))?$/.exec(value ?? '');
+  const min = match ? Number(match[1]) : NaN;
+  const max = match && match[2] !== undefined ? Number(match[2]) : min;
+  
+  if (!match || min < 1 || max < min) {
+    throw new UsageError(`${name} must be a positive integer or a range like 1-5 (got "${value ?? ''}")`);
+  }
+  return { min, max };
 }
 
-interface OrderCreateFromDraftResponse {
-  data: {
-    draftOrderComplete: {
-      draftOrder: {
-        id: string;
-        order: {
-          id: string;
-          name: string;
-          displayFinancialStatus: string;
-          displayFulfillmentStatus: string;
-        } | null;
-      };
-      userErrors: {
-        field: string[];
-        message: string;
-      }[];
-    };
-  };
+/**
+ * Parses a price option value: a number that isn't negative
+ */
+function parsePrice(name: string, value: string | undefined): number {
+  const parsed = Number(value);
+  if (!value || !/^\d+(\.\d+)?$/.test(value) || !Number.isFinite(parsed)) {
+    throw new UsageError(`${name} must be a price like 25 or 9.99 (got "${value ?? ''}")`);
+  }
+  return parsed;
 }
 
-interface OrderFulfillmentCreateResponse {
-  data: {
-    fulfillmentCreate: {
-      fulfillment: {
-        id: string;
-        displayStatus: string;
-        trackingInfo: TrackingInfo[];
-      } | null;
-      userErrors: {
-        field: string[];
-        message: string;
-      }[];
-    };
-  };
+/**
+ * Parses an option value that must be one of a fixed set of values, ignoring case
+ */
+function parseChoice<T extends string>(name: string, value: string | undefined, choices: readonly T[]): T {
+  const choice = choices.find(choice => choice.toUpperCase() === (value ?? '').toUpperCase());
+  if (!choice) {
+    throw new UsageError(`${name} must be one of ${choices.join(', ')} (got "${value ?? ''}")`);
+  }
+  return choice;
 }
 
-interface TrackingInfo {
-  number: string;
-  url: string;
-  company: string;
+/**
+ * Returns an option value, failing when it is missing
+ */
+function requireValue(name: string, value: string | undefined): string {
+  if (!value) {
+    throw new UsageError(`${name} requires a value`);
+  }
+  return value;
 }
 
-interface Address {
-  address1?: string;
-  address2?: string | null;
-  city?: string;
-  province?: string | null;
-  provinceCode?: string | null;
-  zip?: string;
-  country?: string;
-  countryCode?: string;
-  phone?: string | null;
-  firstName?: string;
-  lastName?: string;
-  company?: string | null;
+/**
+ * Splits a comma-separated option value into its non-empty parts
+ */
+function parseList(value: string): string[] {
+  return value.split(',').map(part => part.trim()).filter(part => part.length > 0);
 }
 
-// Payment status types for Shopify orders
-type OrderPaymentStatus = 'PAID' | 'PENDING' | 'PARTIALLY_PAID' | 'UNPAID';
-
-// Fulfillment status types for Shopify orders
-type OrderFulfillmentStatus = 'FULFILLED' | 'PARTIALLY_FULFILLED' | 'UNFULFILLED' | 'PENDING_FULFILLMENT' | 'RESTOCKED';
-
-// Delivery status types
-type DeliveryStatus = 'IN_TRANSIT' | 'OUT_FOR_DELIVERY' | 'ATTEMPTED_DELIVERY' | 'DELIVERED' | 'DELAYED' | 'NOT_SHIPPED';
-
-// Shipping carriers
-type ShippingCarrier = 'UPS' | 'USPS' | 'FEDEX' | 'DHL' | 'ONTRAC';
-
-// Shopify credentials from environment variables with validation
-const SHOP_URL = process.env.SHOP_URL;
-const ACCESS_TOKEN = process.env.ACCESS_TOKEN;
-const API_VERSION = process.env.API_VERSION || '2025-04'; // Default to latest version if not specified
-
-// Check for required environment variables
-if (!SHOP_URL || !ACCESS_TOKEN) {
-  console.error('Error: Missing required environment variables.');
-  console.error('Please make sure SHOP_URL and ACCESS_TOKEN are set in your .env file.');
-  process.exit(1);
+/**
+ * Parses a comma-separated list of address countries, accepting UK for GB
+ */
+function parseCountries(value: string | undefined): AddressCountry[] {
+  return parseList(requireValue('--country', value))
+    .map(code => code.toUpperCase() === 'UK' ? 'GB' : code)
+    .map(code => parseChoice('--country', code, ADDRESS_COUNTRIES));
 }
 
 /**
- * Generates a random payment status for an order
+ * Parses a comma-separated list of collection IDs, given as numbers or global IDs
  */
-function getRandomPaymentStatus(): {status: OrderPaymentStatus, paymentPending: boolean} {
-  const statuses: OrderPaymentStatus[] = ['PAID', 'PENDING', 'PARTIALLY_PAID', 'UNPAID'];
-  const randomIndex = Math.floor(Math.random() * statuses.length);
-  const status = statuses[randomIndex];
-  
-  // For the draftOrderComplete mutation, we need to use paymentPending parameter
-  // True means PENDING, false means PAID
-  // But for PARTIALLY_PAID and UNPAID, we need to handle differently
-  let paymentPending: boolean = false;
-  
-  switch(status) {
-    case 'PAID':
-      paymentPending = false;
-      break;
-    case 'PENDING':
-      paymentPending = true;
-      break;
-    case 'PARTIALLY_PAID':
-    case 'UNPAID':
-      // For these statuses, we'll set to pending and then might need 
-      // to handle with additional mutations if needed
-      paymentPending = true;
-      break;
-  }
-  
-  return { status, paymentPending };
+function parseCollectionIds(value: string | undefined): string[] {
+  return parseList(requireValue('--collection', value)).map(id => {
+    const numericId = id.replace(/^gid:\/\/shopify\/Collection\//, '');
+    if (!/^\d+$/.test(numericId)) {
+      throw new UsageError(`--collection must be a collection ID like 123456789 (got "${id}")`);
+    }
+    return numericId;
+  });
 }
 
 /**
- * Generates a random fulfillment status for an order
+ * Parses a comma-separated list of two-letter country codes, accepting UK for GB
  */
-function getRandomFulfillmentStatus(): OrderFulfillmentStatus {
-  const statuses: OrderFulfillmentStatus[] = [
-    'FULFILLED', 
-    'PARTIALLY_FULFILLED', 
-    'UNFULFILLED', 
-    'PENDING_FULFILLMENT', 
-    'RESTOCKED'
-  ];
-  const randomIndex = Math.floor(Math.random() * statuses.length);
-  return statuses[randomIndex];
+function parseCountryCodes(name: string, value: string | undefined): string[] {
+  return parseList(requireValue(name, value)).map(code => {
+    const upper = code.toUpperCase();
+    if (!/^[A-Z]{2}$/.test(upper)) {
+      throw new UsageError(`${name} must be two-letter country codes like US or GB (got "${code}")`);
+    }
+    return upper === 'UK' ? 'GB' : upper;
+  });
 }
 
 /**
- * Generates a random delivery status based on fulfillment status
+ * Parses a date option into an ISO 8601 timestamp
  */
-function getRandomDeliveryInfo(fulfillmentStatus: OrderFulfillmentStatus): {
-  status: DeliveryStatus, 
-  carrier: ShippingCarrier, 
-  trackingNumber: string
-} {
-  // Delivery status depends on fulfillment status
-  let availableStatuses: DeliveryStatus[] = [];
-  
-  switch(fulfillmentStatus) {
-    case 'FULFILLED':
-      availableStatuses = ['IN_TRANSIT', 'OUT_FOR_DELIVERY', 'DELIVERED'];
-      break;
-    case 'PARTIALLY_FULFILLED':
-      availableStatuses = ['IN_TRANSIT', 'DELAYED'];
-      break;
-    case 'UNFULFILLED':
-    case 'RESTOCKED':
-      availableStatuses = ['NOT_SHIPPED'];
-      break;
-    case 'PENDING_FULFILLMENT':
-      availableStatuses = ['NOT_SHIPPED', 'DELAYED'];
-      break;
-  }
-  
-  // If no appropriate statuses are available, default to NOT_SHIPPED
-  if (availableStatuses.length === 0) {
-    availableStatuses = ['NOT_SHIPPED'];
-  }
-  
-  // Select a random status from the available options
-  const randomStatusIndex = Math.floor(Math.random() * availableStatuses.length);
-  const status = availableStatuses[randomStatusIndex];
-  
-  // Only generate carrier and tracking info if there's actually a shipment
-  let carrier: ShippingCarrier = 'USPS';
-  let trackingNumber = '';
-  
-  if (status !== 'NOT_SHIPPED') {
-    // Select a random carrier
-    const carriers: ShippingCarrier[] = ['UPS', 'USPS', 'FEDEX', 'DHL', 'ONTRAC'];
-    const randomCarrierIndex = Math.floor(Math.random() * carriers.length);
-    carrier = carriers[randomCarrierIndex];
-    
-    // Generate a random tracking number
-    trackingNumber = generateRandomTrackingNumber(carrier);
+function parseDate(name: string, value: string | undefined): string {
+  const timestamp = Date.parse(value ?? '');
+  if (Number.isNaN(timestamp)) {
+    throw new UsageError(`${name} must be a date like 2024-05-01 or 2024-05-01T12:00:00Z (got "${value ?? ''}")`);
   }
-  
-  return {
-    status,
-    carrier,
-    trackingNumber
-  };
+  return new Date(timestamp).toISOString();
 }
 
 /**
- * Generates a random tracking number based on carrier format
+ * Parses the date option ending a range into an ISO 8601 timestamp. A date without a time
+ * stands for the whole day, so it ends at the day's last millisecond (UTC).
  */
-function generateRandomTrackingNumber(carrier: ShippingCarrier): string {
-  // Generate different tracking number formats based on carrier
-  switch(carrier) {
-    case 'UPS':
-      // UPS format: 1Z + 8 digits
-      return `1Z${Math.floor(10000000 + Math.random() * 90000000)}`;
-      
-    case 'USPS':
-      // USPS format: 20 digits
-      return `9400${Math.floor(1000000000000000 + Math.random() * 9000000000000000)}`;
-      
-    case 'FEDEX':
-      // FedEx format: 12 digits
-      return `${Math.floor(100000000000 + Math.random() * 900000000000)}`;
-      
-    case 'DHL':
-      // DHL format: 10 digits
-      return `${Math.floor(1000000000 + Math.random() * 9000000000)}`;
-      
-    case 'ONTRAC':
-      // OnTrac format: C + 14 digits
-      return `C${Math.floor(10000000000000 + Math.random() * 90000000000000)}`;
-      
-    default:
-      // Generic format
-      return `TRK${Math.floor(1000000 + Math.random() * 9000000)}`;
+function parseEndDate(name: string, value: string | undefined): string {
+  const timestamp = parseDate(name, value);
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value ?? '')) {
+    return timestamp.replace('T00:00:00.000Z', 'T23:59:59.999Z');
   }
+  return timestamp;
 }
 
 /**
- * Generates a random address
+ * Parses a date option that must not lie in the future into an ISO 8601 timestamp
  */
-function generateRandomAddress(customer: Customer): Address {
-  // If the customer has a default address, use some of those details
-  if (customer.defaultAddress) {
-    return {
-      ...customer.defaultAddress,
-      firstName: customer.firstName,
-      lastName: customer.lastName
-    };
-  }
-
-  // City options
-  const cities = [
-    'New York', 'Los Angeles', 'Chicago', 'Houston', 'Phoenix', 
-    'Philadelphia', 'San Antonio', 'San Diego', 'Dallas', 'San Jose'
-  ];
-  
-  // Street names
-  const streetNames = [
-    'Main St', 'Oak Ave', 'Maple Dr', 'Washington Blvd', 'Park Rd',
-    'Cedar Ln', 'Lake View Dr', 'River Rd', 'Pine St', 'Elm St'
-  ];
-  
-  // States
-  const states = [
-    { name: 'California', code: 'CA' },
-    { name: 'New York', code: 'NY' },
-    { name: 'Texas', code: 'TX' },
-    { name: 'Florida', code: 'FL' },
-    { name: 'Illinois', code: 'IL' },
-    { name: 'Pennsylvania', code: 'PA' },
-    { name: 'Ohio', code: 'OH' },
-    { name: 'Georgia', code: 'GA' },
-    { name: 'North Carolina', code: 'NC' },
-    { name: 'Michigan', code: 'MI' }
-  ];
-  
-  // Generate random numbers for address
-  const streetNumber = Math.floor(100 + Math.random() * 9900);
-  const zipCode = Math.floor(10000 + Math.random() * 90000).toString();
-  
-  // Select random city, street, and state
-  const cityIndex = Math.floor(Math.random() * cities.length);
-  const streetIndex = Math.floor(Math.random() * streetNames.length);
-  const stateIndex = Math.floor(Math.random() * states.length);
-  
-  // Generate a random 10-digit phone number
-  const areaCode = Math.floor(200 + Math.random() * 800).toString();
-  const firstPart = Math.floor(200 + Math.random() * 800).toString();
-  const secondPart = Math.floor(1000 + Math.random() * 9000).toString();
-  const phone = `${areaCode}-${firstPart}-${secondPart}`;
-  
-  return {
-    firstName: customer.firstName,
-    lastName: customer.lastName,
-    address1: `${streetNumber} ${streetNames[streetIndex]}`,
-    address2: null,
-    city: cities[cityIndex],
-    province: states[stateIndex].name,
-    provinceCode: states[stateIndex].code,
-    zip: zipCode,
-    country: 'United States',
-    countryCode: 'US',
-    phone,
-    company: null
-  };
+function parsePastDate(name: string, value: string | undefined): string {
+  const timestamp = parseDate(name, value);
+  if (Date.parse(timestamp) > Date.now()) {
+    throw new UsageError(`${name} must not be in the future (got "${value}")`);
+  }
+  return timestamp;
 }
 
 /**
- * Makes a GraphQL request to Shopify
+ * Parses a `FROM..TO` range of dates for a backdated history
  */
-async function makeShopifyGraphQLRequest(query: string, variables?: any): Promise<any> {
-  try {
-    const response = await axios({
-      url: `https://${SHOP_URL}/admin/api/${API_VERSION}/graphql.json`,
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'X-Shopify-Access-Token': ACCESS_TOKEN as string
-      },
-      data: { 
-        query,
-        variables
-      }
-    });
-    
-    return response.data;
-  } catch (error) {
-    if (axios.isAxiosError(error) && error.response) {
-      console.error('GraphQL error:', error.response.data);
-      throw new Error(`GraphQL request failed: ${JSON.stringify(error.response.data)}`);
-    }
-    throw error;
+function parseHistoryRange(value: string | undefined): HistoryRange {
+  const match = /^(.+)\.\.(.+)$/.exec(value ?? '');
+  const from = match ? parseHistoryDate(match[1]) : null;
+  const to = match ? parseHistoryDate(match[2]) : null;
+  
+  if (!match || from === null || to === null || from > to) {
+    throw new UsageError(`--history must be a range of dates like 2025-01-01..2025-06-30 (got "${value ?? ''}")`);
   }
-}
+  if (from > Date.now()) {
+    throw new UsageError(`--history must not start in the future (got "${value}")`);
+  }
+  return { from: match[1], to: match[2] };
+}
+
+// Commands that generate orders
+const ORDER_COMMANDS: CommandName[] = ['create', 'bulk'];
+
+// Options that can be given with --resume; the rest are taken from the journal
+const RESUME_FLAGS = ['--resume', '--store', '--allow-unlisted-store', '--concurrency', '--output'];
+
+// Options that narrow the products or the customers orders are picked from
+const PRODUCT_FILTER_FLAGS = ['--product-type', '--vendor', '--collection', '--product-tag', '--min-price', '--max-price', '--product-query'];
+const CUSTOMER_FILTER_FLAGS = ['--customer-tag', '--customer-country', '--customer-has-address', '--customer-query'];
+
+// Commands each option applies to
+const OPTION_COMMANDS: Record<string, CommandName[]> = {
+  '--allow-unlisted-store': [...ORDER_COMMANDS, 'cleanup'],
+  '--count': ['bulk'],
+  '--concurrency': ['bulk'],
+  '--history': ['bulk'],
+  '--processed-at': ['create'],
+  '--resume': ['bulk'],
+  '--customer-id': ORDER_COMMANDS,
+  '--new-customers': ORDER_COMMANDS,
+  '--variant-id': ORDER_COMMANDS,
+  '--location': ORDER_COMMANDS,
+  '--product-type': ORDER_COMMANDS,
+  '--vendor': ORDER_COMMANDS,
+  '--collection': ORDER_COMMANDS,
+  '--product-tag': ORDER_COMMANDS,
+  '--min-price': ORDER_COMMANDS,
+  '--max-price': ORDER_COMMANDS,
+  '--product-query': ORDER_COMMANDS,
+  '--customer-tag': ORDER_COMMANDS,
+  '--customer-country': ORDER_COMMANDS,
+  '--customer-has-address': ORDER_COMMANDS,
+  '--customer-query': ORDER_COMMANDS,
+  '--payment-status': ORDER_COMMANDS,
+  '--fulfillment-status': ORDER_COMMANDS,
+  '--carrier': ORDER_COMMANDS,
+  '--discount': ORDER_COMMANDS,
+  '--lifecycle': ORDER_COMMANDS,
+  '--country': ORDER_COMMANDS,
+  '--tags': ORDER_COMMANDS,
+  '--line-items': ORDER_COMMANDS,
+  '--quantity': ORDER_COMMANDS,
+  '--scenario': [...ORDER_COMMANDS, 'doctor'],
+  '--seed': ORDER_COMMANDS,
+  '--max-pages': ORDER_COMMANDS,
+  '--dry-run': [...ORDER_COMMANDS, 'cleanup'],
+  '--output': ORDER_COMMANDS,
+  '--run-id': ['cleanup'],
+  '--since': ['cleanup'],
+  '--until': ['cleanup'],
+  '--all': ['cleanup'],
+  '--yes': ['cleanup']
+};
 
 /**
- * Fetches random customer from Shopify
+ * Parses command line arguments into a command and its options.
+ * Options accept `--name value` or `--name=value`.
  */
-async function fetchRandomCustomer(): Promise<Customer> {
-  console.log('Fetching random customer...');
-  
-  // Generate a random sort key to vary results
-  const sortKeys = ['CREATED_AT', 'UPDATED_AT', 'LAST_ORDER_DATE', 'NAME', 'ID'];
-  const randomSortKey = sortKeys[Math.floor(Math.random() * sortKeys.length)];
-  
-  // Generate a random boolean for reverse
-  const reverse = Math.random() > 0.5;
-  
-  // Simplified query that doesn't use pagination offsets
-  // Just fetch a reasonable number of customers and pick one randomly
-  const query = `
-    query {
-      customers(first: 50, sortKey: ${randomSortKey}, reverse: ${reverse}) {
-        edges {
-          node {
-            id
-            firstName
-            lastName
-            email
-            defaultAddress {
-              address1
-              address2
-              city
-              province
-              provinceCode
-              zip
-              country
-              countryCode
-              phone
-            }
-          }
-        }
-        pageInfo {
-          hasNextPage
-          endCursor
-        }
-      }
-    }
-  `;
-  
-  const response = await makeShopifyGraphQLRequest(query) as CustomerQueryResponse;
+function parseCommandLineArgs(args: string[]): CommandLineOptions {
+  const options: CommandLineOptions = {
+    command: 'create',
+    store: null,
+    allowUnlistedStore: false,
+    count: 10,
+    concurrency: 1,
+    seed: null,
+    lineItemCount: { min: 1, max: 1 },
+    quantity: { min: 1, max: 1 },
+    maxPages: DEFAULT_MAX_CATALOG_PAGES,
+    dryRun: false,
+    scenarioPath: null,
+    customerId: null,
+    variantIds: [],
+    locationId: null,
+    productFilter: {},
+    customerFilter: {},
+    paymentStatus: null,
+    fulfillmentStatus: null,
+    carrier: null,
+    discount: null,
+    lifecycle: null,
+    history: null,
+    processedAt: null,
+    countries: [],
+    newCustomerPercent: null,
+    tags: [],
+    orderId: null,
+    cleanupFilter: { runId: null, since: null, until: null },
+    cleanupAll: false,
+    yes: false,
+    resume: null,
+    output: 'text'
+  };
   
-  if (!response.data?.customers?.edges || response.data.customers.edges.length === 0) {
-    throw new Error('No customers found in the store');
+  let remaining = args;
+  if (remaining.length > 0 && COMMAND_NAMES.includes(remaining[0] as CommandName)) {
+    options.command = remaining[0] as CommandName;
+    remaining = remaining.slice(1);
   }
   
-  // Choose a random customer
-  const customers = response.data.customers.edges;
-  const randomCustomerIndex = Math.floor(Math.random() * customers.length);
-  const randomCustomer = customers[randomCustomerIndex].node;
+  const positional: string[] = [];
+  const flagsSeen = new Set<string>();
   
-  console.log(`Selected customer: ${randomCustomer.firstName} ${randomCustomer.lastName} (${randomCustomer.email})`);
-  return randomCustomer;
-}
-
-/**
- * Fetches random product with available inventory from Shopify
- */
-async function fetchRandomProduct(): Promise<{ product: Product, variant: ProductVariant }> {
-  console.log('Fetching random product...');
-  
-  const query = `
-    query {
-      products(first: 25, sortKey: TITLE) {
-        edges {
-          node {
-            id
-            title
-            variants(first: 5) {
-              edges {
-                node {
-                  id
-                  title
-                  price
-                  inventoryQuantity
-                  sku
-                }
-              }
-            }
-          }
-        }
-        pageInfo {
-          hasNextPage
-          endCursor
+  for (let i = 0; i < remaining.length; i++) {
+    const [flag, inlineValue] = remaining[i].split(/=(.*)/s, 2);
+    const value = () => inlineValue ?? remaining[++i];
+    
+    flagsSeen.add(flag);
+    const allowedCommands = OPTION_COMMANDS[flag];
+    if (allowedCommands && !allowedCommands.includes(options.command)) {
+      throw new UsageError(`${flag} is only valid for: ${allowedCommands.join(', ')}`);
+    }
+    
+    switch(flag) {
+      case '-h':
+      case '--help':
+        options.command = 'help';
+        break;
+      case '--store':
+        options.store = requireValue('--store', value());
+        break;
+      case '--allow-unlisted-store':
+        options.allowUnlistedStore = true;
+        break;
+      case '--count':
+        options.count = parsePositiveInteger('--count', value());
+        break;
+      case '--concurrency':
+        options.concurrency = parsePositiveInteger('--concurrency', value());
+        break;
+      case '--history':
+        options.history = parseHistoryRange(value());
+        break;
+      case '--processed-at':
+        options.processedAt = parsePastDate('--processed-at', value());
+        break;
+      case '--line-items':
+        options.lineItemCount = parseIntegerRange('--line-items', value());
+        break;
+      case '--quantity':
+        options.quantity = parseIntegerRange('--quantity', value());
+        break;
+      case '--max-pages':
+        options.maxPages = parsePositiveInteger('--max-pages', value());
+        break;
+      case '--dry-run':
+        options.dryRun = true;
+        break;
+      case '--scenario':
+        options.scenarioPath = requireValue('--scenario', value());
+        break;
+      case '--seed':
+        options.seed = requireValue('--seed', value());
+        break;
+      case '--customer-id':
+        options.customerId = toGlobalId('Customer', requireValue('--customer-id', value()));
+        break;
+      case '--new-customers':
+        options.newCustomerPercent = parsePercentage('--new-customers', value());
+        break;
+      case '--variant-id':
+        options.variantIds.push(...parseList(requireValue('--variant-id', value())).map(id => toGlobalId('ProductVariant', id)));
+        break;
+      case '--location':
+        options.locationId = toGlobalId('Location', requireValue('--location', value()));
+        break;
+      case '--product-type':
+        options.productFilter.productTypes = [...options.productFilter.productTypes ?? [], ...parseList(requireValue('--product-type', value()))];
+        break;
+      case '--vendor':
+        options.productFilter.vendors = [...options.productFilter.vendors ?? [], ...parseList(requireValue('--vendor', value()))];
+        break;
+      case '--collection':
+        options.productFilter.collectionIds = [...options.productFilter.collectionIds ?? [], ...parseCollectionIds(value())];
+        break;
+      case '--product-tag':
+        options.productFilter.tags = [...options.productFilter.tags ?? [], ...parseList(requireValue('--product-tag', value()))];
+        break;
+      case '--min-price':
+        options.productFilter.minPrice = parsePrice('--min-price', value());
+        break;
+      case '--max-price':
+        options.productFilter.maxPrice = parsePrice('--max-price', value());
+        break;
+      case '--product-query':
+        options.productFilter.query = requireValue('--product-query', value());
+        break;
+      case '--customer-tag':
+        options.customerFilter.tags = [...options.customerFilter.tags ?? [], ...parseList(requireValue('--customer-tag', value()))];
+        break;
+      case '--customer-country':
+        options.customerFilter.countries = [...options.customerFilter.countries ?? [], ...parseCountryCodes('--customer-country', value())];
+        break;
+      case '--customer-has-address':
+        options.customerFilter.hasDefaultAddress = true;
+        break;
+      case '--customer-query':
+        options.customerFilter.query = requireValue('--customer-query', value());
+        break;
+      case '--payment-status':
+        options.paymentStatus = parseChoice('--payment-status', value(), ORDER_PAYMENT_STATUSES);
+        break;
+      case '--fulfillment-status':
+        options.fulfillmentStatus = parseChoice('--fulfillment-status', value(), ORDER_FULFILLMENT_STATUSES);
+        break;
+      case '--carrier':
+        options.carrier = parseChoice('--carrier', value(), SHIPPING_CARRIERS);
+        break;
+      case '--discount':
+        options.discount = parseChoice('--discount', value(), DISCOUNT_TYPES);
+        break;
+      case '--lifecycle':
+        options.lifecycle = parseChoice('--lifecycle', value(), LIFECYCLE_ACTIONS);
+        break;
+      case '--country':
+        options.countries.push(...parseCountries(value()));
+        break;
+      case '--tags':
+        options.tags.push(...parseList(requireValue('--tags', value())));
+        break;
+      case '--run-id':
+        options.cleanupFilter.runId = requireValue('--run-id', value());
+        break;
+      case '--since':
+        options.cleanupFilter.since = parseDate('--since', value());
+        break;
+      case '--until':
+        options.cleanupFilter.until = parseEndDate('--until', value());
+        break;
+      case '--all':
+        options.cleanupAll = true;
+        break;
+      case '--yes':
+        options.yes = true;
+        break;
+      case '--resume':
+        options.resume = requireValue('--resume', value());
+        break;
+      case '--output':
+        options.output = parseChoice('--output', value(), OUTPUT_FORMATS);
+        break;
+      default:
+        if (flag.startsWith('-')) {
+          throw new UsageError(`Unknown option: ${flag}`);
         }
-      }
+        positional.push(remaining[i]);
     }
-  `;
+  }
   
-  const response = await makeShopifyGraphQLRequest(query) as ProductQueryResponse;
+  if (options.command === 'inspect') {
+    if (positional.length !== 1) {
+      throw new UsageError('inspect requires exactly one order ID');
+    }
+    options.orderId = toGlobalId('Order', positional[0]);
+  } else if (positional.length > 0) {
+    throw new UsageError(`Unexpected argument: ${positional[0]} (use --tags a,b to set order tags)`);
+  }
   
-  if (!response.data?.products?.edges || response.data.products.edges.length === 0) {
-    throw new Error('No products found in the store');
+  // RESTOCKED orders are restocked by refunding them in full, which another lifecycle action would undo
+  if (options.fulfillmentStatus === 'RESTOCKED' && options.lifecycle !== null && options.lifecycle !== 'FULL_REFUND') {
+    throw new UsageError(`--fulfillment-status RESTOCKED can only be combined with --lifecycle FULL_REFUND (got ${options.lifecycle})`);
   }
   
-  // Filter products with available variants and inventory
-  const productsWithInventory = response.data.products.edges
-    .map(edge => edge.node)
-    .filter(product => 
-      product.variants.edges.length > 0 && 
-      product.variants.edges.some(v => v.node.inventoryQuantity > 0)
-    );
+  if (options.customerId && options.newCustomerPercent !== null) {
+    throw new UsageError('--customer-id and --new-customers can\'t be combined');
+  }
   
-  if (productsWithInventory.length === 0) {
-    throw new Error('No products with available inventory found');
+  // A profile always lists its store, and its allowWrites setting decides
+  if (options.store !== null && options.allowUnlistedStore) {
+    throw new UsageError('--allow-unlisted-store can\'t be combined with --store');
   }
   
-  // Choose a random product
-  const randomProductIndex = Math.floor(Math.random() * productsWithInventory.length);
-  const randomProduct = productsWithInventory[randomProductIndex];
+  // Pinned customers and variants are used as given, so filters on them would be ignored
+  const productFilterFlags = [...flagsSeen].filter(flag => PRODUCT_FILTER_FLAGS.includes(flag));
+  const customerFilterFlags = [...flagsSeen].filter(flag => CUSTOMER_FILTER_FLAGS.includes(flag));
+  if (options.variantIds.length > 0 && productFilterFlags.length > 0) {
+    throw new UsageError(`--variant-id can't be combined with ${productFilterFlags.join(', ')}`);
+  }
+  if (options.customerId && customerFilterFlags.length > 0) {
+    throw new UsageError(`--customer-id can't be combined with ${customerFilterFlags.join(', ')}`);
+  }
+  if (options.newCustomerPercent !== null && options.newCustomerPercent > 0 && customerFilterFlags.length > 0) {
+    throw new UsageError(`--new-customers can't be combined with ${customerFilterFlags.join(', ')}, since new customers wouldn't match them`);
+  }
+  const { minPrice, maxPrice } = options.productFilter;
+  if (minPrice !== undefined && maxPrice !== undefined && minPrice > maxPrice) {
+    throw new UsageError(`--min-price (${minPrice}) can't be more than --max-price (${maxPrice})`);
+  }
   
-  // Get variants with inventory
-  const availableVariants = randomProduct.variants.edges
-    .map(edge => edge.node)
-    .filter(variant => variant.inventoryQuantity > 0);
+  if (options.resume !== null) {
+    const otherFlags = [...flagsSeen].filter(flag => !RESUME_FLAGS.includes(flag));
+    if (otherFlags.length > 0) {
+      throw new UsageError(`--resume takes the run's options from its journal and can't be combined with ${otherFlags.join(', ')}`);
+    }
+  }
   
-  // Choose a random variant
-  const randomVariantIndex = Math.floor(Math.random() * availableVariants.length);
-  const randomVariant = availableVariants[randomVariantIndex];
+  if (options.command === 'cleanup') {
+    const { runId, since, until } = options.cleanupFilter;
+    if (!runId && !since && !until && !options.cleanupAll) {
+      throw new UsageError('cleanup requires --run-id, --since, --until or --all');
+    }
+  }
   
-  console.log(`Selected product: ${randomProduct.title} - ${randomVariant.title} (${randomVariant.price})`);
-  return { product: randomProduct, variant: randomVariant };
+  return options;
 }
 
 /**
- * Creates a draft order in Shopify
+ * Entry point: parses the command line and runs the selected command
  */
-async function createDraftOrder(customer: Customer, variant: ProductVariant, tags?: string[]): Promise<string> {
-  console.log('Creating draft order...');
-  
-  // Generate shipping and billing addresses
-  const shippingAddress = generateRandomAddress(customer);
-  const billingAddress = { ...shippingAddress }; // Use same address for billing
-
-  console.log('Shipping Address:');
-  console.log(`${shippingAddress.firstName} ${shippingAddress.lastName}`);
-  console.log(`${shippingAddress.address1}`);
-  console.log(`${shippingAddress.city}, ${shippingAddress.province} ${shippingAddress.zip}`);
-  console.log(`${shippingAddress.country}`);
-  console.log(`Phone: ${shippingAddress.phone}`);
-  
-  if (tags && tags.length > 0) {
-    console.log(`Order tags: ${tags.join(', ')}`);
-  }
-  
-  const mutation = `
-    mutation draftOrderCreate($input: DraftOrderInput!) {
-      draftOrderCreate(input: $input) {
-        draftOrder {
-          id
-          name
-          totalPrice
-        }
-        userErrors {
-          field
-          message
-        }
-      }
-    }
-  `;
-  
-  // Create draft order without sending email notification
-  // Shopify won't send any email until draftOrderInvoiceSend is called
-  // By not calling draftOrderInvoiceSend, we prevent all notification emails
-  const variables = {
-    input: {
-      customerId: customer.id,
-      lineItems: [{
-        variantId: variant.id,
-        quantity: 1
-      }],
-      shippingAddress: shippingAddress,
-      billingAddress: billingAddress,
-      tags: tags || []
-    }
-  };
+async function main(): Promise<void> {
+  let args = process.argv.slice(2);
+  let options: CommandLineOptions;
   
-  const response = await makeShopifyGraphQLRequest(mutation, variables) as DraftOrderCreateResponse;
-  
-  // Check for errors
-  if (response.data.draftOrderCreate.userErrors && response.data.draftOrderCreate.userErrors.length > 0) {
-    throw new Error(`Failed to create draft order: ${JSON.stringify(response.data.draftOrderCreate.userErrors)}`);
+  try {
+    options = parseCommandLineArgs(args);
+  } catch (error) {
+    if (!(error instanceof UsageError)) throw error;
+    console.error(`Error: ${error.message}`);
+    console.error('Run with --help for usage.');
+    process.exit(1);
   }
   
-  const draftOrderId = response.data.draftOrderCreate.draftOrder.id;
-  const draftOrderName = response.data.draftOrderCreate.draftOrder.name;
-  const totalPrice = response.data.draftOrderCreate.draftOrder.totalPrice;
-  
-  console.log(`Created draft order: ${draftOrderName} (${draftOrderId}) with total price: ${totalPrice}`);
-  console.log('Email notifications: Disabled (no invoice email will be sent)');
-  return draftOrderId;
-}
-
-/**
- * Creates a fulfillment with tracking information
- */
-async function createFulfillmentWithTracking(
-  orderId: string, 
-  fulfillmentStatus: OrderFulfillmentStatus,
-  deliveryInfo: { status: DeliveryStatus, carrier: ShippingCarrier, trackingNumber: string }
-): Promise<void> {
-  // Only create fulfillment if appropriate based on the status
-  if (
-    fulfillmentStatus === 'UNFULFILLED' || 
-    fulfillmentStatus === 'RESTOCKED' || 
-    deliveryInfo.status === 'NOT_SHIPPED'
-  ) {
-    console.log('Order not fulfilled or shipped - skipping tracking information');
+  if (options.command === 'help') {
+    console.log(HELP_TEXT);
     return;
   }
   
-  console.log(`Adding tracking information: ${deliveryInfo.carrier} - ${deliveryInfo.trackingNumber} (${deliveryInfo.status})`);
-  
-  // In a real implementation, we would add the tracking information here
-  // using the fulfillmentCreate mutation
-  // For simplicity, we're just logging the tracking info
-}
-
-/**
- * Completes a draft order to create a real order
- */
-async function completeDraftOrder(draftOrderId: string): Promise<{
-  orderId: string, 
-  paymentStatus: OrderPaymentStatus,
-  fulfillmentStatus: OrderFulfillmentStatus,
-  actualFulfillmentStatus: string,
-  deliveryInfo: {
-    status: DeliveryStatus,
-    carrier: ShippingCarrier,
-    trackingNumber: string
-  }
-}> {
-  console.log(`Completing draft order: ${draftOrderId}...`);
-  
-  // Get random payment status
-  const { status: paymentStatus, paymentPending } = getRandomPaymentStatus();
-  console.log(`Setting payment status: ${paymentStatus} (paymentPending: ${paymentPending})`);
-  
-  // Get random fulfillment status
-  const fulfillmentStatus = getRandomFulfillmentStatus();
-  console.log(`Selected fulfillment status: ${fulfillmentStatus}`);
-  
-  // Get random delivery status based on fulfillment status
-  const deliveryInfo = getRandomDeliveryInfo(fulfillmentStatus);
-  console.log(`Selected delivery status: ${deliveryInfo.status}`);
-  
-  const mutation = `
-    mutation draftOrderComplete($id: ID!, $paymentPending: Boolean!) {
-      draftOrderComplete(id: $id, paymentPending: $paymentPending) {
-        draftOrder {
-          id
-          order {
-            id
-            name
-            displayFinancialStatus
-            displayFulfillmentStatus
-          }
-        }
-        userErrors {
-          field
-          message
-        }
-      }
-    }
-  `;
-  
-  const variables = {
-    id: draftOrderId,
-    paymentPending: paymentPending
-  };
+  // Keep stdout for the results when they are machine-readable
+  const output = options.output;
+  if (output !== 'text') {
+    setLogger(console.error);
+  }
   
-  const response = await makeShopifyGraphQLRequest(mutation, variables) as OrderCreateFromDraftResponse;
+  const target = resolveStoreTarget(options.store);
+  const client = target.client;
+  if (target.profile) {
+    log(`Store: ${target.profile.name} (${target.profile.shopUrl})`);
+  }
   
-  // Check for errors
-  if (response.data.draftOrderComplete.userErrors && response.data.draftOrderComplete.userErrors.length > 0) {
-    throw new Error(`Failed to complete draft order: ${JSON.stringify(response.data.draftOrderComplete.userErrors)}`);
+  if (options.command === 'doctor') {
+    const scenario = loadScenarioOrExit(options.scenarioPath ?? target.profile?.scenarioPath ?? null);
+    const report = await runPreflight(client, getOrderRunFeatures(scenario));
+    const domain = normalizeShopDomain(client.shopUrl);
+    const writable = target.profiles?.some(profile => profile.allowWrites && profile.shopUrl === domain) ?? false;
+    report.checks.push({
+      name: 'Writes',
+      status: writable ? 'pass' : 'warn',
+      message: target.profiles === null
+        ? 'No stores file; only inspect, doctor and --dry-run will run without --allow-unlisted-store'
+        : writable ? 'Allowlisted in the stores file' : 'Not allowlisted in the stores file; only inspect, doctor and --dry-run will run'
+    });
+    log(`Checking ${client.shopUrl} (API version ${client.apiVersion})`);
+    log(formatPreflightReport(report));
+    log(report.passed ? 'All required checks passed.' : 'Some required checks failed.');
+    if (!report.passed) {
+      process.exitCode = 1;
+    }
+    return;
   }
   
-  if (!response.data.draftOrderComplete.draftOrder.order) {
-    throw new Error('Draft order was completed but no order was created');
+  // Everything but inspect and dry runs creates or removes orders
+  if (options.command !== 'inspect' && !options.dryRun) {
+    checkWriteAccess(target, options.allowUnlistedStore);
   }
   
-  const orderId = response.data.draftOrderComplete.draftOrder.order.id;
-  const orderName = response.data.draftOrderComplete.draftOrder.order.name;
-  const actualFinancialStatus = response.data.draftOrderComplete.draftOrder.order.displayFinancialStatus || paymentStatus;
-  const actualFulfillmentStatus = response.data.draftOrderComplete.draftOrder.order.displayFulfillmentStatus || "UNFULFILLED";
+  if (options.command === 'inspect') {
+    try {
+      await inspectOrder(client, options.orderId as string);
+    } catch (error) {
+      console.error('Error inspecting order:');
+      console.error(error instanceof Error ? error.message : 'Unknown error occurred');
+      process.exit(1);
+    }
+    return;
+  }
   
-  console.log(`Created order: ${orderName} (${orderId})`);
-  console.log(`Payment status: ${actualFinancialStatus}`);
-  console.log(`Fulfillment status: ${actualFulfillmentStatus}`);
-  console.log(`Email notifications: Disabled`);
+  if (options.command === 'cleanup') {
+    if (!options.dryRun) {
+      await runPreflightOrExit(client, ['orders', 'draftOrders', 'newCustomers']);
+    }
+    try {
+      const { failures } = await cleanupGeneratedOrders(client, options.cleanupFilter, options.dryRun, options.yes);
+      if (failures.length > 0) {
+        process.exitCode = 1;
+      }
+    } catch (error) {
+      console.error('Error cleaning up orders:');
+      console.error(error instanceof Error ? error.message : 'Unknown error occurred');
+      process.exit(1);
+    }
+    return;
+  }
   
-  // Add tracking information if appropriate
-  await createFulfillmentWithTracking(orderId, fulfillmentStatus, deliveryInfo);
+  // A resumed run continues with the original run's ID, seed and options
+  const resumePath = options.resume !== null ? resolveJournalPath(options.resume) : null;
+  let runStarted: ReturnType<typeof readRunStarted> | null = null;
+  
+  if (resumePath !== null) {
+    try {
+      runStarted = readRunStarted(resumePath);
+      // --concurrency may be changed on resume; everything else comes from the journal
+      const concurrencyOverride = args.some(arg => arg.split('=')[0] === '--concurrency') ? options.concurrency : null;
+      const store = options.store;
+      args = runStarted.args;
+      options = parseCommandLineArgs(args);
+      // A single order has nothing to skip, so resuming it would create the order again
+      if (options.command !== 'bulk') {
+        throw new Error(`Only bulk runs can be resumed; run ${runStarted.runId} created a single order`);
+      }
+      if (options.store !== store) {
+        throw new Error(options.store !== null
+          ? `The run was created in store "${options.store}"; resume it with --store ${options.store}`
+          : 'The run was created with the store in the environment; resume it without --store');
+      }
+      options.concurrency = concurrencyOverride ?? options.concurrency;
+    } catch (error) {
+      console.error('Error resuming run:');
+      console.error(error instanceof Error ? error.message : 'Unknown error occurred');
+      process.exit(1);
+    }
+  }
   
-  return { 
-    orderId, 
-    paymentStatus, 
-    fulfillmentStatus,
-    actualFulfillmentStatus,
-    deliveryInfo
+  // Validate the scenario before anything is sent to the store; a store's default scenario applies when none is given
+  const scenario = loadScenarioOrExit(options.scenarioPath ?? target.profile?.scenarioPath ?? null);
+  
+  const orderOptions: OrderGenerationOptions = {
+    runId: runStarted ? runStarted.runId : createRunId(),
+    seed: runStarted ? runStarted.seed : options.seed ?? createRunSeed(),
+    // Explicit statuses, carrier, discount, lifecycle action, countries and customer mix override the scenario's distributions
+    scenario: {
+      ...scenario,
+      paymentStatuses: options.paymentStatus ? [{ value: options.paymentStatus, weight: 1 }] : scenario.paymentStatuses,
+      fulfillmentStatuses: options.fulfillmentStatus ? [{ value: options.fulfillmentStatus, weight: 1 }] : scenario.fulfillmentStatuses,
+      carriers: options.carrier ? [{ value: options.carrier, weight: 1 }] : scenario.carriers,
+      orderDiscounts: options.discount ? [{ value: options.discount, weight: 1 }] : scenario.orderDiscounts,
+      lifecycleActions: options.lifecycle ? [{ value: options.lifecycle, weight: 1 }] : scenario.lifecycleActions,
+      countries: options.countries.length > 0 ? uniform(options.countries) : scenario.countries,
+      restrictToCountries: options.countries.length > 0 || scenario.restrictToCountries,
+      customerTypes: options.newCustomerPercent === null ? scenario.customerTypes : [
+        { value: 'new', weight: options.newCustomerPercent },
+        { value: 'returning', weight: 100 - options.newCustomerPercent }
+      ]
+    },
+    tags: options.tags.length > 0 ? options.tags : undefined,
+    customerId: options.customerId ?? undefined,
+    variantIds: options.variantIds.length > 0 ? options.variantIds : undefined,
+    locationId: options.locationId ?? undefined,
+    productFilter: options.productFilter,
+    customerFilter: options.customerFilter,
+    lineItemCount: options.lineItemCount,
+    quantity: options.quantity,
+    maxCatalogPages: options.maxPages,
+    dryRun: options.dryRun,
+    processedAt: options.processedAt ?? undefined
   };
-}
-
-/**
- * Generates random tags for orders
- */
-function generateRandomTags(): string[] {
-  const possibleTags = [
-    'new-customer', 'returning-customer', 'high-value', 'subscription', 
-    'priority', 'gift', 'seasonal', 'promotion', 'wholesale', 'retail',
-    'international', 'domestic', 'expedited', 'custom-order', 'pre-order'
-  ];
-  
-  // Determine how many tags to use (0-3)
-  const tagCount = Math.floor(Math.random() * 4);
-  const selectedTags: string[] = [];
-  
-  // Randomly select tags without duplicates
-  for (let i = 0; i < tagCount; i++) {
-    const availableTags = possibleTags.filter(tag => !selectedTags.includes(tag));
-    if (availableTags.length === 0) break;
-    
-    const randomIndex = Math.floor(Math.random() * availableTags.length);
-    selectedTags.push(availableTags[randomIndex]);
+  const seed = orderOptions.seed;
+  
+  // Leftover drafts of a resumed run are only deleted once the preflight has passed
+  let resume: Awaited<ReturnType<typeof prepareResume>> | null = null;
+  if (!options.dryRun) {
+    await runPreflightOrExit(client, getOrderRunFeatures(
+      orderOptions.scenario,
+      options.history !== null || options.processedAt !== null
+    ));
+  }
+  if (resumePath !== null) {
+    try {
+      resume = await prepareResume(client, resumePath);
+    } catch (error) {
+      console.error('Error resuming run:');
+      console.error(error instanceof Error ? error.message : 'Unknown error occurred');
+      process.exit(1);
+    }
   }
   
-  return selectedTags;
-}
-
-/**
- * Main function to create an order with random product and customer
- */
-async function createRandomOrder(customTags?: string[]): Promise<void> {
+  log(`Run ID: ${orderOptions.runId} (remove this run's orders with: cleanup --run-id ${orderOptions.runId})`);
+  log(`Random seed: ${seed} (pass --seed ${seed} to reproduce this run)`);
+  if (options.dryRun) {
+    log('Dry run: only read queries will be sent; draft orders will not be created or completed');
+  } else if (!resume) {
+    // Record the seed explicitly so a resume recreates exactly the same orders
+    const journalPath = openJournal(orderOptions.runId);
+    const recordedArgs = options.seed === null ? [...args, '--seed', seed] : args;
+    writeJournal({ type: 'run-started', seed, args: recordedArgs, shopUrl: client.shopUrl });
+    log(`Journal: ${journalPath}`);
+  } else {
+    log(`Resuming from journal: ${resumePath}`);
+  }
+  
+  const createdBeforeResume = resume ? resume.createdIndices.size : 0;
+  const summarize = (requested: number, created: number, failed: number): RunSummaryOutput => ({
+    runId: orderOptions.runId,
+    seed,
+    dryRun: orderOptions.dryRun,
+    requested,
+    createdBeforeResume,
+    created,
+    failed,
+    incomplete: resume ? resume.incomplete : [],
+    graphqlCost: getQueryCostTotals(client)
+  });
+  
   try {
-    console.log(`Creating a random order in Shopify store: ${SHOP_URL}`);
-    
-    // 1. Fetch random customer
-    const customer = await fetchRandomCustomer();
-    
-    // 2. Fetch random product with inventory
-    const { product, variant } = await fetchRandomProduct();
-    
-    // 3. Use provided tags or generate random ones
-    const tags = customTags || generateRandomTags();
-    
-    // 4. Create a draft order
-    const draftOrderId = await createDraftOrder(customer, variant, tags);
-    
-    // 5. Complete the draft order to create a real order
-    const { orderId, paymentStatus, fulfillmentStatus, actualFulfillmentStatus, deliveryInfo } = await completeDraftOrder(draftOrderId);
-    
-    console.log('\n=============================================');
-    console.log('ORDER CREATION SUCCESSFUL');
-    console.log('=============================================');
-    console.log(`Customer: ${customer.firstName} ${customer.lastName}`);
-    console.log(`Email: ${customer.email}`);
-    console.log(`Product: ${product.title} - ${variant.title}`);
-    console.log(`Price: ${variant.price}`);
-    console.log(`Order ID: ${orderId}`);
-    console.log(`Payment Status: ${paymentStatus}`);
-    console.log(`Fulfillment Status: ${fulfillmentStatus} (${actualFulfillmentStatus})`);
-    if (tags && tags.length > 0) {
-      console.log(`Tags: ${tags.join(', ')}`);
-    }
-    
-    console.log(`\nDELIVERY INFORMATION:`);
-    console.log(`Status: ${deliveryInfo.status}`);
-    
-    if (deliveryInfo.status !== 'NOT_SHIPPED') {
-      console.log(`Carrier: ${deliveryInfo.carrier}`);
-      console.log(`Tracking Number: ${deliveryInfo.trackingNumber}`);
+    if (options.command === 'bulk') {
+      const { results, failures } = await createBulkOrders(client, options.count, orderOptions, {
+        concurrency: options.concurrency,
+        history: options.history ?? undefined,
+        previous: resume ?? undefined,
+        // With ndjson, each order is written as soon as it finishes
+        onResult: output === 'ndjson' ? result => writeOutput(output, { type: 'order', ...toOrderOutput(result) }) : undefined,
+        onFailure: output === 'ndjson' ? failure => writeOutput(output, { type: 'failure', ...failure }) : undefined
+      });
+      writeRunOutput(output, summarize(options.count, results.length, failures.length), results, failures);
+      if (failures.length > 0 || (resume && resume.incomplete.length > 0)) {
+        process.exitCode = 1;
+      }
+    } else {
+      const result = await withOrderContext(orderOptions, 1, () => createRandomOrder(client, orderOptions));
+      writeJournal({ type: 'run-finished', created: 1, failed: 0 });
+      log(`GraphQL usage: ${formatQueryCostUsage(client)}`);
+      if (output === 'ndjson') {
+        writeOutput(output, { type: 'order', ...toOrderOutput(result) });
+      }
+      writeRunOutput(output, summarize(1, 1, 0), [result], []);
     }
-    
-    console.log('=============================================');
-    console.log('Note: Delivery status and tracking information is simulated in this implementation.');
-    
   } catch (error) {
     console.error('Error creating order:');
     if (error instanceof Error) {
@@ -807,7 +981,6 @@ async function createRandomOrder(customTags?: string[]): Promise<void> {
   }
 }
 
-// Check if tags are provided via command line
-const customTags = process.argv.slice(2);
-// Execute the function with optional custom tags
-createRandomOrder(customTags.length > 0 ? customTags : undefined); 
\ No newline at end of file
+if (require.main === module) {
+  main();
+}
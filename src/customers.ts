@@ -0,0 +1,134 @@
+import {
+  Catalog,
+  Customer,
+  CustomerType,
+  OrderGenerationOptions,
+  ShopifyClient,
+  SyntheticCustomer
+} from './types';
+import { makeShopifyGraphQLRequest } from './shopify-client';
+import { CustomerCreateDocument, CustomerCreateMutationVariables } from './generated/admin';
+import { log } from './log';
+import { pickWeighted } from './random';
+import { generateRandomCustomer } from './generators';
+import { getRunTags } from './run';
+import { writeOrderJournal } from './journal';
+import { pickRandomCustomer } from './catalog';
+
+// Placeholder ID reported for a customer that a dry run would have created
+const DRY_RUN_CUSTOMER_ID = 'gid://shopify/Customer/DRY_RUN';
+
+/**
+ * Creates a customer in Shopify with a default address and marketing consent
+ */
+export async function createCustomer(
+  client: ShopifyClient,
+  customer: SyntheticCustomer,
+  tags?: string[],
+  dryRun: boolean = false
+): Promise<Customer> {
+  log(`Creating customer: ${customer.firstName} ${customer.lastName} (${customer.email})`);
+  
+  const consentUpdatedAt = new Date().toISOString();
+  const { address } = customer;
+  const variables: CustomerCreateMutationVariables = {
+    input: {
+      firstName: customer.firstName,
+      lastName: customer.lastName,
+      email: customer.email,
+      phone: customer.phone,
+      // The first address becomes the customer's default address
+      addresses: [{
+        firstName: address.firstName,
+        lastName: address.lastName,
+        address1: address.address1,
+        address2: address.address2,
+        city: address.city,
+        provinceCode: address.provinceCode,
+        zip: address.zip,
+        countryCode: address.countryCode,
+        phone: address.phone,
+        company: address.company
+      }],
+      emailMarketingConsent: {
+        marketingState: customer.consent.email ? 'SUBSCRIBED' : 'NOT_SUBSCRIBED',
+        marketingOptInLevel: 'SINGLE_OPT_IN',
+        consentUpdatedAt
+      },
+      // SMS consent needs a phone number
+      ...(customer.phone ? {
+        smsMarketingConsent: {
+          marketingState: customer.consent.sms ? 'SUBSCRIBED' : 'NOT_SUBSCRIBED',
+          marketingOptInLevel: 'SINGLE_OPT_IN',
+          consentUpdatedAt
+        }
+      } : {}),
+      tags: tags || []
+    }
+  };
+  
+  if (dryRun) {
+    log('[dry run] Skipping customerCreate with variables:');
+    log(JSON.stringify(variables, null, 2));
+    return {
+      id: DRY_RUN_CUSTOMER_ID,
+      firstName: customer.firstName,
+      lastName: customer.lastName,
+      email: customer.email,
+      numberOfOrders: '0',
+      defaultAddress: address
+    };
+  }
+  
+  const response = await makeShopifyGraphQLRequest(client, CustomerCreateDocument, variables);
+  
+  // Check for errors
+  if (response.data.customerCreate?.userErrors && response.data.customerCreate.userErrors.length > 0) {
+    throw new Error(`Failed to create customer: ${JSON.stringify(response.data.customerCreate.userErrors)}`);
+  }
+  
+  const createdCustomer = response.data.customerCreate?.customer;
+  if (!createdCustomer) {
+    throw new Error('customerCreate returned no customer');
+  }
+  log(`Created customer: ${createdCustomer.id}`);
+  return createdCustomer;
+}
+
+/**
+ * Picks the customer who places an order: an existing customer from the catalog, or a new one
+ * created for the order according to the scenario's customer mix. A pinned customer is always
+ * used, and new customers are created for every order when the store has none.
+ */
+export async function selectOrderCustomer(
+  client: ShopifyClient,
+  options: OrderGenerationOptions,
+  catalog: Catalog
+): Promise<{ customer: Customer, created: boolean }> {
+  let customerType: CustomerType = 'returning';
+  if (!options.customerId) {
+    customerType = catalog.customers.length > 0 ? pickWeighted(options.scenario.customerTypes) : 'new';
+  }
+  
+  if (customerType === 'returning') {
+    const customer = pickRandomCustomer(catalog.customers);
+    if (!options.dryRun) {
+      writeOrderJournal({ type: 'customer-selected', customerId: customer.id });
+    }
+    return { customer, created: false };
+  }
+  
+  // Tagged like the orders so the customers of a run can be found later
+  const customer = await createCustomer(client, generateRandomCustomer(options.scenario), getRunTags(options.runId), options.dryRun);
+  if (!options.dryRun) {
+    writeOrderJournal({ type: 'customer-created', customerId: customer.id });
+  }
+  return { customer, created: true };
+}
+
+/**
+ * Checks whether a customer is placing their first order
+ */
+export function isFirstOrder(customer: Customer, created: boolean): boolean {
+  return created || customer.numberOfOrders === '0';
+}
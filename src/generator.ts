@@ -0,0 +1,58 @@
+import { OrderGenerationOptions, OrderGenerator, OrderGeneratorConfig } from './types';
+import { createShopifyClient } from './shopify-client';
+import { createRunSeed, withOrderContext } from './random';
+import { DEFAULT_SCENARIO } from './scenario';
+import { createRunId, getRunTags } from './run';
+import { DEFAULT_MAX_CATALOG_PAGES, fetchRandomCustomer, fetchRandomProduct } from './catalog';
+import { completeDraftOrder, createBackdatedOrder, createDraftOrder, createRandomOrder } from './orders';
+import { createCustomer } from './customers';
+import { applyOrderLifecycle } from './lifecycle';
+import { generateRandomCustomer } from './generators';
+import { createBulkOrders } from './bulk';
+
+/**
+ * Creates an order generator for a shop. Every call runs with its own generator derived from
+ * the seed and a call number, so a seeded generator makes the same choices each time it is
+ * used in the same way.
+ */
+export function createOrderGenerator(config: OrderGeneratorConfig): OrderGenerator {
+  const client = createShopifyClient(config);
+  const runId = config.runId ?? createRunId();
+  const seed = config.seed ?? createRunSeed();
+  const scenario = config.scenario ?? DEFAULT_SCENARIO;
+  let nextIndex = 1;
+  
+  const orderOptions = (options: Partial<OrderGenerationOptions> = {}): OrderGenerationOptions => ({
+    runId,
+    seed,
+    scenario,
+    lineItemCount: { min: 1, max: 1 },
+    quantity: { min: 1, max: 1 },
+    maxCatalogPages: DEFAULT_MAX_CATALOG_PAGES,
+    dryRun: false,
+    ...options
+  });
+  const run = <T>(fn: () => Promise<T>): Promise<T> => withOrderContext(orderOptions(), nextIndex++, fn);
+  
+  return {
+    client,
+    runId,
+    seed,
+    scenario,
+    fetchRandomCustomer: maxPages => run(() => fetchRandomCustomer(client, maxPages)),
+    createCustomer: dryRun => run(() => createCustomer(client, generateRandomCustomer(scenario), getRunTags(runId), dryRun)),
+    fetchRandomProduct: maxPages => run(() => fetchRandomProduct(client, maxPages)),
+    createDraftOrder: (customer, lineItems, tags, dryRun, details) =>
+      run(() => createDraftOrder(client, customer, lineItems, tags, dryRun, details)),
+    completeDraftOrder: (draftOrderId, dryRun, carrier) => run(() => completeDraftOrder(client, draftOrderId, dryRun, carrier)),
+    createBackdatedOrder: (customer, lineItems, processedAt, currencyCode, tags, dryRun, details) =>
+      run(() => createBackdatedOrder(client, customer, lineItems, processedAt, currencyCode, tags, dryRun, details)),
+    applyOrderLifecycle: (orderId, action, dryRun) => run(() => applyOrderLifecycle(client, orderId, action, dryRun)),
+    createRandomOrder: (options, catalog) => {
+      const generationOptions = orderOptions(options);
+      return withOrderContext(generationOptions, nextIndex++, () => createRandomOrder(client, generationOptions, catalog));
+    },
+    createBulkOrders: (count, options, bulkOptions) =>
+      createBulkOrders(client, count, orderOptions(options), { concurrency: 1, ...bulkOptions })
+  };
+}
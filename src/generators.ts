@@ -0,0 +1,511 @@
+import {
+  Address,
+  AppliedDiscount,
+  CustomAttribute,
+  Customer,
+  CustomLineItem,
+  DeliveryInfo,
+  DeliveryStatus,
+  DiscountType,
+  IntegerRange,
+  LifecycleAction,
+  LineItemSelection,
+  OrderFulfillmentStatus,
+  OrderDetails,
+  OrderPaymentStatus,
+  Scenario,
+  ShippingLine,
+  ShippingCarrier,
+  SyntheticCustomer
+} from './types';
+import { CurrencyCode, ReturnReason } from './generated/admin';
+import { chance, pickWeighted, random, randomInteger } from './random';
+import { currentScenario } from './scenario';
+import { fillPattern, LOCALE_PACKS } from './locales';
+
+// Order tags describing who placed the order
+export const NEW_CUSTOMER_TAG = 'new-customer';
+export const RETURNING_CUSTOMER_TAG = 'returning-customer';
+
+// Reserved for documentation and testing (RFC 2606), so synthetic customers never receive real email
+export const SYNTHETIC_CUSTOMER_EMAIL_DOMAIN = 'example.com';
+
+// Share of synthetic customers that accept email and SMS marketing
+const EMAIL_MARKETING_RATE = 0.4;
+const SMS_MARKETING_RATE = 0.2;
+
+// Services offered by each carrier, with their price range in cents
+const SHIPPING_SERVICES: Record<ShippingCarrier, { title: string, price: IntegerRange }[]> = {
+  UPS: [
+    { title: 'UPS Ground', price: { min: 899, max: 1499 } },
+    { title: 'UPS 2nd Day Air', price: { min: 1999, max: 2999 } },
+    { title: 'UPS Next Day Air', price: { min: 3499, max: 5499 } }
+  ],
+  USPS: [
+    { title: 'USPS Ground Advantage', price: { min: 599, max: 999 } },
+    { title: 'USPS Priority Mail', price: { min: 899, max: 1599 } },
+    { title: 'USPS Priority Mail Express', price: { min: 2699, max: 3999 } }
+  ],
+  FEDEX: [
+    { title: 'FedEx Ground', price: { min: 899, max: 1499 } },
+    { title: 'FedEx 2Day', price: { min: 1999, max: 2999 } },
+    { title: 'FedEx Standard Overnight', price: { min: 3499, max: 5999 } }
+  ],
+  DHL: [
+    { title: 'DHL Express Worldwide', price: { min: 2999, max: 5999 } },
+    { title: 'DHL Express 12:00', price: { min: 4499, max: 7999 } }
+  ],
+  ONTRAC: [
+    { title: 'OnTrac Ground', price: { min: 699, max: 1199 } }
+  ]
+};
+
+// Non-variant line items, with prices in cents
+const CUSTOM_LINE_ITEMS: { title: string, price: number, requiresShipping: boolean, taxable: boolean }[] = [
+  { title: 'Gift wrapping', price: 499, requiresShipping: true, taxable: true },
+  { title: 'Personalized engraving', price: 999, requiresShipping: true, taxable: true },
+  { title: 'Extended warranty (2 years)', price: 1999, requiresShipping: false, taxable: true },
+  { title: 'Rush processing fee', price: 750, requiresShipping: false, taxable: true },
+  { title: 'Donation to a local charity', price: 500, requiresShipping: false, taxable: false }
+];
+
+const DISCOUNT_TITLES = ['Loyalty reward', 'Seasonal sale', 'Welcome offer', 'Staff discount', 'Bundle savings', 'Price match'];
+
+const ORDER_NOTES = [
+  'Please leave the package at the front door.',
+  'Gift order - please leave the receipt out of the box.',
+  'Call the customer before delivery.',
+  'Customer asked for plastic-free packaging.',
+  'Deliver to the reception desk.',
+  'Order taken over the phone.'
+];
+
+// Attribute keys and the values each can take
+const CUSTOM_ATTRIBUTES: { key: string, values: string[] }[] = [
+  { key: 'sales_channel', values: ['phone', 'instagram', 'pop-up store', 'wholesale portal'] },
+  { key: 'gift_message', values: ['Happy birthday!', 'Congratulations!', 'Thank you for everything', 'Enjoy!'] },
+  { key: 'delivery_window', values: ['morning', 'afternoon', 'evening'] },
+  { key: 'referral_source', values: ['newsletter', 'friend', 'podcast', 'search'] }
+];
+
+// Reasons given for returned items (Shopify's ReturnReason values)
+const RETURN_REASONS: ReturnReason[] = ['SIZE_TOO_SMALL', 'SIZE_TOO_LARGE', 'UNWANTED', 'NOT_AS_DESCRIBED', 'WRONG_ITEM', 'DEFECTIVE', 'STYLE', 'COLOR'];
+
+const FIRST_NAMES = [
+  'Olivia', 'Liam', 'Emma', 'Noah', 'Amelia', 'Oliver', 'Sophia', 'Elijah', 'Mia', 'Lucas',
+  'Charlotte', 'Mateo', 'Isabella', 'Leo', 'Ava', 'Hiroshi', 'Yuki', 'Lena', 'Jonas', 'Chloé',
+  'Priya', 'Arjun', 'Fatima', 'Omar', 'Zoe', 'Jack', 'Grace', 'Finn', 'Aisha', 'Mateus'
+];
+
+const LAST_NAMES = [
+  'Smith', 'Johnson', 'Williams', 'Brown', 'Garcia', 'Miller', 'Davis', 'Martinez', 'Wilson', 'Anderson',
+  'Taylor', 'Thomas', 'Moore', 'Martin', 'Lee', 'Tanaka', 'Suzuki', 'Müller', 'Schmidt', 'Tremblay',
+  'Roy', "O'Brien", 'Evans', 'Patel', 'Nguyen', 'Kim', 'Khan', 'Walker', 'Young', 'Clarke'
+];
+
+/**
+ * Generates a random payment status for an order
+ */
+export function getRandomPaymentStatus(scenario: Scenario = currentScenario()): {status: OrderPaymentStatus, paymentPending: boolean} {
+  const status = pickWeighted(scenario.paymentStatuses);
+  
+  // For the draftOrderComplete mutation, we need to use paymentPending parameter
+  // True means PENDING, false means PAID
+  // PARTIALLY_PAID orders are completed as pending and receive a manual partial payment afterwards
+  let paymentPending: boolean = false;
+  
+  switch(status) {
+    case 'PAID':
+      paymentPending = false;
+      break;
+    case 'PENDING':
+      paymentPending = true;
+      break;
+    case 'PARTIALLY_PAID':
+    case 'UNPAID':
+      // Completed as pending so nothing is captured; see applyPaymentStatus
+      paymentPending = true;
+      break;
+  }
+  
+  return { status, paymentPending };
+}
+
+/**
+ * Generates a random fulfillment status for an order
+ */
+export function getRandomFulfillmentStatus(scenario: Scenario = currentScenario()): OrderFulfillmentStatus {
+  return pickWeighted(scenario.fulfillmentStatuses);
+}
+
+/**
+ * Generates a random lifecycle action for a completed order
+ */
+export function getRandomLifecycleAction(scenario: Scenario = currentScenario()): LifecycleAction {
+  return pickWeighted(scenario.lifecycleActions);
+}
+
+/**
+ * Generates a random reason for returning an item
+ */
+export function getRandomReturnReason(): ReturnReason {
+  return pickOne(RETURN_REASONS);
+}
+
+/**
+ * Generates a random delivery status based on fulfillment status. A given carrier is used
+ * instead of a random one.
+ */
+export function getRandomDeliveryInfo(
+  fulfillmentStatus: OrderFulfillmentStatus,
+  scenario: Scenario = currentScenario(),
+  shippingCarrier?: ShippingCarrier
+): DeliveryInfo {
+  // Delivery status depends on fulfillment status
+  let availableStatuses: DeliveryStatus[] = [];
+  
+  switch(fulfillmentStatus) {
+    case 'FULFILLED':
+      availableStatuses = ['IN_TRANSIT', 'OUT_FOR_DELIVERY', 'DELIVERED'];
+      break;
+    case 'PARTIALLY_FULFILLED':
+      availableStatuses = ['IN_TRANSIT', 'DELAYED'];
+      break;
+    case 'UNFULFILLED':
+    case 'RESTOCKED':
+      availableStatuses = ['NOT_SHIPPED'];
+      break;
+    case 'PENDING_FULFILLMENT':
+      availableStatuses = ['NOT_SHIPPED', 'DELAYED'];
+      break;
+  }
+  
+  // If no appropriate statuses are available, default to NOT_SHIPPED
+  if (availableStatuses.length === 0) {
+    availableStatuses = ['NOT_SHIPPED'];
+  }
+  
+  // Select a random status from the available options
+  const randomStatusIndex = Math.floor(random() * availableStatuses.length);
+  const status = availableStatuses[randomStatusIndex];
+  
+  // Only generate carrier and tracking info if there's actually a shipment
+  let carrier: ShippingCarrier = shippingCarrier ?? 'USPS';
+  let trackingNumber = '';
+  let trackingUrl = '';
+  
+  if (status !== 'NOT_SHIPPED') {
+    // Select a random carrier unless the order was charged for one
+    carrier = shippingCarrier ?? pickWeighted(scenario.carriers);
+    
+    // Generate a random tracking number
+    trackingNumber = generateRandomTrackingNumber(carrier);
+    trackingUrl = getTrackingUrl(carrier, trackingNumber);
+  }
+  
+  return {
+    status,
+    carrier,
+    trackingNumber,
+    trackingUrl
+  };
+}
+
+/**
+ * Generates a random tracking number based on carrier format
+ */
+export function generateRandomTrackingNumber(carrier: ShippingCarrier): string {
+  // Generate different tracking number formats based on carrier
+  switch(carrier) {
+    case 'UPS':
+      // UPS format: 1Z + 8 digits
+      return `1Z${Math.floor(10000000 + random() * 90000000)}`;
+      
+    case 'USPS':
+      // USPS format: 20 digits
+      return `9400${Math.floor(1000000000000000 + random() * 9000000000000000)}`;
+      
+    case 'FEDEX':
+      // FedEx format: 12 digits
+      return `${Math.floor(100000000000 + random() * 900000000000)}`;
+      
+    case 'DHL':
+      // DHL format: 10 digits
+      return `${Math.floor(1000000000 + random() * 9000000000)}`;
+      
+    case 'ONTRAC':
+      // OnTrac format: C + 14 digits
+      return `C${Math.floor(10000000000000 + random() * 90000000000000)}`;
+      
+    default:
+      // Generic format
+      return `TRK${Math.floor(1000000 + random() * 9000000)}`;
+  }
+}
+
+/**
+ * Builds the public tracking page URL for a carrier's tracking number
+ */
+export function getTrackingUrl(carrier: ShippingCarrier, trackingNumber: string): string {
+  const encoded = encodeURIComponent(trackingNumber);
+  
+  switch(carrier) {
+    case 'UPS':
+      return `https://www.ups.com/track?tracknum=${encoded}`;
+    case 'USPS':
+      return `https://tools.usps.com/go/TrackConfirmAction?tLabels=${encoded}`;
+    case 'FEDEX':
+      return `https://www.fedex.com/fedextrack/?trknbr=${encoded}`;
+    case 'DHL':
+      return `https://www.dhl.com/en/express/tracking.html?AWB=${encoded}`;
+    case 'ONTRAC':
+      return `https://www.ontrac.com/tracking/?number=${encoded}`;
+    default:
+      return '';
+  }
+}
+
+/**
+ * Generates a random address in one of the scenario's countries. City, province, postal code
+ * and phone area code come from the same locale pack entry so they agree with each other.
+ */
+export function generateRandomAddress(
+  customer: Pick<Customer, 'firstName' | 'lastName' | 'defaultAddress'>,
+  scenario: Scenario = currentScenario()
+): Address {
+  // Keep the customer's default address unless the scenario asks for other countries
+  const defaultCountry = customer.defaultAddress?.countryCode;
+  if (
+    customer.defaultAddress &&
+    (!scenario.restrictToCountries || scenario.countries.some(country => country.value === defaultCountry && country.weight > 0))
+  ) {
+    return {
+      ...customer.defaultAddress,
+      firstName: customer.firstName,
+      lastName: customer.lastName
+    };
+  }
+  
+  const pack = LOCALE_PACKS[pickWeighted(scenario.countries)];
+  
+  // Pick a city across the whole country, keeping track of the region it belongs to
+  const cities = pack.regions.flatMap(region => region.cities.map(city => ({ region, city })));
+  let { region, city } = cities[Math.floor(random() * cities.length)];
+  
+  // Scenario files may still reweight the US cities, or replace the states with their cities
+  if (pack.countryCode === 'US' && scenario.cities) {
+    const cityName = pickWeighted(scenario.cities);
+    ({ region, city } = cities.find(entry => entry.city.name === cityName) ?? { region, city });
+  }
+  
+  let cityName = city.name;
+  let province = region.code === null ? null : region.name;
+  let provinceCode = region.code;
+  let zip = fillPattern(city.postalCode);
+  let street = pack.streets[Math.floor(random() * pack.streets.length)];
+  
+  if (pack.countryCode === 'US') {
+    if (scenario.streets) street = pickWeighted(scenario.streets);
+    if (scenario.states) {
+      const state = pickWeighted(scenario.states);
+      const stateRegion = pack.regions.find(candidate => candidate.code === state.code);
+      province = state.name;
+      provinceCode = state.code;
+      
+      if (state.cities) {
+        // The state's own cities have no known zip codes, so they get a random one. Phone
+        // numbers use the state's area code when the pack knows the state.
+        cityName = state.cities[Math.floor(random() * state.cities.length)];
+        zip = fillPattern('#####');
+        if (stateRegion) city = stateRegion.cities[0];
+      } else if (stateRegion) {
+        city = stateRegion.cities[Math.floor(random() * stateRegion.cities.length)];
+        cityName = city.name;
+        zip = fillPattern(city.postalCode);
+      }
+    }
+  }
+  
+  let address1: string;
+  switch (pack.streetFormat) {
+    case 'street-number':
+      address1 = `${street} ${Math.floor(1 + random() * 150)}`;
+      break;
+    case 'block-district':
+      // Japanese chome-banchi-go block number followed by the district
+      address1 = `${Math.floor(1 + random() * 9)}-${Math.floor(1 + random() * 30)}-${Math.floor(1 + random() * 20)} ${street}`;
+      break;
+    default:
+      address1 = `${Math.floor(100 + random() * 9900)} ${street}`;
+  }
+  
+  return {
+    firstName: customer.firstName,
+    lastName: customer.lastName,
+    address1,
+    address2: null,
+    city: cityName,
+    province,
+    provinceCode,
+    zip,
+    country: pack.country,
+    countryCode: pack.countryCode,
+    phone: fillPattern((city.phoneFormat ?? pack.phoneFormat).replace('{area}', city.areaCode)),
+    company: null
+  };
+}
+
+/**
+ * Generates random tags for orders. When it is known whether the customer is new, a picked
+ * new-customer or returning-customer tag is replaced with the one that matches.
+ */
+export function generateRandomTags(scenario: Scenario = currentScenario(), isNewCustomer?: boolean): string[] {
+  const customerTags = [NEW_CUSTOMER_TAG, RETURNING_CUSTOMER_TAG];
+  
+  // Determine how many tags to use (0-3 unless the scenario says otherwise)
+  const tagCount = randomInteger(scenario.tagCount);
+  const selectedTags: string[] = [];
+  
+  // Randomly select tags without duplicates
+  for (let i = 0; i < tagCount; i++) {
+    const hasCustomerTag = isNewCustomer !== undefined && selectedTags.some(tag => customerTags.includes(tag));
+    const availableTags = scenario.tags.filter(tag =>
+      tag.weight > 0 &&
+      !selectedTags.includes(tag.value) &&
+      !(hasCustomerTag && customerTags.includes(tag.value))
+    );
+    if (availableTags.length === 0) break;
+    
+    const tag = pickWeighted(availableTags);
+    if (isNewCustomer !== undefined && customerTags.includes(tag)) {
+      selectedTags.push(isNewCustomer ? NEW_CUSTOMER_TAG : RETURNING_CUSTOMER_TAG);
+    } else {
+      selectedTags.push(tag);
+    }
+  }
+  
+  return selectedTags;
+}
+
+/**
+ * Picks a random element of a list
+ */
+function pickOne<T>(values: T[]): T {
+  return values[Math.floor(random() * values.length)];
+}
+
+/**
+ * Generates a discount of the given type. Fixed amounts are capped at half of `maxBase`
+ * (the discounted price) so a discount never makes anything free.
+ */
+export function generateRandomDiscount(
+  type: DiscountType,
+  maxBase: number,
+  scenario: Scenario = currentScenario()
+): AppliedDiscount | null {
+  if (type === 'NONE') return null;
+  
+  const title = pickOne(DISCOUNT_TITLES);
+  if (type === 'PERCENTAGE') {
+    const value = randomInteger(scenario.discountPercentage);
+    return { title, description: `${value}% off`, valueType: 'PERCENTAGE', value };
+  }
+  
+  const value = Math.min(randomInteger(scenario.discountAmount), Math.floor(maxBase * 50) / 100);
+  return { title, description: `${value.toFixed(2)} off`, valueType: 'FIXED_AMOUNT', value };
+}
+
+/**
+ * Generates a shipping charge for one of the scenario's carriers
+ */
+export function getRandomShippingLine(currencyCode: CurrencyCode, scenario: Scenario = currentScenario()): ShippingLine {
+  const carrier = pickWeighted(scenario.carriers);
+  const service = pickOne(SHIPPING_SERVICES[carrier]);
+  return {
+    carrier,
+    title: service.title,
+    price: { amount: randomInteger(service.price) / 100, currencyCode }
+  };
+}
+
+/**
+ * Generates the optional parts of a draft order according to the scenario: an order discount,
+ * line item discounts, a shipping line, a custom line item, a note and custom attributes.
+ * Returns the line items with their discounts alongside the order details.
+ */
+export function generateRandomOrderDetails(
+  lineItems: LineItemSelection[],
+  currencyCode: CurrencyCode,
+  scenario: Scenario = currentScenario()
+): { lineItems: LineItemSelection[], details: OrderDetails } {
+  const discountedLineItems = lineItems.map(lineItem => ({
+    ...lineItem,
+    appliedDiscount: generateRandomDiscount(pickWeighted(scenario.lineItemDiscounts), parseFloat(lineItem.variant.price), scenario)
+  }));
+  
+  const subtotal = lineItems.reduce((sum, lineItem) => sum + parseFloat(lineItem.variant.price) * lineItem.quantity, 0);
+  const appliedDiscount = generateRandomDiscount(pickWeighted(scenario.orderDiscounts), subtotal, scenario);
+  
+  const rates = scenario.orderDetails;
+  const shippingLine = chance(rates.shippingLine) ? getRandomShippingLine(currencyCode, scenario) : null;
+  
+  const customLineItems: CustomLineItem[] = [];
+  if (chance(rates.customLineItem)) {
+    const item = pickOne(CUSTOM_LINE_ITEMS);
+    customLineItems.push({
+      title: item.title,
+      price: { amount: item.price / 100, currencyCode },
+      quantity: 1,
+      requiresShipping: item.requiresShipping,
+      taxable: item.taxable
+    });
+  }
+  
+  const note = chance(rates.note) ? pickOne(ORDER_NOTES) : null;
+  
+  const customAttributes: CustomAttribute[] = [];
+  if (chance(rates.customAttributes)) {
+    const attributeCount = randomInteger({ min: 1, max: 2 });
+    for (let i = 0; i < attributeCount; i++) {
+      const available = CUSTOM_ATTRIBUTES.filter(attribute => !customAttributes.some(added => added.key === attribute.key));
+      const attribute = pickOne(available);
+      customAttributes.push({ key: attribute.key, value: pickOne(attribute.values) });
+    }
+  }
+  
+  return {
+    lineItems: discountedLineItems,
+    details: { appliedDiscount, shippingLine, customLineItems, note, customAttributes }
+  };
+}
+
+/**
+ * Generates a customer to create for an order: a name, an email address on the reserved
+ * test domain, marketing consent and an address in one of the scenario's countries
+ */
+export function generateRandomCustomer(scenario: Scenario = currentScenario()): SyntheticCustomer {
+  const firstName = FIRST_NAMES[Math.floor(random() * FIRST_NAMES.length)];
+  const lastName = LAST_NAMES[Math.floor(random() * LAST_NAMES.length)];
+  const address = generateRandomAddress({ firstName, lastName }, scenario);
+  
+  // Shopify requires unique emails. Math.random is used for the suffix so it doesn't consume
+  // numbers from the seeded generator, and a retried order never reuses an email.
+  const localPart = `${firstName}.${lastName}`
+    .normalize('NFD')
+    .replace(/[^A-Za-z.]/g, '')
+    .toLowerCase();
+  const suffix = Math.floor(Math.random() * 0x100000000).toString(16).padStart(8, '0');
+  
+  return {
+    firstName,
+    lastName,
+    email: `${localPart}.${suffix}@${SYNTHETIC_CUSTOMER_EMAIL_DOMAIN}`,
+    // E.164 form of the address's phone number
+    phone: address.phone ? address.phone.replace(/[^+\d]/g, '') : null,
+    address,
+    consent: {
+      email: random() < EMAIL_MARKETING_RATE,
+      sms: random() < SMS_MARKETING_RATE
+    }
+  };
+}
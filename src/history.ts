@@ -0,0 +1,70 @@
+import { HistoryRange, VolumeCurve, WEEKDAYS, WeightedValue } from './types';
+import { createRandomGenerator, pickWeighted } from './random';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * Parses a YYYY-MM-DD date as midnight UTC, or returns null when it isn't a real date
+ */
+export function parseHistoryDate(date: string): number | null {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) return null;
+  
+  const time = Date.parse(`${date}T00:00:00Z`);
+  // Rejects dates that roll over, such as 2025-02-30
+  return Number.isNaN(time) || new Date(time).toISOString().slice(0, 10) !== date ? null : time;
+}
+
+/**
+ * Returns the start of every day in a history range with its relative order volume:
+ * the weight of its weekday times the multiplier of each spike covering it
+ */
+export function getDailyVolumes(range: HistoryRange, curve: VolumeCurve): WeightedValue<number>[] {
+  const from = parseHistoryDate(range.from);
+  const to = parseHistoryDate(range.to);
+  if (from === null || to === null || from > to) {
+    throw new Error(`Invalid history range ${range.from}..${range.to}`);
+  }
+  
+  const days: WeightedValue<number>[] = [];
+  for (let day = from; day <= to; day += DAY_MS) {
+    const weekday = WEEKDAYS[new Date(day).getUTCDay()];
+    let weight = curve.weekdays.find(entry => entry.value === weekday)?.weight ?? 0;
+    
+    for (const spike of curve.spikes) {
+      if (day >= parseHistoryDate(spike.from)! && day <= parseHistoryDate(spike.to)!) {
+        weight *= spike.multiplier;
+      }
+    }
+    days.push({ value: day, weight });
+  }
+  return days;
+}
+
+/**
+ * Picks the processed time of every order in a backdated history, oldest first, so order
+ * numbers rise with their dates. The schedule depends only on the seed, count, range and curve,
+ * so a resumed run gives each order the time it had before. Times never lie in the future.
+ */
+export function buildHistorySchedule(
+  count: number,
+  range: HistoryRange,
+  curve: VolumeCurve,
+  seed: string,
+  now: number = Date.now()
+): string[] {
+  const days = getDailyVolumes(range, curve);
+  if (!days.some(day => day.weight > 0)) {
+    throw new Error(`The scenario's volume curve gives no orders to any day from ${range.from} to ${range.to}`);
+  }
+  
+  const next = createRandomGenerator(`${seed}:history`);
+  const times = Array.from({ length: count }, () => {
+    const day = pickWeighted(days, next);
+    const hour = pickWeighted(curve.hours, next);
+    const second = Math.floor(next() * 3600);
+    return Math.min(now, day + hour * HOUR_MS + second * 1000);
+  });
+  
+  return times.sort((a, b) => a - b).map(time => new Date(time).toISOString());
+}
@@ -0,0 +1,148 @@
+export { createOrderGenerator } from './generator';
+export {
+  createShopifyClient,
+  makeShopifyGraphQLRequest,
+  formatQueryCostUsage,
+  getQueryCostTotals,
+  ShopifyGraphQLError,
+  ShopifyThrottledError,
+  ShopifyHttpError
+} from './shopify-client';
+export {
+  fetchCustomers,
+  fetchRandomCustomer,
+  fetchProductsWithInventory,
+  fetchRandomProduct,
+  fetchCustomerById,
+  fetchVariantsByIds,
+  fetchCatalog,
+  fetchShopCurrency,
+  pickRandomCustomer,
+  pickRandomProduct,
+  pickRandomLineItems,
+  pickFulfillmentLocation,
+  buildProductSearchQuery,
+  buildCustomerSearchQuery
+} from './catalog';
+export {
+  getAvailableQuantity,
+  isInStock,
+  getUnreservedQuantity,
+  reserveStock,
+  releaseStock,
+  fetchLocation,
+  fetchFulfillmentLocations
+} from './inventory';
+export { createDraftOrder, completeDraftOrder, createBackdatedOrder, createRandomOrder } from './orders';
+export { createCustomer, selectOrderCustomer } from './customers';
+export { applyOrderLifecycle } from './lifecycle';
+export { createBulkOrders } from './bulk';
+export { buildHistorySchedule, getDailyVolumes, parseHistoryDate } from './history';
+export { cleanupGeneratedOrders } from './cleanup';
+export { runPreflight, formatPreflightReport, getOrderRunFeatures } from './preflight';
+export {
+  getRandomPaymentStatus,
+  getRandomFulfillmentStatus,
+  getRandomDeliveryInfo,
+  generateRandomTrackingNumber,
+  getTrackingUrl,
+  generateRandomAddress,
+  generateRandomCustomer,
+  generateRandomDiscount,
+  generateRandomOrderDetails,
+  getRandomShippingLine,
+  getRandomLifecycleAction,
+  getRandomReturnReason,
+  generateRandomTags,
+  NEW_CUSTOMER_TAG,
+  RETURNING_CUSTOMER_TAG,
+  SYNTHETIC_CUSTOMER_EMAIL_DOMAIN
+} from './generators';
+export { createRandomGenerator, createRunSeed, random, randomInteger, pickWeighted, chance, withOrderContext } from './random';
+export { DEFAULT_SCENARIO, ScenarioError, loadScenario } from './scenario';
+export {
+  DEFAULT_STORES_FILE,
+  StoreConfigError,
+  StoreWriteError,
+  loadStoreProfiles,
+  findStoreProfile,
+  readStoreAccessToken,
+  assertWritesAllowed,
+  normalizeShopDomain
+} from './stores';
+export { LOCALE_PACKS } from './locales';
+export { GENERATED_ORDER_TAG, createRunId, getRunTags } from './run';
+export { setLogger } from './log';
+export { toOrderOutput } from './output';
+export {
+  ORDER_PAYMENT_STATUSES,
+  ORDER_FULFILLMENT_STATUSES,
+  SHIPPING_CARRIERS,
+  ADDRESS_COUNTRIES,
+  CUSTOMER_TYPES,
+  DISCOUNT_TYPES,
+  LIFECYCLE_ACTIONS,
+  WEEKDAYS,
+  Address,
+  AddressCountry,
+  AppliedDiscount,
+  BackdatedOrderCompletion,
+  BulkRunOptions,
+  Catalog,
+  CleanupFilter,
+  CustomAttribute,
+  Customer,
+  CustomerFilter,
+  CustomLineItem,
+  CustomerType,
+  DeliveryInfo,
+  DeliveryStatus,
+  DiscountType,
+  DraftOrderCompletion,
+  DraftOrderSummary,
+  HistoryRange,
+  IncompleteOrder,
+  IntegerRange,
+  InventoryItem,
+  InventoryLevel,
+  LifecycleAction,
+  LifecycleOutcome,
+  LineItemSelection,
+  LocaleCity,
+  LocalePack,
+  LocaleRegion,
+  MarketingConsent,
+  OrderDetailRates,
+  OrderDetails,
+  OrderFulfillmentStatus,
+  OrderGenerationOptions,
+  OrderGenerator,
+  OrderGeneratorConfig,
+  OrderOutput,
+  OrderPaymentStatus,
+  OrderResult,
+  OrderStatusSelection,
+  PreflightCheck,
+  PreflightFeature,
+  PreflightReport,
+  Product,
+  ProductFilter,
+  ProductVariant,
+  QueryCostTotals,
+  RefundableLineItem,
+  Scenario,
+  ScenarioState,
+  ShippingCarrier,
+  ShippingLine,
+  ShopifyClient,
+  ShopifyClientConfig,
+  ShopLocation,
+  StoreProfile,
+  StreetFormat,
+  VolumeCurve,
+  VolumeSpike,
+  SyntheticCustomer,
+  TokenSource,
+  Weekday,
+  WeightedValue
+} from './types';
@@ -0,0 +1,49 @@
+import { ShopifyClient } from './types';
+import { makeShopifyGraphQLRequest } from './shopify-client';
+import { InspectOrderDocument } from './generated/admin';
+import { log } from './log';
+
+/**
+ * Prints an order's current state
+ */
+export async function inspectOrder(client: ShopifyClient, orderId: string): Promise<void> {
+  const response = await makeShopifyGraphQLRequest(client, InspectOrderDocument, { id: orderId });
+  const order = response.data?.order;
+  
+  if (!order) {
+    throw new Error(`Order not found: ${orderId}`);
+  }
+  
+  log('\n=============================================');
+  log(`ORDER ${order.name}`);
+  log('=============================================');
+  log(`Order ID: ${order.id}`);
+  log(`Created: ${order.createdAt}`);
+  if (order.customer) {
+    log(`Customer: ${order.customer.firstName} ${order.customer.lastName} (${order.customer.email})`);
+  }
+  log(`Total: ${order.totalPriceSet.shopMoney.amount} ${order.totalPriceSet.shopMoney.currencyCode}`);
+  log(`Outstanding: ${order.totalOutstandingSet.shopMoney.amount} ${order.totalOutstandingSet.shopMoney.currencyCode}`);
+  log(`Financial Status: ${order.displayFinancialStatus}`);
+  log(`Fulfillment Status: ${order.displayFulfillmentStatus}`);
+  if (order.tags.length > 0) {
+    log(`Tags: ${order.tags.join(', ')}`);
+  }
+  
+  log('Line Items:');
+  for (const { node: lineItem } of order.lineItems.edges) {
+    const variantTitle = lineItem.variantTitle ? ` - ${lineItem.variantTitle}` : '';
+    log(`  ${lineItem.quantity} x ${lineItem.title}${variantTitle}${lineItem.sku ? ` (${lineItem.sku})` : ''}`);
+  }
+  
+  if (order.fulfillments.length > 0) {
+    log('Fulfillments:');
+    for (const fulfillment of order.fulfillments) {
+      log(`  ${fulfillment.id} (${fulfillment.displayStatus ?? 'UNKNOWN'})`);
+      for (const tracking of fulfillment.trackingInfo) {
+        log(`    ${tracking.company}: ${tracking.number} ${tracking.url}`);
+      }
+    }
+  }
+  log('=============================================');
+}
@@ -0,0 +1,114 @@
+import {
+  LineItemSelection,
+  ProductVariant,
+  ShopLocation,
+  ShopifyClient
+} from './types';
+import { fetchAllPages, makeShopifyGraphQLRequest } from './shopify-client';
+import { LocationDocument, LocationsDocument } from './generated/admin';
+
+/**
+ * Returns how many units of a variant can be sold from a location: the available quantity of its
+ * inventory level there, or none when it isn't stocked there. Variants that keep selling when out
+ * of stock, or whose inventory isn't tracked, have no limit.
+ */
+export function getAvailableQuantity(variant: ProductVariant, locationId: string): number {
+  if (variant.inventoryPolicy === 'CONTINUE' || !variant.inventoryItem.tracked) {
+    return Infinity;
+  }
+  const level = variant.inventoryItem.inventoryLevels.edges
+    .map(edge => edge.node)
+    .find(candidate => candidate.location.id === locationId);
+  const available = level?.quantities.find(quantity => quantity.name === 'available');
+  return available?.quantity ?? 0;
+}
+
+/**
+ * Tells whether a variant has stock at any location, or can be sold without stock
+ */
+export function isInStock(variant: ProductVariant): boolean {
+  return variant.inventoryPolicy === 'CONTINUE' || !variant.inventoryItem.tracked
+    || variant.inventoryItem.inventoryLevels.edges.some(edge => getAvailableQuantity(variant, edge.node.location.id) > 0);
+}
+
+/**
+ * Builds the key a variant's reserved units at a location are kept under
+ */
+function getReservationKey(variantId: string, locationId: string): string {
+  return `${variantId}@${locationId}`;
+}
+
+/**
+ * Returns how many units of a variant are left at a location once the run's reservations are taken off
+ */
+export function getUnreservedQuantity(variant: ProductVariant, locationId: string, reservedQuantities: Map<string, number>): number {
+  return getAvailableQuantity(variant, locationId) - (reservedQuantities.get(getReservationKey(variant.id, locationId)) ?? 0);
+}
+
+/**
+ * Reserves the units of the given line items at the location fulfilling them, so later orders
+ * of the run can't sell them again
+ */
+export function reserveStock(reservedQuantities: Map<string, number>, locationId: string, lineItems: LineItemSelection[]): void {
+  for (const lineItem of lineItems) {
+    const key = getReservationKey(lineItem.variant.id, locationId);
+    reservedQuantities.set(key, (reservedQuantities.get(key) ?? 0) + lineItem.quantity);
+  }
+}
+
+/**
+ * Hands back the units reserved for an order that was never created
+ */
+export function releaseStock(reservedQuantities: Map<string, number>, locationId: string, lineItems: LineItemSelection[]): void {
+  for (const lineItem of lineItems) {
+    const key = getReservationKey(lineItem.variant.id, locationId);
+    const remaining = (reservedQuantities.get(key) ?? 0) - lineItem.quantity;
+    if (remaining > 0) {
+      reservedQuantities.set(key, remaining);
+    } else {
+      reservedQuantities.delete(key);
+    }
+  }
+}
+
+/**
+ * Fetches a location orders can be pinned to. Fails when there is no such location or it
+ * can't fulfill orders.
+ */
+export async function fetchLocation(client: ShopifyClient, locationId: string): Promise<ShopLocation> {
+  const response = await makeShopifyGraphQLRequest(client, LocationDocument, { id: locationId });
+  const location = response.data?.location;
+  
+  if (!location) {
+    throw new Error(`Location not found: ${locationId}`);
+  }
+  if (!location.isActive) {
+    throw new Error(`Location ${location.name} (${location.id}) is deactivated and can't fulfill orders`);
+  }
+  if (!location.fulfillsOnlineOrders) {
+    throw new Error(`Location ${location.name} (${location.id}) doesn't fulfill online orders`);
+  }
+  
+  return location;
+}
+
+/**
+ * Fetches the active locations that fulfill online orders, which orders that aren't pinned to
+ * a location are fulfilled from
+ */
+export async function fetchFulfillmentLocations(client: ShopifyClient): Promise<ShopLocation[]> {
+  const locations: ShopLocation[] = await fetchAllPages(
+    client,
+    'locations',
+    LocationsDocument,
+    { first: 50 },
+    response => response.data?.locations,
+    Number.MAX_SAFE_INTEGER
+  );
+  
+  const fulfilling = locations.filter(location => location.isActive && location.fulfillsOnlineOrders);
+  if (fulfilling.length === 0) {
+    throw new Error('No active location fulfills online orders');
+  }
+  return fulfilling;
+}
@@ -0,0 +1,96 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { JournalEntry, JournalEvent, JournalOrderRecord, OrderJournalEvent, OrderResult } from './types';
+import { orderContext } from './random';
+
+// Directory run journals are written to
+const JOURNAL_DIR = process.env.JOURNAL_DIR || 'journals';
+
+// Journal for the current run; null when nothing is being recorded (e.g. dry runs)
+let activeJournal: { path: string, runId: string } | null = null;
+
+/**
+ * Returns the journal file for a run ID, or the given path when it points to an existing file
+ */
+export function resolveJournalPath(runIdOrPath: string): string {
+  return fs.existsSync(runIdOrPath) && fs.statSync(runIdOrPath).isFile()
+    ? runIdOrPath
+    : path.join(JOURNAL_DIR, `${runIdOrPath}.jsonl`);
+}
+
+/**
+ * Starts writing journal entries for a run, appending to the file if it already exists
+ */
+export function openJournal(runId: string, journalPath: string = resolveJournalPath(runId)): string {
+  fs.mkdirSync(path.dirname(journalPath), { recursive: true });
+  activeJournal = { path: journalPath, runId };
+  return journalPath;
+}
+
+/**
+ * Appends an entry to the run journal. Writes are synchronous so an entry is on disk
+ * before the next step starts, even if the process is interrupted.
+ */
+export function writeJournal(event: JournalEvent): void {
+  if (!activeJournal) return;
+  
+  const entry = { time: new Date().toISOString(), runId: activeJournal.runId, ...event };
+  fs.appendFileSync(activeJournal.path, `${JSON.stringify(entry)}\n`);
+}
+
+/**
+ * Appends an entry for the order currently being created
+ */
+export function writeOrderJournal(event: OrderJournalEvent): void {
+  const context = orderContext.getStore();
+  if (!context) return;
+  
+  writeJournal({ ...event, index: context.index });
+}
+
+/**
+ * Reads every entry of a run journal
+ */
+export function readJournal(journalPath: string): JournalEntry[] {
+  return fs.readFileSync(journalPath, 'utf8')
+    .split('\n')
+    .filter(line => line.trim().length > 0)
+    .map((line, lineIndex) => {
+      try {
+        return JSON.parse(line) as JournalEntry;
+      } catch (error) {
+        throw new Error(`Invalid journal entry on line ${lineIndex + 1} of ${journalPath}`);
+      }
+    });
+}
+
+/**
+ * Reads the entry that started a run, which holds its seed and command line
+ */
+export function readRunStarted(journalPath: string): Extract<JournalEntry, { type: 'run-started' }> {
+  const runStarted = readJournal(journalPath).find(entry => entry.type === 'run-started');
+  if (!runStarted) {
+    throw new Error(`Journal ${journalPath} has no run-started entry`);
+  }
+  return runStarted as Extract<JournalEntry, { type: 'run-started' }>;
+}
+
+/**
+ * Converts an order result into the record stored in the journal
+ */
+export function toJournalOrderRecord(result: OrderResult): JournalOrderRecord {
+  return {
+    orderId: result.orderId,
+    customerId: result.customer.id,
+    lineItems: result.lineItems.map(lineItem => ({ variantId: lineItem.variant.id, quantity: lineItem.quantity })),
+    tags: result.tags,
+    paymentStatus: result.paymentStatus,
+    actualFinancialStatus: result.actualFinancialStatus,
+    fulfillmentStatus: result.fulfillmentStatus,
+    actualFulfillmentStatus: result.actualFulfillmentStatus,
+    fulfillmentId: result.fulfillmentId,
+    deliveryInfo: result.deliveryInfo,
+    lifecycleAction: result.lifecycle.action
+  };
+}
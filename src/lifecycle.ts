@@ -0,0 +1,309 @@
+import {
+  LifecycleAction,
+  LifecycleOutcome,
+  Money,
+  RefundableLineItem,
+  ShopifyClient
+} from './types';
+import { makeShopifyGraphQLRequest } from './shopify-client';
+import {
+  RefundCreateDocument,
+  RefundCreateMutationVariables,
+  RefundLineItemInput,
+  RefundableOrderDocument,
+  ReturnCloseDocument,
+  ReturnCreateDocument,
+  ReturnCreateMutationVariables,
+  SuggestedRefundDocument,
+  SuggestedRefundQuery
+} from './generated/admin';
+import { log, warn } from './log';
+import { random } from './random';
+import { getRandomReturnReason } from './generators';
+import { writeOrderJournal } from './journal';
+import { cancelOrder } from './cleanup';
+
+/**
+ * Creates the outcome of a lifecycle action before anything has been done
+ */
+function createLifecycleOutcome(action: LifecycleAction): LifecycleOutcome {
+  return {
+    action,
+    applied: false,
+    skippedReason: null,
+    refundId: null,
+    refundedAmount: null,
+    restockedQuantity: 0,
+    cancelled: false,
+    returnId: null,
+    returnStatus: null
+  };
+}
+
+/**
+ * Fetches an order's line items with their refundable quantities, and the line items of its fulfillments
+ */
+async function fetchRefundableOrder(client: ShopifyClient, orderId: string): Promise<{
+  lineItems: RefundableLineItem[],
+  fulfillmentLineItems: { id: string, quantity: number }[]
+}> {
+  const response = await makeShopifyGraphQLRequest(client, RefundableOrderDocument, { id: orderId });
+  
+  if (!response.data?.order) {
+    throw new Error(`Order not found: ${orderId}`);
+  }
+  
+  return {
+    lineItems: response.data.order.lineItems.edges.map(edge => edge.node),
+    // Shopify leaves the quantity out for line items it can't count, which can't be returned
+    fulfillmentLineItems: response.data.order.fulfillments.flatMap(fulfillment =>
+      fulfillment.fulfillmentLineItems.edges.flatMap(({ node }) => node.quantity ? [{ id: node.id, quantity: node.quantity }] : [])
+    )
+  };
+}
+
+/**
+ * Builds the refund line item for some units of a line item. Units are only restocked when none
+ * of them have shipped and the item is a product variant.
+ */
+function toRefundLineItem(lineItem: RefundableLineItem, quantity: number): RefundLineItemInput {
+  const restock = lineItem.variant !== null && lineItem.unfulfilledQuantity >= quantity;
+  return { lineItemId: lineItem.id, quantity, restockType: restock ? 'CANCEL' : 'NO_RESTOCK' };
+}
+
+/**
+ * Picks the line items to refund: every refundable unit for a full refund, or one unit of a
+ * random line item for a partial refund. Returns an empty list when a partial refund would
+ * refund the whole order.
+ */
+function selectLineItemsToRefund(lineItems: RefundableLineItem[], full: boolean): RefundLineItemInput[] {
+  const refundable = lineItems.filter(lineItem => lineItem.refundableQuantity > 0);
+  
+  if (full) {
+    return refundable.map(lineItem => toRefundLineItem(lineItem, lineItem.refundableQuantity));
+  }
+  
+  const totalUnits = refundable.reduce((sum, lineItem) => sum + lineItem.refundableQuantity, 0);
+  if (totalUnits < 2) {
+    return [];
+  }
+  
+  const lineItem = refundable[Math.floor(random() * refundable.length)];
+  return [toRefundLineItem(lineItem, 1)];
+}
+
+/**
+ * Asks Shopify how much to refund for some line items and which payments to refund it to
+ */
+async function fetchSuggestedRefund(
+  client: ShopifyClient,
+  orderId: string,
+  refundLineItems: RefundLineItemInput[],
+  refundShipping: boolean
+): Promise<NonNullable<NonNullable<SuggestedRefundQuery['order']>['suggestedRefund']>> {
+  const response = await makeShopifyGraphQLRequest(client, SuggestedRefundDocument, { id: orderId, refundLineItems, refundShipping });
+  
+  if (!response.data?.order) {
+    throw new Error(`Order not found: ${orderId}`);
+  }
+  if (!response.data.order.suggestedRefund) {
+    throw new Error(`No refund could be suggested for order ${orderId}`);
+  }
+  
+  return response.data.order.suggestedRefund;
+}
+
+/**
+ * Refunds line items, and the shipping charge for a full refund, to the payments Shopify suggests.
+ * Unpaid orders have nothing to refund to, so only their items are removed and restocked.
+ */
+async function createRefund(
+  client: ShopifyClient,
+  orderId: string,
+  refundLineItems: RefundLineItemInput[],
+  refundShipping: boolean
+): Promise<{ id: string, amount: Money }> {
+  const suggestion = await fetchSuggestedRefund(client, orderId, refundLineItems, refundShipping);
+  
+  log(`Refunding ${refundLineItems.reduce((sum, item) => sum + item.quantity, 0)} units (${suggestion.amountSet.shopMoney.amount} ${suggestion.amountSet.shopMoney.currencyCode})`);
+  
+  // Customers are not notified, matching the rest of the order flow
+  const variables: RefundCreateMutationVariables = {
+    input: {
+      orderId,
+      note: 'Generated test refund',
+      notify: false,
+      refundLineItems,
+      ...(refundShipping ? { shipping: { fullRefund: true } } : {}),
+      // Refunds go back through a gateway, so suggestions without one can't be refunded to
+      transactions: suggestion.suggestedTransactions.flatMap(transaction => transaction.gateway ? [{
+        orderId,
+        parentId: transaction.parentTransaction?.id,
+        gateway: transaction.gateway,
+        kind: 'REFUND' as const,
+        amount: transaction.amountSet.shopMoney.amount
+      }] : [])
+    }
+  };
+  
+  const response = await makeShopifyGraphQLRequest(client, RefundCreateDocument, variables);
+  
+  // Check for errors
+  if (response.data.refundCreate?.userErrors && response.data.refundCreate.userErrors.length > 0) {
+    throw new Error(`Failed to create refund: ${JSON.stringify(response.data.refundCreate.userErrors)}`);
+  }
+  
+  if (!response.data.refundCreate?.refund) {
+    throw new Error('Refund was requested but none was created');
+  }
+  
+  const refund = response.data.refundCreate.refund;
+  log(`Created refund: ${refund.id} (${refund.totalRefundedSet.shopMoney.amount} ${refund.totalRefundedSet.shopMoney.currencyCode})`);
+  writeOrderJournal({ type: 'refund-created', orderId, refundId: refund.id });
+  return { id: refund.id, amount: refund.totalRefundedSet.shopMoney };
+}
+
+/**
+ * Opens a return for every unit of a shipped line item
+ */
+async function createReturn(
+  client: ShopifyClient,
+  orderId: string,
+  fulfillmentLineItem: { id: string, quantity: number }
+): Promise<{ id: string, status: string }> {
+  const returnReason = getRandomReturnReason();
+  log(`Opening a return for ${fulfillmentLineItem.quantity} units (${returnReason})`);
+  
+  const variables: ReturnCreateMutationVariables = {
+    returnInput: {
+      orderId,
+      notifyCustomer: false,
+      returnLineItems: [{
+        fulfillmentLineItemId: fulfillmentLineItem.id,
+        quantity: fulfillmentLineItem.quantity,
+        returnReason,
+        returnReasonNote: 'Generated test return'
+      }]
+    }
+  };
+  
+  const response = await makeShopifyGraphQLRequest(client, ReturnCreateDocument, variables);
+  
+  // Check for errors
+  if (response.data.returnCreate?.userErrors && response.data.returnCreate.userErrors.length > 0) {
+    throw new Error(`Failed to create return: ${JSON.stringify(response.data.returnCreate.userErrors)}`);
+  }
+  
+  if (!response.data.returnCreate?.return) {
+    throw new Error('Return was requested but none was created');
+  }
+  
+  const created = response.data.returnCreate.return;
+  log(`Opened return: ${created.name} (${created.id})`);
+  writeOrderJournal({ type: 'return-created', orderId, returnId: created.id });
+  return { id: created.id, status: created.status };
+}
+
+/**
+ * Closes an open return
+ */
+async function closeReturn(client: ShopifyClient, orderId: string, returnId: string): Promise<string> {
+  const response = await makeShopifyGraphQLRequest(client, ReturnCloseDocument, { id: returnId });
+  
+  // Check for errors
+  if (response.data.returnClose?.userErrors && response.data.returnClose.userErrors.length > 0) {
+    throw new Error(`Failed to close return: ${JSON.stringify(response.data.returnClose.userErrors)}`);
+  }
+  
+  if (!response.data.returnClose?.return) {
+    throw new Error('Return close was requested but no return was returned');
+  }
+  
+  log(`Closed return: ${returnId}`);
+  writeOrderJournal({ type: 'return-closed', orderId, returnId });
+  return response.data.returnClose.return.status;
+}
+
+/**
+ * Takes a completed order further along its lifecycle: refunds it in full or in part, cancels it
+ * with restock, or opens a return and optionally closes it. Actions the order can't take, such as
+ * a return when nothing has shipped or a cancellation after something has, are skipped and
+ * reported with the reason.
+ */
+export async function applyOrderLifecycle(
+  client: ShopifyClient,
+  orderId: string,
+  action: LifecycleAction,
+  dryRun: boolean = false
+): Promise<LifecycleOutcome> {
+  const outcome = createLifecycleOutcome(action);
+  
+  if (action === 'NONE') {
+    return outcome;
+  }
+  
+  log(`Applying lifecycle action: ${action}`);
+  
+  if (dryRun) {
+    log(`[dry run] Skipping lifecycle action ${action}`);
+    outcome.skippedReason = 'dry run';
+    return outcome;
+  }
+  
+  const order = await fetchRefundableOrder(client, orderId);
+  const skip = (reason: string): LifecycleOutcome => {
+    warn(`Warning: Skipping lifecycle action ${action}: ${reason}`);
+    outcome.skippedReason = reason;
+    return outcome;
+  };
+  
+  switch(action) {
+    case 'FULL_REFUND':
+    case 'PARTIAL_REFUND': {
+      const full = action === 'FULL_REFUND';
+      const refundLineItems = selectLineItemsToRefund(order.lineItems, full);
+      if (refundLineItems.length === 0) {
+        return skip(full ? 'the order has nothing left to refund' : 'a partial refund needs an order with at least two units');
+      }
+      
+      const refund = await createRefund(client, orderId, refundLineItems, full);
+      outcome.refundId = refund.id;
+      outcome.refundedAmount = refund.amount;
+      outcome.restockedQuantity = refundLineItems
+        .filter(item => item.restockType === 'CANCEL')
+        .reduce((sum, item) => sum + item.quantity, 0);
+      break;
+    }
+    case 'CANCEL': {
+      if (order.fulfillmentLineItems.length > 0) {
+        return skip('orders with shipped items cannot be cancelled');
+      }
+      
+      log('Cancelling order with restock and refund');
+      await cancelOrder(client, orderId, 'CUSTOMER', true, 'Generated test order cancelled at the customer\'s request');
+      writeOrderJournal({ type: 'order-cancelled', orderId });
+      outcome.cancelled = true;
+      outcome.restockedQuantity = order.lineItems
+        .filter(lineItem => lineItem.variant !== null)
+        .reduce((sum, lineItem) => sum + lineItem.refundableQuantity, 0);
+      break;
+    }
+    case 'OPEN_RETURN':
+    case 'CLOSED_RETURN': {
+      if (order.fulfillmentLineItems.length === 0) {
+        return skip('nothing has shipped, so there is nothing to return');
+      }
+      
+      const fulfillmentLineItem = order.fulfillmentLineItems[Math.floor(random() * order.fulfillmentLineItems.length)];
+      const created = await createReturn(client, orderId, fulfillmentLineItem);
+      outcome.returnId = created.id;
+      outcome.returnStatus = action === 'CLOSED_RETURN'
+        ? await closeReturn(client, orderId, created.id)
+        : created.status;
+      break;
+    }
+  }
+  
+  outcome.applied = true;
+  return outcome;
+}
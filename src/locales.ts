@@ -0,0 +1,168 @@
+import { AddressCountry, LocalePack } from './types';
+import { random } from './random';
+
+// Letters used for postal code patterns; leaves out letters Canadian and UK postcodes don't use
+const POSTAL_CODE_LETTERS = 'ABEGHJLNPRSTWXYZ';
+
+// Address data for every supported country. Each city has a postal code pattern and phone
+// area code that belong to it, so generated city/province/postal code/phone combinations agree.
+export const LOCALE_PACKS: Record<AddressCountry, LocalePack> = {
+  US: {
+    countryCode: 'US',
+    country: 'United States',
+    streetFormat: 'number-street',
+    phoneFormat: '+1 {area}-5##-####',
+    streets: ['Main St', 'Oak Ave', 'Maple Dr', 'Washington Blvd', 'Park Rd', 'Cedar Ln', 'Lake View Dr', 'River Rd', 'Pine St', 'Elm St'],
+    regions: [
+      { name: 'California', code: 'CA', cities: [
+        { name: 'Los Angeles', postalCode: '900##', areaCode: '213' },
+        { name: 'San Francisco', postalCode: '941##', areaCode: '415' },
+        { name: 'San Diego', postalCode: '921##', areaCode: '619' }
+      ] },
+      { name: 'New York', code: 'NY', cities: [
+        { name: 'New York', postalCode: '100##', areaCode: '212' },
+        { name: 'Buffalo', postalCode: '142##', areaCode: '716' }
+      ] },
+      { name: 'Texas', code: 'TX', cities: [
+        { name: 'Houston', postalCode: '770##', areaCode: '713' },
+        { name: 'Austin', postalCode: '787##', areaCode: '512' },
+        { name: 'Dallas', postalCode: '752##', areaCode: '214' }
+      ] },
+      { name: 'Florida', code: 'FL', cities: [
+        { name: 'Miami', postalCode: '331##', areaCode: '305' },
+        { name: 'Orlando', postalCode: '328##', areaCode: '407' }
+      ] },
+      { name: 'Illinois', code: 'IL', cities: [{ name: 'Chicago', postalCode: '606##', areaCode: '312' }] },
+      { name: 'Pennsylvania', code: 'PA', cities: [{ name: 'Philadelphia', postalCode: '191##', areaCode: '215' }] },
+      { name: 'Ohio', code: 'OH', cities: [{ name: 'Columbus', postalCode: '432##', areaCode: '614' }] },
+      { name: 'Georgia', code: 'GA', cities: [{ name: 'Atlanta', postalCode: '303##', areaCode: '404' }] },
+      { name: 'Washington', code: 'WA', cities: [{ name: 'Seattle', postalCode: '981##', areaCode: '206' }] },
+      { name: 'Massachusetts', code: 'MA', cities: [{ name: 'Boston', postalCode: '021##', areaCode: '617' }] },
+      { name: 'Colorado', code: 'CO', cities: [{ name: 'Denver', postalCode: '802##', areaCode: '303' }] },
+      { name: 'Arizona', code: 'AZ', cities: [{ name: 'Phoenix', postalCode: '850##', areaCode: '602' }] }
+    ]
+  },
+  CA: {
+    countryCode: 'CA',
+    country: 'Canada',
+    streetFormat: 'number-street',
+    phoneFormat: '+1 {area}-5##-####',
+    streets: ['King St W', 'Queen St E', 'Yonge St', 'Main St', 'Granville St', 'Jasper Ave', 'Portage Ave', 'Barrington St', 'Rue Sainte-Catherine', 'Rue Saint-Jean'],
+    regions: [
+      { name: 'Ontario', code: 'ON', cities: [
+        { name: 'Toronto', postalCode: 'M5V #@#', areaCode: '416' },
+        { name: 'Ottawa', postalCode: 'K1P #@#', areaCode: '613' }
+      ] },
+      { name: 'Quebec', code: 'QC', cities: [
+        { name: 'Montréal', postalCode: 'H2X #@#', areaCode: '514' },
+        { name: 'Québec', postalCode: 'G1R #@#', areaCode: '418' }
+      ] },
+      { name: 'British Columbia', code: 'BC', cities: [
+        { name: 'Vancouver', postalCode: 'V6B #@#', areaCode: '604' },
+        { name: 'Victoria', postalCode: 'V8W #@#', areaCode: '250' }
+      ] },
+      { name: 'Alberta', code: 'AB', cities: [
+        { name: 'Calgary', postalCode: 'T2P #@#', areaCode: '403' },
+        { name: 'Edmonton', postalCode: 'T5J #@#', areaCode: '780' }
+      ] },
+      { name: 'Manitoba', code: 'MB', cities: [{ name: 'Winnipeg', postalCode: 'R3C #@#', areaCode: '204' }] },
+      { name: 'Nova Scotia', code: 'NS', cities: [{ name: 'Halifax', postalCode: 'B3J #@#', areaCode: '902' }] }
+    ]
+  },
+  // UK addresses have no province in Shopify, so regions only group the cities
+  GB: {
+    countryCode: 'GB',
+    country: 'United Kingdom',
+    streetFormat: 'number-street',
+    phoneFormat: '+44 {area} ### ####',
+    streets: ['High Street', 'Station Road', 'Church Lane', 'Victoria Road', 'Green Lane', 'Manor Road', 'Park Avenue', 'Queen Street', 'Mill Lane', 'The Crescent'],
+    regions: [
+      { name: 'England', code: null, cities: [
+        { name: 'London', postalCode: 'SW1A #@@', areaCode: '20', phoneFormat: '+44 {area} #### ####' },
+        { name: 'Manchester', postalCode: 'M1 #@@', areaCode: '161' },
+        { name: 'Birmingham', postalCode: 'B1 #@@', areaCode: '121' },
+        { name: 'Bristol', postalCode: 'BS1 #@@', areaCode: '117' }
+      ] },
+      { name: 'Scotland', code: null, cities: [
+        { name: 'Edinburgh', postalCode: 'EH1 #@@', areaCode: '131' },
+        { name: 'Glasgow', postalCode: 'G1 #@@', areaCode: '141' }
+      ] },
+      { name: 'Wales', code: null, cities: [{ name: 'Cardiff', postalCode: 'CF10 #@@', areaCode: '29', phoneFormat: '+44 {area} #### ####' }] }
+    ]
+  },
+  // German addresses have no province in Shopify either
+  DE: {
+    countryCode: 'DE',
+    country: 'Germany',
+    streetFormat: 'street-number',
+    phoneFormat: '+49 {area} #######',
+    streets: ['Hauptstraße', 'Bahnhofstraße', 'Schulstraße', 'Gartenstraße', 'Lindenallee', 'Bergstraße', 'Goethestraße', 'Kirchweg', 'Marktplatz', 'Am Rathaus'],
+    regions: [
+      { name: 'Berlin', code: null, cities: [{ name: 'Berlin', postalCode: '101##', areaCode: '30' }] },
+      { name: 'Hamburg', code: null, cities: [{ name: 'Hamburg', postalCode: '201##', areaCode: '40' }] },
+      { name: 'Bayern', code: null, cities: [
+        { name: 'München', postalCode: '803##', areaCode: '89' },
+        { name: 'Nürnberg', postalCode: '904##', areaCode: '911' }
+      ] },
+      { name: 'Nordrhein-Westfalen', code: null, cities: [
+        { name: 'Köln', postalCode: '506##', areaCode: '221' },
+        { name: 'Düsseldorf', postalCode: '402##', areaCode: '211' }
+      ] },
+      { name: 'Hessen', code: null, cities: [{ name: 'Frankfurt am Main', postalCode: '603##', areaCode: '69' }] },
+      { name: 'Baden-Württemberg', code: null, cities: [{ name: 'Stuttgart', postalCode: '701##', areaCode: '711' }] }
+    ]
+  },
+  AU: {
+    countryCode: 'AU',
+    country: 'Australia',
+    streetFormat: 'number-street',
+    phoneFormat: '+61 {area} #### ####',
+    streets: ['George St', 'Collins St', 'Queen St', 'Hay St', 'King William St', 'Elizabeth St', 'Bourke St', 'Pitt St', 'Murray St', 'Flinders St'],
+    regions: [
+      { name: 'New South Wales', code: 'NSW', cities: [
+        { name: 'Sydney', postalCode: '20##', areaCode: '2' },
+        { name: 'Newcastle', postalCode: '230#', areaCode: '2' }
+      ] },
+      { name: 'Victoria', code: 'VIC', cities: [
+        { name: 'Melbourne', postalCode: '30##', areaCode: '3' },
+        { name: 'Geelong', postalCode: '322#', areaCode: '3' }
+      ] },
+      { name: 'Queensland', code: 'QLD', cities: [
+        { name: 'Brisbane', postalCode: '40##', areaCode: '7' },
+        { name: 'Gold Coast', postalCode: '421#', areaCode: '7' }
+      ] },
+      { name: 'Western Australia', code: 'WA', cities: [{ name: 'Perth', postalCode: '60##', areaCode: '8' }] },
+      { name: 'South Australia', code: 'SA', cities: [{ name: 'Adelaide', postalCode: '50##', areaCode: '8' }] },
+      { name: 'Tasmania', code: 'TAS', cities: [{ name: 'Hobart', postalCode: '70##', areaCode: '3' }] },
+      { name: 'Australian Capital Territory', code: 'ACT', cities: [{ name: 'Canberra', postalCode: '26##', areaCode: '2' }] }
+    ]
+  },
+  JP: {
+    countryCode: 'JP',
+    country: 'Japan',
+    streetFormat: 'block-district',
+    phoneFormat: '+81 {area}-####-####',
+    streets: ['Chuo', 'Honcho', 'Sakuramachi', 'Midori', 'Minami', 'Kita', 'Higashi', 'Nishi', 'Motomachi', 'Asahi'],
+    regions: [
+      { name: 'Tokyo', code: 'JP-13', cities: [
+        { name: 'Chiyoda-ku', postalCode: '100-####', areaCode: '3' },
+        { name: 'Shibuya-ku', postalCode: '150-####', areaCode: '3' }
+      ] },
+      { name: 'Osaka', code: 'JP-27', cities: [{ name: 'Osaka', postalCode: '530-####', areaCode: '6' }] },
+      { name: 'Kyoto', code: 'JP-26', cities: [{ name: 'Kyoto', postalCode: '600-####', areaCode: '75', phoneFormat: '+81 {area}-###-####' }] },
+      { name: 'Kanagawa', code: 'JP-14', cities: [{ name: 'Yokohama', postalCode: '220-####', areaCode: '45', phoneFormat: '+81 {area}-###-####' }] },
+      { name: 'Aichi', code: 'JP-23', cities: [{ name: 'Nagoya', postalCode: '450-####', areaCode: '52', phoneFormat: '+81 {area}-###-####' }] },
+      { name: 'Hokkaido', code: 'JP-01', cities: [{ name: 'Sapporo', postalCode: '060-####', areaCode: '11', phoneFormat: '+81 {area}-###-####' }] },
+      { name: 'Fukuoka', code: 'JP-40', cities: [{ name: 'Fukuoka', postalCode: '810-####', areaCode: '92', phoneFormat: '+81 {area}-###-####' }] }
+    ]
+  }
+};
+
+/**
+ * Fills a postal code or phone pattern: `#` becomes a random digit and `@` a random letter
+ */
+export function fillPattern(pattern: string): string {
+  return pattern.replace(/[#@]/g, placeholder => placeholder === '#'
+    ? Math.floor(random() * 10).toString()
+    : POSTAL_CODE_LETTERS[Math.floor(random() * POSTAL_CODE_LETTERS.length)]);
+}
@@ -0,0 +1,25 @@
+// Destination of human-readable progress output
+let logger: (...args: unknown[]) => void = console.log;
+
+/**
+ * Prints human-readable progress
+ */
+export function log(...args: unknown[]): void {
+  logger(...args);
+}
+
+/**
+ * Prints a warning about something that was skipped or didn't go as requested, to the same
+ * destination as progress output
+ */
+export function warn(...args: unknown[]): void {
+  logger(...args);
+}
+
+/**
+ * Sends progress and warning output somewhere else, e.g. to stderr when stdout carries
+ * machine-readable results, or to a no-op function to silence it
+ */
+export function setLogger(fn: (...args: unknown[]) => void): void {
+  logger = fn;
+}
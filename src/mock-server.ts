@@ -0,0 +1,1577 @@
+import * as fs from 'fs';
+import * as http from 'http';
+
+/**
+ * Local stand-in for the Shopify Admin GraphQL API.
+ *
+ * Implements the operations used by the order generator against in-memory fixtures, and can
+ * inject userErrors, throttling and HTTP errors so the whole flow can run offline:
+ *
+ *   npm run mock-server
+ *   SHOPIFY_API_BASE_URL=http://localhost:4000 SHOP_URL=mock.myshopify.com ACCESS_TOKEN=test npm start
+ *
+ * Set MOCK_FIXTURES to a JSON file (shaped like MockFixtures) to replace the default fixtures.
+ *
+ * Control endpoints:
+ *   POST   /__mock/faults  queue a fault (JSON body, see MockFault)
+ *   DELETE /__mock/faults  clear queued faults
+ *   POST   /__mock/reset   restore the fixtures and clear all created draft orders and orders
+ *   GET    /__mock/state   dump the current in-memory state
+ */
+
+// Operations the mock understands, keyed by their root field name
+type MockOperation =
+  | 'customers'
+  | 'customer'
+  | 'customerCreate'
+  | 'customerDelete'
+  | 'shop'
+  | 'locations'
+  | 'location'
+  | 'currentAppInstallation'
+  | 'productVariants'
+  | 'nodes'
+  | 'order'
+  | 'orders'
+  | 'draftOrders'
+  | 'draftOrderCreate'
+  | 'draftOrderComplete'
+  | 'draftOrderDelete'
+  | 'orderCancel'
+  | 'orderCreate'
+  | 'orderCreateManualPayment'
+  | 'fulfillmentCreate'
+  | 'fulfillmentOrderMove'
+  | 'refundCreate'
+  | 'returnCreate'
+  | 'returnClose';
+
+// A fault returned instead of the normal response for the next matching request(s)
+interface MockFault {
+  operation: MockOperation | '*';
+  type: 'userErrors' | 'throttled' | 'httpError';
+  status?: number;
+  message?: string;
+  times?: number;
+}
+
+interface MockAddress {
+  address1: string;
+  address2: string | null;
+  city: string;
+  province: string | null;
+  provinceCode: string | null;
+  zip: string;
+  country: string;
+  countryCode: string;
+  phone: string | null;
+}
+
+interface MockCustomer {
+  id: string;
+  firstName: string;
+  lastName: string;
+  email: string;
+  defaultAddress: MockAddress | null;
+  tags?: string[];
+  createdAt?: string;
+}
+
+// Stock is kept per location in `inventoryLevels` (available units by location ID); when it is
+// left out, all of `inventoryQuantity` is at the first location
+interface MockVariant {
+  id: string;
+  title: string;
+  price: string;
+  inventoryQuantity: number;
+  sku: string | null;
+  inventoryPolicy?: 'DENY' | 'CONTINUE';
+  tracked?: boolean;
+  inventoryLevels?: Record<string, number>;
+}
+
+interface MockLocation {
+  id: string;
+  name: string;
+  isActive: boolean;
+  fulfillsOnlineOrders: boolean;
+}
+
+interface MockProduct {
+  id: string;
+  title: string;
+  productType?: string;
+  vendor?: string;
+  tags?: string[];
+  collectionIds?: string[];
+  // Products are active unless given a status
+  status?: 'ACTIVE' | 'DRAFT' | 'ARCHIVED';
+  variants: MockVariant[];
+}
+
+interface MockFixtures {
+  currencyCode: string;
+  customers: MockCustomer[];
+  products: MockProduct[];
+  // Locations stock is kept at; a single warehouse when left out
+  locations?: MockLocation[];
+  // Scopes granted to the app; every scope the script uses when left out
+  accessScopes?: string[];
+}
+
+// Product or custom line item; `price` is the unit price after the line item's discount
+interface MockLineItem {
+  variantId: string | null;
+  title: string;
+  quantity: number;
+  price: number;
+  requiresShipping: boolean;
+}
+
+interface MockDraftOrder {
+  id: string;
+  name: string;
+  createdAt: string;
+  customerId: string;
+  lineItems: MockLineItem[];
+  tags: string[];
+  totalPrice: number;
+  shippingPrice: number;
+  orderId: string | null;
+}
+
+// Fulfillment order line item; `lineItemIndex` points into the order's line items
+interface MockFulfillmentOrderLineItem {
+  id: string;
+  lineItemIndex: number;
+  totalQuantity: number;
+  remainingQuantity: number;
+}
+
+interface MockFulfillment {
+  id: string;
+  trackingInfo: { number: string, url: string, company: string }[];
+  lineItems: { id: string, lineItemIndex: number, quantity: number }[];
+}
+
+interface MockRefund {
+  id: string;
+  lineItems: { lineItemIndex: number, quantity: number, restockType: string }[];
+  amount: number;
+}
+
+interface MockReturn {
+  id: string;
+  name: string;
+  status: 'OPEN' | 'CLOSED';
+  lineItems: { fulfillmentLineItemId: string, quantity: number }[];
+}
+
+// Orders created with orderCreate have no draft order
+interface MockOrder {
+  id: string;
+  name: string;
+  createdAt: string;
+  processedAt: string;
+  cancelledAt: string | null;
+  draftOrderId: string | null;
+  customerId: string;
+  lineItems: MockLineItem[];
+  tags: string[];
+  totalPrice: number;
+  shippingPrice: number;
+  amountPaid: number;
+  amountRefunded: number;
+  shippingRefunded: boolean;
+  // IDs of the order's line items, in the same order as `lineItems`
+  lineItemIds: string[];
+  fulfillmentOrderId: string;
+  // Location the fulfillment order is assigned to, where the order's stock is committed
+  locationId: string;
+  fulfillmentLineItems: MockFulfillmentOrderLineItem[];
+  fulfillments: MockFulfillment[];
+  refunds: MockRefund[];
+  returns: MockReturn[];
+}
+
+interface MockState {
+  fixtures: MockFixtures;
+  draftOrders: Map<string, MockDraftOrder>;
+  orders: Map<string, MockOrder>;
+  faults: MockFault[];
+  nextId: number;
+  bucket: {
+    maximumAvailable: number;
+    currentlyAvailable: number;
+    restoreRate: number;
+    updatedAt: number;
+  };
+}
+
+interface GraphQLResult {
+  data?: Record<string, unknown>;
+  errors?: { message: string, extensions?: Record<string, unknown> }[];
+}
+
+// Cost charged per request; real Shopify costs vary by query, but a flat cost is enough to exercise throttling
+const MOCK_QUERY_COST = 10;
+
+// Scopes granted when the fixtures don't list any
+const MOCK_ACCESS_SCOPES = [
+  'write_customers',
+  'read_products',
+  'write_draft_orders',
+  'write_orders',
+  'write_merchant_managed_fulfillment_orders',
+  'write_returns',
+  'read_locations',
+  'read_inventory'
+];
+
+// Location used when the fixtures don't list any
+const MOCK_DEFAULT_LOCATION: MockLocation = {
+  id: 'gid://shopify/Location/1',
+  name: 'Warehouse',
+  isActive: true,
+  fulfillsOnlineOrders: true
+};
+
+// API versions reported by publicApiVersions
+const MOCK_API_VERSIONS = [
+  { handle: '2024-04', displayName: '2024-04', supported: false },
+  { handle: '2025-07', displayName: '2025-07', supported: false },
+  { handle: '2025-10', displayName: '2025-10', supported: true },
+  { handle: '2026-01', displayName: '2026-01', supported: true },
+  { handle: '2026-04', displayName: '2026-04', supported: true },
+  { handle: '2026-07', displayName: '2026-07', supported: true },
+  { handle: '2026-10', displayName: '2026-10 (Latest)', supported: true },
+  { handle: 'unstable', displayName: 'unstable', supported: false }
+];
+
+// Order in which root fields are matched against the query text
+const OPERATIONS: MockOperation[] = [
+  'customerCreate',
+  'customerDelete',
+  'draftOrderCreate',
+  'draftOrderComplete',
+  'draftOrderDelete',
+  'draftOrders',
+  'orderCancel',
+  'orderCreateManualPayment',
+  'orderCreate',
+  'orders',
+  'fulfillmentCreate',
+  'fulfillmentOrderMove',
+  'refundCreate',
+  'returnCreate',
+  'returnClose',
+  'productVariants',
+  'nodes',
+  'customers',
+  'customer',
+  'order',
+  'locations',
+  'location',
+  'currentAppInstallation',
+  'shop'
+];
+
+/**
+ * Default in-memory fixtures: a handful of customers (some without a default address), two
+ * locations and products, including an out-of-stock variant, one that keeps selling when out of
+ * stock and one whose inventory isn't tracked
+ */
+function createDefaultFixtures(): MockFixtures {
+  return {
+    currencyCode: 'USD',
+    customers: [
+      {
+        id: 'gid://shopify/Customer/1001',
+        firstName: 'Ada',
+        lastName: 'Lovelace',
+        email: 'ada@example.com',
+        defaultAddress: {
+          address1: '12 Analytical Way',
+          address2: null,
+          city: 'Chicago',
+          province: 'Illinois',
+          provinceCode: 'IL',
+          zip: '60601',
+          country: 'United States',
+          countryCode: 'US',
+          phone: '312-555-0101'
+        },
+        tags: ['wholesale']
+      },
+      { id: 'gid://shopify/Customer/1002', firstName: 'Grace', lastName: 'Hopper', email: 'grace@example.com', defaultAddress: null },
+      { id: 'gid://shopify/Customer/1003', firstName: 'Alan', lastName: 'Turing', email: 'alan@example.com', defaultAddress: null }
+    ],
+    products: [
+      {
+        id: 'gid://shopify/Product/2001',
+        title: 'Canvas Tote',
+        productType: 'Bags',
+        vendor: 'Harbor Goods',
+        tags: ['wholesale'],
+        collectionIds: ['gid://shopify/Collection/501'],
+        variants: [
+          { id: 'gid://shopify/ProductVariant/3001', title: 'Natural', price: '24.00', inventoryQuantity: 40, sku: 'TOTE-NAT' },
+          { id: 'gid://shopify/ProductVariant/3002', title: 'Black', price: '24.00', inventoryQuantity: 0, sku: 'TOTE-BLK' }
+        ]
+      },
+      {
+        id: 'gid://shopify/Product/2002',
+        title: 'Ceramic Mug',
+        productType: 'Kitchen',
+        vendor: 'Kiln & Co',
+        variants: [
+          {
+            id: 'gid://shopify/ProductVariant/3003',
+            title: 'Default Title',
+            price: '12.50',
+            inventoryQuantity: 120,
+            sku: 'MUG-01',
+            inventoryLevels: { 'gid://shopify/Location/1': 100, 'gid://shopify/Location/2': 20 }
+          }
+        ]
+      },
+      {
+        id: 'gid://shopify/Product/2003',
+        title: 'Wool Socks',
+        productType: 'Apparel',
+        vendor: 'Harbor Goods',
+        tags: ['wholesale'],
+        collectionIds: ['gid://shopify/Collection/501'],
+        variants: [
+          { id: 'gid://shopify/ProductVariant/3004', title: 'S', price: '9.99', inventoryQuantity: 3, sku: 'SOCK-S' },
+          { id: 'gid://shopify/ProductVariant/3005', title: 'M', price: '9.99', inventoryQuantity: 15, sku: 'SOCK-M' },
+          { id: 'gid://shopify/ProductVariant/3006', title: 'L', price: '9.99', inventoryQuantity: 8, sku: null }
+        ]
+      },
+      {
+        id: 'gid://shopify/Product/2004',
+        title: 'Enamel Pin',
+        productType: 'Accessories',
+        vendor: 'Kiln & Co',
+        variants: [
+          { id: 'gid://shopify/ProductVariant/3007', title: 'Default Title', price: '6.00', inventoryQuantity: 0, sku: 'PIN-01', inventoryPolicy: 'CONTINUE' }
+        ]
+      },
+      {
+        id: 'gid://shopify/Product/2005',
+        title: 'Gift Wrap',
+        productType: 'Services',
+        variants: [
+          { id: 'gid://shopify/ProductVariant/3008', title: 'Default Title', price: '3.00', inventoryQuantity: 0, sku: null, tracked: false }
+        ]
+      }
+    ],
+    locations: [
+      MOCK_DEFAULT_LOCATION,
+      { id: 'gid://shopify/Location/2', name: 'Pop-up Store', isActive: true, fulfillsOnlineOrders: true }
+    ]
+  };
+}
+
+/**
+ * Creates a fresh mock state from fixtures
+ */
+function createMockState(fixtures: MockFixtures = createDefaultFixtures()): MockState {
+  return {
+    // Copied so inventory changes never leak back into the caller's fixtures
+    fixtures: JSON.parse(JSON.stringify(fixtures)),
+    draftOrders: new Map(),
+    orders: new Map(),
+    faults: [],
+    nextId: 1,
+    bucket: {
+      maximumAvailable: 1000,
+      currentlyAvailable: 1000,
+      restoreRate: 50,
+      updatedAt: Date.now()
+    }
+  };
+}
+
+/**
+ * Returns the next numeric ID for created resources
+ */
+function nextId(state: MockState): number {
+  return state.nextId++;
+}
+
+/**
+ * Formats a number as a money amount string
+ */
+function formatAmount(amount: number): string {
+  return amount.toFixed(2);
+}
+
+/**
+ * Encodes a list index as an opaque pagination cursor
+ */
+function encodeCursor(index: number): string {
+  return Buffer.from(`cursor:${index}`).toString('base64');
+}
+
+/**
+ * Decodes a pagination cursor back into a list index, or -1 when there is none
+ */
+function decodeCursor(cursor: unknown): number {
+  if (typeof cursor !== 'string') return -1;
+  const match = /^cursor:(\d+)$/.exec(Buffer.from(cursor, 'base64').toString());
+  return match ? Number(match[1]) : -1;
+}
+
+/**
+ * Builds a connection of nodes from a list, using `first` and `after` variables
+ */
+function paginate<T>(nodes: T[], variables: Record<string, any>): { edges: { cursor: string, node: T }[], pageInfo: { hasNextPage: boolean, endCursor: string | null } } {
+  const first = typeof variables.first === 'number' ? variables.first : 50;
+  const start = decodeCursor(variables.after) + 1;
+  const page = nodes.slice(start, start + first);
+  const edges = page.map((node, i) => ({ cursor: encodeCursor(start + i), node }));
+
+  return {
+    edges,
+    pageInfo: {
+      hasNextPage: start + first < nodes.length,
+      endCursor: edges.length > 0 ? edges[edges.length - 1].cursor : null
+    }
+  };
+}
+
+/**
+ * Parses the parts of Shopify search syntax the script uses: tag:'x', created_at:>=/<= (or
+ * customer_date for customers) and status:open
+ */
+function parseSearchQuery(query: unknown, dateField: string = 'created_at'): { tags: string[], since: number | null, until: number | null, openOnly: boolean } {
+  const text = typeof query === 'string' ? query : '';
+  const since = new RegExp(`${dateField}:>='?([^'\\s]+)'?`).exec(text);
+  const until = new RegExp(`${dateField}:<='?([^'\\s]+)'?`).exec(text);
+
+  return {
+    tags: [...text.matchAll(/tag:'([^']+)'/g)].map(match => match[1]),
+    since: since ? Date.parse(since[1]) : null,
+    until: until ? Date.parse(until[1]) : null,
+    openOnly: /status:open/.test(text)
+  };
+}
+
+/**
+ * Returns every value a search query gives a field, quoted or not. The script ORs the values of
+ * one field and ANDs the fields, so a resource matches a field when it has any of its values.
+ */
+function searchValues(query: unknown, field: string): string[] {
+  const text = typeof query === 'string' ? query : '';
+  return [...text.matchAll(new RegExp(`(?<![\\w.])${field}:(?:'((?:[^'\\\\]|\\\\.)*)'|([^\\s()]+))`, 'g'))]
+    .map(match => match[1] !== undefined ? match[1].replace(/\\(.)/g, '$1') : match[2]);
+}
+
+/**
+ * Checks a resource's values of a field against the values a search query asks for
+ */
+function matchesAnyValue(query: unknown, field: string, values: string[]): boolean {
+  const wanted = searchValues(query, field).map(value => value.toLowerCase());
+  return wanted.length === 0 || values.some(value => wanted.includes(value.toLowerCase()));
+}
+
+/**
+ * Checks whether a tagged, timestamped resource matches a parsed search query
+ */
+function matchesSearch(search: ReturnType<typeof parseSearchQuery>, tags: string[], createdAt: string): boolean {
+  const created = Date.parse(createdAt);
+  return search.tags.every(tag => tags.includes(tag))
+    && (search.since === null || created >= search.since)
+    && (search.until === null || created <= search.until);
+}
+
+/**
+ * Applies a draft order discount input to an amount. Fixed line item discounts apply per unit.
+ */
+function applyDiscount(amount: number, discount: { valueType?: string, value?: number } | undefined): number {
+  if (!discount || typeof discount.value !== 'number') return amount;
+  const reduction = discount.valueType === 'PERCENTAGE' ? amount * discount.value / 100 : discount.value;
+  return Math.max(0, Math.round((amount - reduction) * 100) / 100);
+}
+
+/**
+ * Builds a mutation payload carrying userErrors
+ */
+function userErrorPayload(resourceField: string, field: string[], message: string): Record<string, unknown> {
+  return { [resourceField]: null, userErrors: [{ field, message }] };
+}
+
+/**
+ * Finds a variant and its product in the fixtures
+ */
+function findVariant(state: MockState, variantId: string): { product: MockProduct, variant: MockVariant } | null {
+  for (const product of state.fixtures.products) {
+    const variant = product.variants.find(v => v.id === variantId);
+    if (variant) return { product, variant };
+  }
+  return null;
+}
+
+/**
+ * Returns the locations of the fixtures
+ */
+function getLocations(state: MockState): MockLocation[] {
+  return state.fixtures.locations ?? [MOCK_DEFAULT_LOCATION];
+}
+
+/**
+ * Returns the available units of a variant at a location, or null when it isn't stocked there
+ */
+function availableAt(state: MockState, variant: MockVariant, locationId: string): number | null {
+  const levels = variant.inventoryLevels ?? { [getLocations(state)[0].id]: variant.inventoryQuantity };
+  return levels[locationId] ?? null;
+}
+
+/**
+ * Changes the available units of a variant at a location. Untracked variants keep no stock.
+ */
+function adjustStock(state: MockState, variantId: string | null, locationId: string, delta: number): void {
+  const match = variantId ? findVariant(state, variantId) : null;
+  if (!match || match.variant.tracked === false) return;
+
+  const variant = match.variant;
+  variant.inventoryLevels = variant.inventoryLevels ?? { [getLocations(state)[0].id]: variant.inventoryQuantity };
+  variant.inventoryLevels[locationId] = (variant.inventoryLevels[locationId] ?? 0) + delta;
+  variant.inventoryQuantity += delta;
+}
+
+/**
+ * Serializes a variant with its product and its inventory level at each location it is stocked at
+ */
+function serializeVariant(state: MockState, product: MockProduct, variant: MockVariant): Record<string, unknown> {
+  const levels = getLocations(state)
+    .map(location => ({ locationId: location.id, available: availableAt(state, variant, location.id) }))
+    .filter(level => level.available !== null);
+  return {
+    id: variant.id,
+    title: variant.title,
+    price: variant.price,
+    inventoryQuantity: variant.inventoryQuantity,
+    inventoryPolicy: variant.inventoryPolicy ?? 'DENY',
+    sku: variant.sku,
+    inventoryItem: {
+      tracked: variant.tracked !== false,
+      inventoryLevels: {
+        edges: levels.map(level => ({
+          node: { location: { id: level.locationId }, quantities: [{ name: 'available', quantity: level.available }] }
+        }))
+      }
+    },
+    product: { id: product.id, title: product.title }
+  };
+}
+
+/**
+ * Serializes a customer with the number of orders placed through its draft orders
+ */
+function serializeCustomer(state: MockState, customer: MockCustomer): Record<string, unknown> {
+  return {
+    ...customer,
+    displayName: `${customer.firstName} ${customer.lastName}`.trim(),
+    tags: customer.tags ?? [],
+    numberOfOrders: String(countCustomerOrders(state, customer.id))
+  };
+}
+
+/**
+ * Counts the orders placed by a customer
+ */
+function countCustomerOrders(state: MockState, customerId: string): number {
+  return [...state.orders.values()].filter(order => order.customerId === customerId).length;
+}
+
+/**
+ * Returns how many units of an order's line item have been refunded
+ */
+function refundedQuantity(order: MockOrder, lineItemIndex: number): number {
+  return order.refunds
+    .flatMap(refund => refund.lineItems)
+    .filter(item => item.lineItemIndex === lineItemIndex)
+    .reduce((sum, item) => sum + item.quantity, 0);
+}
+
+/**
+ * Builds a shop money amount
+ */
+function shopMoney(state: MockState, amount: number): { shopMoney: { amount: string, currencyCode: string } } {
+  return { shopMoney: { amount: formatAmount(amount), currencyCode: state.fixtures.currencyCode } };
+}
+
+/**
+ * Works out a refund the way suggestedRefund does: the line items' share of the discounted total,
+ * plus the shipping charge when asked, paid back to the manual payment up to what was paid
+ */
+function suggestRefund(
+  state: MockState,
+  order: MockOrder,
+  refundLineItems: { lineItemId: string, quantity: number }[],
+  refundShipping: boolean
+): Record<string, unknown> {
+  const subtotal = order.lineItems.reduce((sum, item) => sum + item.price * item.quantity, 0);
+  // Spreads the order discount over the line items
+  const ratio = subtotal > 0 ? (order.totalPrice - order.shippingPrice) / subtotal : 0;
+
+  const itemsAmount = refundLineItems.reduce((sum, item) => {
+    const lineItem = order.lineItems[order.lineItemIds.indexOf(item.lineItemId)];
+    return sum + (lineItem ? lineItem.price * item.quantity : 0);
+  }, 0);
+  const shippingAmount = refundShipping && !order.shippingRefunded ? order.shippingPrice : 0;
+  const amount = Math.round((itemsAmount * ratio + shippingAmount) * 100) / 100;
+  const refundable = Math.min(amount, Math.max(0, order.amountPaid - order.amountRefunded));
+
+  return {
+    amountSet: shopMoney(state, amount),
+    suggestedTransactions: refundable > 0 ? [{
+      gateway: 'manual',
+      kind: 'SUGGESTED_REFUND',
+      amountSet: shopMoney(state, refundable),
+      parentTransaction: { id: order.id.replace('/Order/', '/OrderTransaction/') }
+    }] : []
+  };
+}
+
+/**
+ * Adds an order with one open fulfillment order, assigned to the first location that can fulfill
+ * it, and commits its stock there
+ */
+function createOrder(
+  state: MockState,
+  fields: Pick<MockOrder, 'draftOrderId' | 'customerId' | 'lineItems' | 'tags' | 'totalPrice' | 'shippingPrice' | 'amountPaid'>,
+  processedAt?: string
+): MockOrder {
+  const id = nextId(state);
+  const createdAt = new Date().toISOString();
+  const order: MockOrder = {
+    ...fields,
+    id: `gid://shopify/Order/${id}`,
+    name: `#${1000 + id}`,
+    createdAt,
+    processedAt: processedAt ?? createdAt,
+    cancelledAt: null,
+    amountRefunded: 0,
+    shippingRefunded: false,
+    lineItemIds: fields.lineItems.map((lineItem, index) => `gid://shopify/LineItem/${id}${index}`),
+    fulfillmentOrderId: `gid://shopify/FulfillmentOrder/${id}`,
+    locationId: (getLocations(state).find(location => location.isActive && location.fulfillsOnlineOrders) ?? getLocations(state)[0]).id,
+    // Only items that ship get a fulfillment order line item
+    fulfillmentLineItems: fields.lineItems.flatMap((lineItem, index) => lineItem.requiresShipping ? [{
+      id: `gid://shopify/FulfillmentOrderLineItem/${id}${index}`,
+      lineItemIndex: index,
+      totalQuantity: lineItem.quantity,
+      remainingQuantity: lineItem.quantity
+    }] : []),
+    fulfillments: [],
+    refunds: [],
+    returns: []
+  };
+  state.orders.set(order.id, order);
+
+  for (const lineItem of fields.lineItems) {
+    adjustStock(state, lineItem.variantId, order.locationId, -lineItem.quantity);
+  }
+  return order;
+}
+
+/**
+ * Serializes an order with every field the script queries on it
+ */
+function serializeOrder(state: MockState, order: MockOrder): Record<string, unknown> {
+  const outstanding = Math.max(0, order.totalPrice - order.amountPaid);
+  const remaining = order.fulfillmentLineItems.reduce((sum, item) => sum + item.remainingQuantity, 0);
+  const total = order.fulfillmentLineItems.reduce((sum, item) => sum + item.totalQuantity, 0);
+
+  let displayFinancialStatus = 'PENDING';
+  if (order.amountRefunded > 0) {
+    displayFinancialStatus = order.amountRefunded >= order.amountPaid - 0.001 ? 'REFUNDED' : 'PARTIALLY_REFUNDED';
+  } else if (outstanding === 0) {
+    displayFinancialStatus = 'PAID';
+  } else if (order.amountPaid > 0) {
+    displayFinancialStatus = 'PARTIALLY_PAID';
+  }
+
+  // Every unit was cancelled by refunds that restocked it
+  let displayFulfillmentStatus = 'UNFULFILLED';
+  if (total === 0 && order.fulfillmentLineItems.length > 0) {
+    displayFulfillmentStatus = 'RESTOCKED';
+  } else if (remaining === 0) {
+    displayFulfillmentStatus = 'FULFILLED';
+  } else if (remaining < total) {
+    displayFulfillmentStatus = 'PARTIALLY_FULFILLED';
+  }
+
+  let fulfillmentOrderStatus = 'OPEN';
+  if (remaining === 0) {
+    fulfillmentOrderStatus = 'CLOSED';
+  } else if (remaining < total) {
+    fulfillmentOrderStatus = 'IN_PROGRESS';
+  }
+
+  const customer = state.fixtures.customers.find(c => c.id === order.customerId);
+
+  return {
+    id: order.id,
+    name: order.name,
+    createdAt: order.createdAt,
+    processedAt: order.processedAt,
+    cancelledAt: order.cancelledAt,
+    displayFinancialStatus,
+    displayFulfillmentStatus,
+    tags: order.tags,
+    customer: customer ? { firstName: customer.firstName, lastName: customer.lastName, email: customer.email } : null,
+    totalPriceSet: {
+      shopMoney: { amount: formatAmount(order.totalPrice), currencyCode: state.fixtures.currencyCode }
+    },
+    totalOutstandingSet: {
+      shopMoney: { amount: formatAmount(outstanding), currencyCode: state.fixtures.currencyCode }
+    },
+    lineItems: {
+      edges: order.lineItems.map((lineItem, index) => {
+        const match = lineItem.variantId ? findVariant(state, lineItem.variantId) : null;
+        const fulfillmentLineItem = order.fulfillmentLineItems.find(item => item.lineItemIndex === index);
+        return {
+          node: {
+            id: order.lineItemIds[index],
+            title: lineItem.title,
+            variantTitle: match?.variant.title ?? null,
+            quantity: lineItem.quantity,
+            refundableQuantity: lineItem.quantity - refundedQuantity(order, index),
+            unfulfilledQuantity: fulfillmentLineItem?.remainingQuantity ?? 0,
+            sku: match?.variant.sku ?? null,
+            variant: match ? { id: match.variant.id } : null
+          }
+        };
+      })
+    },
+    fulfillments: order.fulfillments.map(fulfillment => ({
+      id: fulfillment.id,
+      trackingInfo: fulfillment.trackingInfo,
+      displayStatus: 'FULFILLED',
+      fulfillmentLineItems: {
+        edges: fulfillment.lineItems.map(item => ({
+          node: { id: item.id, quantity: item.quantity, lineItem: { id: order.lineItemIds[item.lineItemIndex] } }
+        }))
+      }
+    })),
+    fulfillmentOrders: {
+      edges: [{
+        node: {
+          id: order.fulfillmentOrderId,
+          status: fulfillmentOrderStatus,
+          assignedLocation: { location: { id: order.locationId } },
+          lineItems: {
+            edges: order.fulfillmentLineItems.map(item => ({
+              node: { id: item.id, totalQuantity: item.totalQuantity, remainingQuantity: item.remainingQuantity }
+            }))
+          }
+        }
+      }]
+    }
+  };
+}
+
+// Resolvers for each supported root field
+const resolvers: Record<MockOperation, (state: MockState, variables: Record<string, any>) => Record<string, unknown>> = {
+  // Only the tag and country terms of the script's customer filters are applied, along with the
+  // customer_date and orders_count:0 terms of cleanup
+  customers: (state, variables) => {
+    const search = parseSearchQuery(variables.query, 'customer_date');
+    const withoutOrders = /orders_count:0\b/.test(variables.query ?? '');
+    const customers = state.fixtures.customers
+      .filter(customer => matchesAnyValue(variables.query, 'tag', customer.tags ?? [])
+        && matchesAnyValue(variables.query, 'country', customer.defaultAddress ? [customer.defaultAddress.countryCode] : []))
+      .filter(customer => (search.since === null && search.until === null) || matchesSearch(search, customer.tags ?? [], customer.createdAt ?? ''))
+      .filter(customer => !withoutOrders || countCustomerOrders(state, customer.id) === 0)
+      .map(customer => serializeCustomer(state, customer));
+    return { customers: paginate(customers, variables) };
+  },
+
+  customer: (state, variables) => {
+    const customer = state.fixtures.customers.find(c => c.id === variables.id);
+    return { customer: customer ? serializeCustomer(state, customer) : null };
+  },
+
+  shop: state => ({
+    shop: { currencyCode: state.fixtures.currencyCode }
+  }),
+
+  locations: (state, variables) => ({
+    locations: paginate(getLocations(state), variables)
+  }),
+
+  location: (state, variables) => ({
+    location: getLocations(state).find(location => location.id === variables.id) ?? null
+  }),
+
+  // The preflight query asks for the shop and the API versions in the same request
+  currentAppInstallation: state => ({
+    shop: { name: 'Mock Shop', myshopifyDomain: 'mock.myshopify.com', currencyCode: state.fixtures.currencyCode },
+    currentAppInstallation: {
+      accessScopes: (state.fixtures.accessScopes ?? MOCK_ACCESS_SCOPES).map(handle => ({ handle }))
+    },
+    publicApiVersions: MOCK_API_VERSIONS
+  }),
+
+  customerCreate: (state, variables) => {
+    const input = variables.input || {};
+
+    if (!input.email) {
+      return { customerCreate: userErrorPayload('customer', ['email'], 'Email can\'t be blank') };
+    }
+    if (state.fixtures.customers.some(customer => customer.email === input.email)) {
+      return { customerCreate: userErrorPayload('customer', ['email'], 'Email has already been taken') };
+    }
+
+    // The first address becomes the default address; country and province names aren't looked up
+    const address = (input.addresses || [])[0];
+    const customer: MockCustomer = {
+      id: `gid://shopify/Customer/${nextId(state)}`,
+      firstName: input.firstName ?? '',
+      lastName: input.lastName ?? '',
+      email: input.email,
+      defaultAddress: address ? {
+        address1: address.address1 ?? '',
+        address2: address.address2 ?? null,
+        city: address.city ?? '',
+        province: null,
+        provinceCode: address.provinceCode ?? null,
+        zip: address.zip ?? '',
+        country: address.countryCode ?? '',
+        countryCode: address.countryCode ?? '',
+        phone: address.phone ?? null
+      } : null,
+      tags: input.tags || [],
+      createdAt: new Date().toISOString()
+    };
+    state.fixtures.customers.push(customer);
+
+    return { customerCreate: { customer: serializeCustomer(state, customer), userErrors: [] } };
+  },
+
+  customerDelete: (state, variables) => {
+    const id = variables.input?.id;
+    const index = state.fixtures.customers.findIndex(customer => customer.id === id);
+
+    if (index === -1) {
+      return { customerDelete: userErrorPayload('deletedCustomerId', ['id'], 'Customer does not exist') };
+    }
+    if (countCustomerOrders(state, id) > 0) {
+      return { customerDelete: userErrorPayload('deletedCustomerId', ['id'], 'Customer can\'t be deleted because they have associated orders') };
+    }
+
+    state.fixtures.customers.splice(index, 1);
+    return { customerDelete: { deletedCustomerId: id, userErrors: [] } };
+  },
+
+  nodes: (state, variables) => ({
+    nodes: ((variables.ids as string[]) || []).map(id => {
+      const match = findVariant(state, id);
+      return match ? serializeVariant(state, match.product, match.variant) : null;
+    })
+  }),
+
+  productVariants: (state, variables) => {
+    // Of the search query, only the stock and product filter terms the script builds are applied,
+    // along with product_status for --product-query
+    const stock = /inventory_quantity:(>|<=)(-?\d+)/.exec(typeof variables.query === 'string' ? variables.query : '');
+    const variants = state.fixtures.products
+      .filter(product => matchesAnyValue(variables.query, 'product_type', product.productType ? [product.productType] : [])
+        && matchesAnyValue(variables.query, 'vendor', product.vendor ? [product.vendor] : [])
+        && matchesAnyValue(variables.query, 'tag', product.tags ?? [])
+        && matchesAnyValue(variables.query, 'product_status', [product.status ?? 'ACTIVE'])
+        && matchesAnyValue(variables.query, 'collection', (product.collectionIds ?? []).map(id => id.replace(/^gid:\/\/shopify\/Collection\//, ''))))
+      .flatMap(product => product.variants
+        .filter(variant => !stock || (stock[1] === '>' ? variant.inventoryQuantity > Number(stock[2]) : variant.inventoryQuantity <= Number(stock[2])))
+        .map(variant => serializeVariant(state, product, variant)));
+    return { productVariants: paginate(variants, variables) };
+  },
+
+  order: (state, variables) => {
+    const order = state.orders.get(variables.id);
+    if (!order) {
+      return { order: null };
+    }
+
+    // suggestedRefund takes arguments, so it is only worked out when they are given
+    const serialized = serializeOrder(state, order);
+    if (variables.refundLineItems !== undefined) {
+      serialized.suggestedRefund = suggestRefund(state, order, variables.refundLineItems ?? [], variables.refundShipping === true);
+    }
+    return { order: serialized };
+  },
+
+  orders: (state, variables) => {
+    const search = parseSearchQuery(variables.query);
+    const orders = [...state.orders.values()]
+      .filter(order => matchesSearch(search, order.tags, order.createdAt))
+      .map(order => serializeOrder(state, order));
+    return { orders: paginate(orders, variables) };
+  },
+
+  draftOrders: (state, variables) => {
+    const search = parseSearchQuery(variables.query);
+    const draftOrders = [...state.draftOrders.values()]
+      .filter(draftOrder => !search.openOnly || !draftOrder.orderId)
+      .filter(draftOrder => matchesSearch(search, draftOrder.tags, draftOrder.createdAt))
+      .map(draftOrder => ({ id: draftOrder.id, name: draftOrder.name, createdAt: draftOrder.createdAt, tags: draftOrder.tags }));
+    return { draftOrders: paginate(draftOrders, variables) };
+  },
+
+  draftOrderDelete: (state, variables) => {
+    const id = variables.input?.id;
+    const draftOrder = state.draftOrders.get(id);
+
+    if (!draftOrder) {
+      return { draftOrderDelete: { deletedId: null, userErrors: [{ field: ['id'], message: 'Draft order does not exist' }] } };
+    }
+    if (draftOrder.orderId) {
+      return { draftOrderDelete: { deletedId: null, userErrors: [{ field: ['id'], message: 'Completed draft orders cannot be deleted' }] } };
+    }
+
+    state.draftOrders.delete(id);
+    return { draftOrderDelete: { deletedId: id, userErrors: [] } };
+  },
+
+  orderCancel: (state, variables) => {
+    const order = state.orders.get(variables.orderId);
+
+    if (!order || order.cancelledAt) {
+      return {
+        orderCancel: {
+          job: null,
+          orderCancelUserErrors: [{ field: ['orderId'], message: order ? 'Order has already been cancelled' : 'Order does not exist', code: 'INVALID' }]
+        }
+      };
+    }
+
+    order.cancelledAt = new Date().toISOString();
+    if (variables.refund) {
+      order.amountRefunded = order.amountPaid;
+    }
+    if (variables.restock) {
+      for (const lineItem of order.lineItems) {
+        adjustStock(state, lineItem.variantId, order.locationId, lineItem.quantity);
+      }
+    }
+
+    return { orderCancel: { job: { id: `gid://shopify/Job/${nextId(state)}`, done: true }, orderCancelUserErrors: [] } };
+  },
+
+  draftOrderCreate: (state, variables) => {
+    const input = variables.input || {};
+
+    if (!state.fixtures.customers.some(customer => customer.id === input.customerId)) {
+      return { draftOrderCreate: userErrorPayload('draftOrder', ['customerId'], 'Customer does not exist') };
+    }
+
+    const lineItems: MockLineItem[] = [];
+    for (const [index, lineItem] of (input.lineItems || []).entries()) {
+      if (!Number.isInteger(lineItem.quantity) || lineItem.quantity < 1) {
+        return { draftOrderCreate: userErrorPayload('draftOrder', ['lineItems', String(index), 'quantity'], 'Quantity must be at least 1') };
+      }
+
+      // Custom line items have a title and price instead of a variant
+      if (!lineItem.variantId) {
+        const amount = Number(lineItem.originalUnitPriceWithCurrency?.amount);
+        if (!lineItem.title || !(amount >= 0)) {
+          return { draftOrderCreate: userErrorPayload('draftOrder', ['lineItems', String(index)], 'Custom line items need a title and price') };
+        }
+        lineItems.push({
+          variantId: null,
+          title: lineItem.title,
+          quantity: lineItem.quantity,
+          price: applyDiscount(amount, lineItem.appliedDiscount),
+          requiresShipping: lineItem.requiresShipping !== false
+        });
+        continue;
+      }
+
+      const match = findVariant(state, lineItem.variantId);
+      if (!match) {
+        return { draftOrderCreate: userErrorPayload('draftOrder', ['lineItems', String(index), 'variantId'], 'Variant does not exist') };
+      }
+      lineItems.push({
+        variantId: lineItem.variantId,
+        title: match.product.title,
+        quantity: lineItem.quantity,
+        price: applyDiscount(parseFloat(match.variant.price), lineItem.appliedDiscount),
+        requiresShipping: true
+      });
+    }
+
+    if (lineItems.length === 0) {
+      return { draftOrderCreate: userErrorPayload('draftOrder', ['lineItems'], 'Add at least 1 product') };
+    }
+
+    const id = nextId(state);
+    const draftOrder: MockDraftOrder = {
+      id: `gid://shopify/DraftOrder/${id}`,
+      name: `#D${id}`,
+      createdAt: new Date().toISOString(),
+      customerId: input.customerId,
+      lineItems,
+      tags: input.tags || [],
+      totalPrice: applyDiscount(lineItems.reduce((sum, item) => sum + item.price * item.quantity, 0), input.appliedDiscount)
+        + Number(input.shippingLine?.priceWithCurrency?.amount ?? 0),
+      shippingPrice: Number(input.shippingLine?.priceWithCurrency?.amount ?? 0),
+      orderId: null
+    };
+    state.draftOrders.set(draftOrder.id, draftOrder);
+
+    return {
+      draftOrderCreate: {
+        draftOrder: { id: draftOrder.id, name: draftOrder.name, totalPriceSet: shopMoney(state, draftOrder.totalPrice) },
+        userErrors: []
+      }
+    };
+  },
+
+  draftOrderComplete: (state, variables) => {
+    const draftOrder = state.draftOrders.get(variables.id);
+
+    if (!draftOrder) {
+      return { draftOrderComplete: userErrorPayload('draftOrder', ['id'], 'Draft order does not exist') };
+    }
+    if (draftOrder.orderId) {
+      return { draftOrderComplete: userErrorPayload('draftOrder', ['id'], 'This order has already been paid') };
+    }
+
+    const order = createOrder(state, {
+      draftOrderId: draftOrder.id,
+      customerId: draftOrder.customerId,
+      lineItems: draftOrder.lineItems,
+      tags: draftOrder.tags,
+      totalPrice: draftOrder.totalPrice,
+      shippingPrice: draftOrder.shippingPrice,
+      amountPaid: variables.paymentPending ? 0 : draftOrder.totalPrice
+    });
+    draftOrder.orderId = order.id;
+
+    const serialized = serializeOrder(state, order);
+    return {
+      draftOrderComplete: {
+        draftOrder: {
+          id: draftOrder.id,
+          order: {
+            id: order.id,
+            name: order.name,
+            displayFinancialStatus: serialized.displayFinancialStatus,
+            displayFulfillmentStatus: serialized.displayFulfillmentStatus
+          }
+        },
+        userErrors: []
+      }
+    };
+  },
+
+  orderCreate: (state, variables) => {
+    const input = variables.order || {};
+    const customerId = input.customer?.toAssociate?.id;
+
+    if (!state.fixtures.customers.some(customer => customer.id === customerId)) {
+      return { orderCreate: userErrorPayload('order', ['order', 'customer'], 'Customer does not exist') };
+    }
+    if (input.processedAt !== undefined && !(Date.parse(input.processedAt) <= Date.now())) {
+      return { orderCreate: userErrorPayload('order', ['order', 'processedAt'], 'Processed at must be a date in the past') };
+    }
+
+    const lineItems: MockLineItem[] = [];
+    for (const [index, lineItem] of (input.lineItems || []).entries()) {
+      const field = ['order', 'lineItems', String(index)];
+      if (!Number.isInteger(lineItem.quantity) || lineItem.quantity < 1) {
+        return { orderCreate: userErrorPayload('order', [...field, 'quantity'], 'Quantity must be at least 1') };
+      }
+
+      // Without a variant a line item needs its own title and price
+      const price = lineItem.priceSet?.shopMoney?.amount;
+      if (!lineItem.variantId) {
+        if (!lineItem.title || !(Number(price) >= 0)) {
+          return { orderCreate: userErrorPayload('order', field, 'Custom line items need a title and price') };
+        }
+        lineItems.push({
+          variantId: null,
+          title: lineItem.title,
+          quantity: lineItem.quantity,
+          price: Number(price),
+          requiresShipping: lineItem.requiresShipping !== false
+        });
+        continue;
+      }
+
+      const match = findVariant(state, lineItem.variantId);
+      if (!match) {
+        return { orderCreate: userErrorPayload('order', [...field, 'variantId'], 'Variant does not exist') };
+      }
+      lineItems.push({
+        variantId: lineItem.variantId,
+        title: match.product.title,
+        quantity: lineItem.quantity,
+        price: price !== undefined ? Number(price) : parseFloat(match.variant.price),
+        requiresShipping: true
+      });
+    }
+
+    if (lineItems.length === 0) {
+      return { orderCreate: userErrorPayload('order', ['order', 'lineItems'], 'Add at least 1 line item') };
+    }
+
+    // Discount codes are applied to the subtotal like a draft order discount
+    const percentageCode = input.discountCode?.itemPercentageDiscountCode;
+    const fixedCode = input.discountCode?.itemFixedDiscountCode;
+    const discount = percentageCode
+      ? { valueType: 'PERCENTAGE', value: percentageCode.percentage }
+      : fixedCode ? { valueType: 'FIXED_AMOUNT', value: Number(fixedCode.amountSet?.shopMoney?.amount) } : undefined;
+    const shippingPrice = ((input.shippingLines || []) as { priceSet?: { shopMoney?: { amount?: string } } }[])
+      .reduce((sum, shippingLine) => sum + Number(shippingLine.priceSet?.shopMoney?.amount ?? 0), 0);
+    const totalPrice = applyDiscount(lineItems.reduce((sum, item) => sum + item.price * item.quantity, 0), discount) + shippingPrice;
+
+    const order = createOrder(state, {
+      draftOrderId: null,
+      customerId,
+      lineItems,
+      tags: input.tags || [],
+      totalPrice,
+      shippingPrice,
+      amountPaid: input.financialStatus === 'PAID' ? totalPrice : 0
+    }, input.processedAt);
+
+    const serialized = serializeOrder(state, order);
+    return {
+      orderCreate: {
+        order: {
+          id: order.id,
+          name: order.name,
+          processedAt: order.processedAt,
+          displayFinancialStatus: serialized.displayFinancialStatus,
+          displayFulfillmentStatus: serialized.displayFulfillmentStatus
+        },
+        userErrors: []
+      }
+    };
+  },
+
+  orderCreateManualPayment: (state, variables) => {
+    const order = state.orders.get(variables.id);
+
+    if (!order) {
+      return { orderCreateManualPayment: userErrorPayload('order', ['id'], 'Order does not exist') };
+    }
+
+    const outstanding = order.totalPrice - order.amountPaid;
+    const amount = variables.amount ? Number(variables.amount.amount) : outstanding;
+
+    if (!(amount > 0) || amount > outstanding + 0.001) {
+      return { orderCreateManualPayment: userErrorPayload('order', ['amount'], 'Amount must be greater than zero and no more than the outstanding balance') };
+    }
+
+    order.amountPaid += amount;
+    const serialized = serializeOrder(state, order);
+    return {
+      orderCreateManualPayment: {
+        order: { id: order.id, displayFinancialStatus: serialized.displayFinancialStatus },
+        userErrors: []
+      }
+    };
+  },
+
+  fulfillmentCreate: (state, variables) => {
+    const fulfillment = variables.fulfillment || {};
+    const groups: { fulfillmentOrderId: string, fulfillmentOrderLineItems?: { id: string, quantity: number }[] }[] =
+      fulfillment.lineItemsByFulfillmentOrder || [];
+
+    // Validate everything before changing any quantities
+    const updates: { item: MockFulfillmentOrderLineItem, quantity: number }[] = [];
+    let order: MockOrder | undefined;
+
+    for (const group of groups) {
+      order = [...state.orders.values()].find(o => o.fulfillmentOrderId === group.fulfillmentOrderId);
+      if (!order) {
+        return { fulfillmentCreate: userErrorPayload('fulfillment', ['fulfillment', 'lineItemsByFulfillmentOrder'], 'Fulfillment order does not exist') };
+      }
+
+      const requested = group.fulfillmentOrderLineItems
+        ?? order.fulfillmentLineItems.map(item => ({ id: item.id, quantity: item.remainingQuantity }));
+
+      for (const line of requested) {
+        const item = order.fulfillmentLineItems.find(i => i.id === line.id);
+        if (!item || line.quantity < 1 || line.quantity > item.remainingQuantity) {
+          return { fulfillmentCreate: userErrorPayload('fulfillment', ['fulfillment', 'lineItemsByFulfillmentOrder'], 'Invalid fulfillment order line item quantity') };
+        }
+        updates.push({ item, quantity: line.quantity });
+      }
+    }
+
+    if (!order || updates.length === 0) {
+      return { fulfillmentCreate: userErrorPayload('fulfillment', ['fulfillment'], 'No line items to fulfill') };
+    }
+
+    updates.forEach(update => { update.item.remainingQuantity -= update.quantity; });
+
+    const trackingInfo = fulfillment.trackingInfo ? [{
+      number: fulfillment.trackingInfo.number ?? '',
+      url: fulfillment.trackingInfo.url ?? '',
+      company: fulfillment.trackingInfo.company ?? ''
+    }] : [];
+    const created: MockFulfillment = {
+      id: `gid://shopify/Fulfillment/${nextId(state)}`,
+      trackingInfo,
+      lineItems: updates.map(update => ({
+        id: `gid://shopify/FulfillmentLineItem/${nextId(state)}`,
+        lineItemIndex: update.item.lineItemIndex,
+        quantity: update.quantity
+      }))
+    };
+    order.fulfillments.push(created);
+
+    return {
+      fulfillmentCreate: {
+        fulfillment: { id: created.id, trackingInfo, displayStatus: 'FULFILLED' },
+        userErrors: []
+      }
+    };
+  },
+
+  fulfillmentOrderMove: (state, variables) => {
+    const order = [...state.orders.values()].find(o => o.fulfillmentOrderId === variables.id);
+    const location = getLocations(state).find(candidate => candidate.id === variables.newLocationId);
+
+    if (!order) {
+      return { fulfillmentOrderMove: userErrorPayload('movedFulfillmentOrder', ['id'], 'Fulfillment order does not exist') };
+    }
+    if (!location || !location.isActive) {
+      return { fulfillmentOrderMove: userErrorPayload('movedFulfillmentOrder', ['newLocationId'], 'Location does not exist or is inactive') };
+    }
+    if (order.fulfillmentLineItems.every(item => item.remainingQuantity === 0)) {
+      return { fulfillmentOrderMove: userErrorPayload('movedFulfillmentOrder', ['id'], 'Fulfillment order is closed') };
+    }
+
+    // The stock still to ship is committed at the new location instead
+    for (const item of order.fulfillmentLineItems) {
+      const variantId = order.lineItems[item.lineItemIndex].variantId;
+      adjustStock(state, variantId, order.locationId, item.remainingQuantity);
+      adjustStock(state, variantId, location.id, -item.remainingQuantity);
+    }
+    order.locationId = location.id;
+
+    return { fulfillmentOrderMove: { movedFulfillmentOrder: { id: order.fulfillmentOrderId }, userErrors: [] } };
+  },
+
+  refundCreate: (state, variables) => {
+    const input = variables.input || {};
+    const order = state.orders.get(input.orderId);
+
+    if (!order) {
+      return { refundCreate: userErrorPayload('refund', ['orderId'], 'Order does not exist') };
+    }
+
+    // Validate everything before changing any quantities
+    const refundLineItems: MockRefund['lineItems'] = [];
+    for (const [index, item] of (input.refundLineItems || []).entries()) {
+      const lineItemIndex = order.lineItemIds.indexOf(item.lineItemId);
+      const lineItem = order.lineItems[lineItemIndex];
+      const field = ['refundLineItems', String(index)];
+
+      if (!lineItem) {
+        return { refundCreate: userErrorPayload('refund', [...field, 'lineItemId'], 'Line item does not exist') };
+      }
+      if (!Number.isInteger(item.quantity) || item.quantity < 1 || item.quantity > lineItem.quantity - refundedQuantity(order, lineItemIndex)) {
+        return { refundCreate: userErrorPayload('refund', [...field, 'quantity'], 'Quantity is more than can be refunded') };
+      }
+      if (item.restockType === 'CANCEL') {
+        const fulfillmentLineItem = order.fulfillmentLineItems.find(fulfillmentItem => fulfillmentItem.lineItemIndex === lineItemIndex);
+        if (!lineItem.variantId || !fulfillmentLineItem || fulfillmentLineItem.remainingQuantity < item.quantity) {
+          return { refundCreate: userErrorPayload('refund', [...field, 'restockType'], 'Only unfulfilled product units can be cancelled and restocked') };
+        }
+      }
+      refundLineItems.push({ lineItemIndex, quantity: item.quantity, restockType: item.restockType ?? 'NO_RESTOCK' });
+    }
+
+    const amount = ((input.transactions || []) as { amount: string }[]).reduce((sum, transaction) => sum + Number(transaction.amount), 0);
+    if (amount > order.amountPaid - order.amountRefunded + 0.001) {
+      return { refundCreate: userErrorPayload('refund', ['transactions'], 'Refund amount is more than the amount that can be refunded') };
+    }
+
+    // Cancelled units leave the fulfillment order and go back into stock
+    for (const item of refundLineItems.filter(refundLineItem => refundLineItem.restockType === 'CANCEL')) {
+      const fulfillmentLineItem = order.fulfillmentLineItems.find(fulfillmentItem => fulfillmentItem.lineItemIndex === item.lineItemIndex)!;
+      fulfillmentLineItem.remainingQuantity -= item.quantity;
+      fulfillmentLineItem.totalQuantity -= item.quantity;
+      adjustStock(state, order.lineItems[item.lineItemIndex].variantId, order.locationId, item.quantity);
+    }
+
+    order.amountRefunded += amount;
+    if (input.shipping?.fullRefund) {
+      order.shippingRefunded = true;
+    }
+    const refund: MockRefund = { id: `gid://shopify/Refund/${nextId(state)}`, lineItems: refundLineItems, amount };
+    order.refunds.push(refund);
+
+    return { refundCreate: { refund: { id: refund.id, totalRefundedSet: shopMoney(state, amount) }, userErrors: [] } };
+  },
+
+  returnCreate: (state, variables) => {
+    const input = variables.returnInput || {};
+    const order = state.orders.get(input.orderId);
+
+    if (!order) {
+      return { returnCreate: userErrorPayload('return', ['returnInput', 'orderId'], 'Order does not exist') };
+    }
+
+    const returnLineItems: MockReturn['lineItems'] = [];
+    for (const [index, item] of (input.returnLineItems || []).entries()) {
+      const fulfillmentLineItem = order.fulfillments
+        .flatMap(fulfillment => fulfillment.lineItems)
+        .find(lineItem => lineItem.id === item.fulfillmentLineItemId);
+      const returned = order.returns
+        .flatMap(orderReturn => orderReturn.lineItems)
+        .filter(lineItem => lineItem.fulfillmentLineItemId === item.fulfillmentLineItemId)
+        .reduce((sum, lineItem) => sum + lineItem.quantity, 0);
+
+      if (!fulfillmentLineItem || !Number.isInteger(item.quantity) || item.quantity < 1 || item.quantity > fulfillmentLineItem.quantity - returned) {
+        return { returnCreate: userErrorPayload('return', ['returnInput', 'returnLineItems', String(index)], 'Quantity is more than can be returned') };
+      }
+      returnLineItems.push({ fulfillmentLineItemId: item.fulfillmentLineItemId, quantity: item.quantity });
+    }
+
+    if (returnLineItems.length === 0) {
+      return { returnCreate: userErrorPayload('return', ['returnInput', 'returnLineItems'], 'Add at least 1 item to return') };
+    }
+
+    const created: MockReturn = {
+      id: `gid://shopify/Return/${nextId(state)}`,
+      name: `${order.name}-R${order.returns.length + 1}`,
+      status: 'OPEN',
+      lineItems: returnLineItems
+    };
+    order.returns.push(created);
+
+    return { returnCreate: { return: { id: created.id, name: created.name, status: created.status }, userErrors: [] } };
+  },
+
+  returnClose: (state, variables) => {
+    const found = [...state.orders.values()]
+      .flatMap(order => order.returns)
+      .find(orderReturn => orderReturn.id === variables.id);
+
+    if (!found) {
+      return { returnClose: userErrorPayload('return', ['id'], 'Return does not exist') };
+    }
+    if (found.status !== 'OPEN') {
+      return { returnClose: userErrorPayload('return', ['id'], 'Return is not open') };
+    }
+
+    found.status = 'CLOSED';
+    return { returnClose: { return: { id: found.id, status: found.status }, userErrors: [] } };
+  }
+};
+
+/**
+ * Detects which supported root field a query targets
+ */
+function detectOperation(query: string): MockOperation | null {
+  return OPERATIONS.find(operation => new RegExp(`\\b${operation}\\s*\\(`).test(query))
+    // Root fields without arguments, such as shop, are followed directly by their selection set
+    ?? OPERATIONS.find(operation => new RegExp(`\\{\\s*${operation}\\s*\\{`).test(query))
+    ?? null;
+}
+
+/**
+ * Refills the cost bucket for elapsed time and returns the throttle status
+ */
+function restoreBucket(state: MockState): MockState['bucket'] {
+  const now = Date.now();
+  const bucket = state.bucket;
+  bucket.currentlyAvailable = Math.min(
+    bucket.maximumAvailable,
+    bucket.currentlyAvailable + ((now - bucket.updatedAt) / 1000) * bucket.restoreRate
+  );
+  bucket.updatedAt = now;
+  return bucket;
+}
+
+/**
+ * Builds the cost extension Shopify attaches to every response
+ */
+function costExtension(state: MockState, actualQueryCost: number | null): Record<string, unknown> {
+  const bucket = state.bucket;
+  return {
+    cost: {
+      requestedQueryCost: MOCK_QUERY_COST,
+      actualQueryCost,
+      throttleStatus: {
+        maximumAvailable: bucket.maximumAvailable,
+        currentlyAvailable: Math.floor(bucket.currentlyAvailable),
+        restoreRate: bucket.restoreRate
+      }
+    }
+  };
+}
+
+/**
+ * Takes the next queued fault matching an operation, if any
+ */
+function takeFault(state: MockState, operation: MockOperation): MockFault | null {
+  const index = state.faults.findIndex(fault => fault.operation === '*' || fault.operation === operation);
+  if (index === -1) return null;
+
+  const fault = state.faults[index];
+  const remaining = (fault.times ?? 1) - 1;
+  if (remaining > 0) {
+    state.faults[index] = { ...fault, times: remaining };
+  } else {
+    state.faults.splice(index, 1);
+  }
+  return fault;
+}
+
+/**
+ * Executes a GraphQL request against the mock state
+ */
+function executeGraphQL(state: MockState, query: string, variables: Record<string, any>): { status: number, body: unknown } {
+  const operation = detectOperation(query);
+  const bucket = restoreBucket(state);
+
+  if (!operation) {
+    return {
+      status: 200,
+      body: { errors: [{ message: 'Mock server does not support this operation', extensions: { code: 'UNSUPPORTED' } }] }
+    };
+  }
+
+  const fault = takeFault(state, operation);
+
+  if (fault?.type === 'httpError') {
+    return { status: fault.status ?? 500, body: { errors: fault.message ?? 'Internal Server Error' } };
+  }
+
+  if (fault?.type === 'throttled' || bucket.currentlyAvailable < MOCK_QUERY_COST) {
+    // Report an empty bucket so clients that honour throttleStatus wait before retrying
+    if (fault) bucket.currentlyAvailable = 0;
+    return {
+      status: 200,
+      body: {
+        errors: [{ message: 'Throttled', extensions: { code: 'THROTTLED', documentation: 'https://shopify.dev/api/usage/rate-limits' } }],
+        extensions: costExtension(state, null)
+      }
+    };
+  }
+
+  bucket.currentlyAvailable -= MOCK_QUERY_COST;
+
+  // Injected userErrors replace the mutation entirely, so nothing is created or changed
+  if (fault?.type === 'userErrors' && /^\s*mutation\b/.test(query)) {
+    const userError = { field: null, message: fault.message ?? 'Injected user error' };
+    const payload = operation === 'orderCancel'
+      ? { job: null, orderCancelUserErrors: [{ ...userError, code: 'INVALID' }] }
+      : { userErrors: [userError] };
+    return { status: 200, body: { data: { [operation]: payload }, extensions: costExtension(state, MOCK_QUERY_COST) } };
+  }
+
+  const data = resolvers[operation](state, variables);
+
+  const result: GraphQLResult = { data };
+  return { status: 200, body: { ...result, extensions: costExtension(state, MOCK_QUERY_COST) } };
+}
+
+/**
+ * Reads and parses a JSON request body
+ */
+function readJsonBody(request: http.IncomingMessage): Promise<any> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    request.on('data', chunk => chunks.push(chunk));
+    request.on('end', () => {
+      const text = Buffer.concat(chunks).toString();
+      try {
+        resolve(text ? JSON.parse(text) : {});
+      } catch (error) {
+        reject(error);
+      }
+    });
+    request.on('error', reject);
+  });
+}
+
+/**
+ * Writes a JSON response
+ */
+function sendJson(response: http.ServerResponse, status: number, body: unknown): void {
+  response.writeHead(status, { 'Content-Type': 'application/json' });
+  response.end(JSON.stringify(body));
+}
+
+/**
+ * Creates the mock Admin API server. The returned state can be inspected and changed directly,
+ * or through the /__mock control endpoints.
+ */
+function createMockShopifyServer(fixtures?: MockFixtures): { server: http.Server, state: MockState } {
+  let state = createMockState(fixtures);
+
+  const server = http.createServer(async (request, response) => {
+    const url = new URL(request.url ?? '/', 'http://localhost');
+
+    try {
+      if (url.pathname === '/__mock/faults' && request.method === 'POST') {
+        const fault = await readJsonBody(request) as MockFault;
+        state.faults.push(fault);
+        return sendJson(response, 200, { faults: state.faults });
+      }
+
+      if (url.pathname === '/__mock/faults' && request.method === 'DELETE') {
+        state.faults = [];
+        return sendJson(response, 200, { faults: state.faults });
+      }
+
+      if (url.pathname === '/__mock/reset' && request.method === 'POST') {
+        state = createMockState(fixtures ?? createDefaultFixtures());
+        return sendJson(response, 200, { ok: true });
+      }
+
+      if (url.pathname === '/__mock/state' && request.method === 'GET') {
+        return sendJson(response, 200, {
+          fixtures: state.fixtures,
+          draftOrders: [...state.draftOrders.values()],
+          orders: [...state.orders.values()],
+          faults: state.faults
+        });
+      }
+
+      if (!/^\/admin\/api\/[^/]+\/graphql\.json$/.test(url.pathname) || request.method !== 'POST') {
+        return sendJson(response, 404, { errors: 'Not Found' });
+      }
+
+      if (!request.headers['x-shopify-access-token']) {
+        return sendJson(response, 401, { errors: '[API] Invalid API key or access token (unrecognized login or wrong password)' });
+      }
+
+      const body = await readJsonBody(request);
+      const result = executeGraphQL(state, String(body.query ?? ''), body.variables ?? {});
+      return sendJson(response, result.status, result.body);
+    } catch (error) {
+      return sendJson(response, 400, { errors: error instanceof Error ? error.message : 'Bad Request' });
+    }
+  });
+
+  return { server, get state() { return state; } };
+}
+
+export { createMockShopifyServer, createDefaultFixtures, MockFault, MockFixtures, MockState };
+
+// Start the server when run directly
+if (require.main === module) {
+  const port = Number(process.env.MOCK_PORT) || 4000;
+  const fixtures = process.env.MOCK_FIXTURES
+    ? JSON.parse(fs.readFileSync(process.env.MOCK_FIXTURES, 'utf8')) as MockFixtures
+    : undefined;
+  const { server } = createMockShopifyServer(fixtures);
+
+  server.listen(port, () => {
+    console.log(`Mock Shopify Admin API listening on http://localhost:${port}`);
+    console.log(`Use SHOPIFY_API_BASE_URL=http://localhost:${port} to point the script at it`);
+  });
+}
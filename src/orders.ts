@@ -0,0 +1,930 @@
+import {
+  Address,
+  AppliedDiscount,
+  BackdatedOrderCompletion,
+  Catalog,
+  Customer,
+  DeliveryInfo,
+  DraftOrderCompletion,
+  DraftOrderSummary,
+  FulfillmentOrder,
+  LifecycleAction,
+  LineItemSelection,
+  Money,
+  MoneyInput,
+  OrderDetails,
+  OrderFulfillmentStatus,
+  OrderGenerationOptions,
+  OrderPaymentStatus,
+  OrderResult,
+  OrderStatusSelection,
+  ShippingCarrier,
+  ShopifyClient
+} from './types';
+import { makeShopifyGraphQLRequest } from './shopify-client';
+import {
+  CurrencyCode,
+  DraftOrderCompleteDocument,
+  DraftOrderCreateDocument,
+  DraftOrderCreateMutationVariables,
+  FulfillmentCreateDocument,
+  FulfillmentCreateMutationVariables,
+  FulfillmentOrderMoveDocument,
+  FulfillmentOrdersDocument,
+  OrderCreateDocument,
+  OrderCreateDiscountCodeInput,
+  OrderCreateManualPaymentDocument,
+  OrderCreateMutationVariables,
+  OrderStatusDocument
+} from './generated/admin';
+import { log, warn } from './log';
+import { orderContext, random } from './random';
+import {
+  generateRandomAddress,
+  generateRandomOrderDetails,
+  generateRandomTags,
+  getRandomDeliveryInfo,
+  getRandomFulfillmentStatus,
+  getRandomLifecycleAction,
+  getRandomPaymentStatus
+} from './generators';
+import { currentScenario } from './scenario';
+import { getRunTags } from './run';
+import { toJournalOrderRecord, writeJournal, writeOrderJournal } from './journal';
+import { addLineItemUnit, fetchCatalog, pickFulfillmentLocation, pickPinnedLineItems, pickRandomLineItems } from './catalog';
+import { releaseStock } from './inventory';
+import { isFirstOrder, selectOrderCustomer } from './customers';
+import { deleteDraftOrder } from './cleanup';
+import { applyOrderLifecycle } from './lifecycle';
+
+// Placeholder IDs reported for orders that a dry run would have created
+const DRY_RUN_DRAFT_ORDER_ID = 'gid://shopify/DraftOrder/DRY_RUN';
+const DRY_RUN_ORDER_ID = 'gid://shopify/Order/DRY_RUN';
+
+// Order details of a draft order with nothing but products
+const NO_ORDER_DETAILS: OrderDetails = {
+  appliedDiscount: null,
+  shippingLine: null,
+  customLineItems: [],
+  note: null,
+  customAttributes: []
+};
+
+/**
+ * Generates the shipping address of an order and prints it; orders are billed to the same address
+ */
+function generateOrderAddresses(customer: Customer): { shippingAddress: Address, billingAddress: Address } {
+  const shippingAddress = generateRandomAddress(customer);
+  const billingAddress = { ...shippingAddress };
+  
+  log('Shipping Address:');
+  log(`${shippingAddress.firstName} ${shippingAddress.lastName}`);
+  log(`${shippingAddress.address1}`);
+  log(`${shippingAddress.city}, ${shippingAddress.province} ${shippingAddress.zip}`);
+  log(`${shippingAddress.country}`);
+  log(`Phone: ${shippingAddress.phone}`);
+  
+  return { shippingAddress, billingAddress };
+}
+
+/**
+ * Prints the tags, discount and shipping charge of an order about to be created
+ */
+function logOrderDetails(tags: string[] | undefined, details: OrderDetails): void {
+  if (tags && tags.length > 0) {
+    log(`Order tags: ${tags.join(', ')}`);
+  }
+  if (details.appliedDiscount) {
+    log(`Order discount: ${details.appliedDiscount.title} (${details.appliedDiscount.description})`);
+  }
+  if (details.shippingLine) {
+    log(`Shipping: ${details.shippingLine.title} (${details.shippingLine.price.amount.toFixed(2)} ${details.shippingLine.price.currencyCode})`);
+  }
+}
+
+/**
+ * Creates a draft order in Shopify
+ */
+export async function createDraftOrder(
+  client: ShopifyClient,
+  customer: Customer,
+  lineItems: LineItemSelection[],
+  tags?: string[],
+  dryRun: boolean = false,
+  details: OrderDetails = NO_ORDER_DETAILS
+): Promise<DraftOrderSummary> {
+  log('Creating draft order...');
+  
+  // Generate shipping and billing addresses
+  const { shippingAddress, billingAddress } = generateOrderAddresses(customer);
+  logOrderDetails(tags, details);
+  
+  // Create draft order without sending email notification
+  // Shopify won't send any email until draftOrderInvoiceSend is called
+  // By not calling draftOrderInvoiceSend, we prevent all notification emails
+  const variables: DraftOrderCreateMutationVariables = {
+    input: {
+      customerId: customer.id,
+      lineItems: [
+        ...lineItems.map(lineItem => ({
+          variantId: lineItem.variant.id,
+          quantity: lineItem.quantity,
+          ...(lineItem.appliedDiscount ? { appliedDiscount: lineItem.appliedDiscount } : {})
+        })),
+        ...details.customLineItems.map(item => ({
+          title: item.title,
+          originalUnitPriceWithCurrency: item.price,
+          quantity: item.quantity,
+          requiresShipping: item.requiresShipping,
+          taxable: item.taxable
+        }))
+      ],
+      shippingAddress: shippingAddress,
+      billingAddress: billingAddress,
+      tags: tags || [],
+      ...(details.appliedDiscount ? { appliedDiscount: details.appliedDiscount } : {}),
+      ...(details.shippingLine ? {
+        shippingLine: { title: details.shippingLine.title, priceWithCurrency: details.shippingLine.price }
+      } : {}),
+      ...(details.note ? { note: details.note } : {}),
+      ...(details.customAttributes.length > 0 ? { customAttributes: details.customAttributes } : {})
+    }
+  };
+  
+  if (dryRun) {
+    log('[dry run] Skipping draftOrderCreate with variables:');
+    log(JSON.stringify(variables, null, 2));
+    return { draftOrderId: DRY_RUN_DRAFT_ORDER_ID, name: null, totalPrice: null, shippingAddress, billingAddress, details };
+  }
+  
+  const response = await makeShopifyGraphQLRequest(client, DraftOrderCreateDocument, variables);
+  
+  // Check for errors
+  if (response.data.draftOrderCreate?.userErrors && response.data.draftOrderCreate.userErrors.length > 0) {
+    throw new Error(`Failed to create draft order: ${JSON.stringify(response.data.draftOrderCreate.userErrors)}`);
+  }
+  
+  if (!response.data.draftOrderCreate?.draftOrder) {
+    throw new Error('Draft order creation was requested but no draft order was created');
+  }
+  
+  const draftOrderId = response.data.draftOrderCreate.draftOrder.id;
+  const draftOrderName = response.data.draftOrderCreate.draftOrder.name;
+  const totalPrice = response.data.draftOrderCreate.draftOrder.totalPriceSet.shopMoney.amount;
+  
+  log(`Created draft order: ${draftOrderName} (${draftOrderId}) with total price: ${totalPrice}`);
+  log('Email notifications: Disabled (no invoice email will be sent)');
+  return { draftOrderId, name: draftOrderName, totalPrice, shippingAddress, billingAddress, details };
+}
+
+/**
+ * Fetches the open fulfillment orders of an order
+ */
+async function fetchFulfillmentOrders(client: ShopifyClient, orderId: string): Promise<FulfillmentOrder[]> {
+  const response = await makeShopifyGraphQLRequest(client, FulfillmentOrdersDocument, { id: orderId });
+  
+  if (!response.data?.order) {
+    throw new Error(`Order not found: ${orderId}`);
+  }
+  
+  // Only open fulfillment orders can receive a fulfillment
+  return response.data.order.fulfillmentOrders.edges
+    .map(edge => edge.node)
+    .filter(fulfillmentOrder => fulfillmentOrder.status === 'OPEN' || fulfillmentOrder.status === 'IN_PROGRESS');
+}
+
+/**
+ * Moves an order's open fulfillment orders to the location its stock was picked at, so they are
+ * fulfilled from there instead of the location Shopify assigned
+ */
+async function moveFulfillmentOrdersToLocation(client: ShopifyClient, orderId: string, locationId: string): Promise<void> {
+  const fulfillmentOrders = await fetchFulfillmentOrders(client, orderId);
+  for (const fulfillmentOrder of fulfillmentOrders) {
+    if (fulfillmentOrder.assignedLocation.location?.id === locationId) continue;
+    
+    log(`Moving fulfillment order ${fulfillmentOrder.id} to location ${locationId}`);
+    const response = await makeShopifyGraphQLRequest(
+      client,
+      FulfillmentOrderMoveDocument,
+      { id: fulfillmentOrder.id, newLocationId: locationId }
+    );
+    
+    if (response.data.fulfillmentOrderMove?.userErrors && response.data.fulfillmentOrderMove.userErrors.length > 0) {
+      throw new Error(`Failed to move fulfillment order to location ${locationId}: ${JSON.stringify(response.data.fulfillmentOrderMove.userErrors)}`);
+    }
+  }
+}
+
+/**
+ * Picks the fulfillment order line items to ship for the requested fulfillment status.
+ * Returns an empty list when the requested status cannot be reached with the order's items.
+ */
+function selectLineItemsToFulfill(
+  fulfillmentOrders: FulfillmentOrder[],
+  fulfillmentStatus: OrderFulfillmentStatus
+): { fulfillmentOrderId: string, fulfillmentOrderLineItems: { id: string, quantity: number }[] }[] {
+  const allItems = fulfillmentOrders.map(fulfillmentOrder => ({
+    fulfillmentOrderId: fulfillmentOrder.id,
+    fulfillmentOrderLineItems: fulfillmentOrder.lineItems.edges
+      .map(edge => edge.node)
+      .filter(lineItem => lineItem.remainingQuantity > 0)
+      .map(lineItem => ({ id: lineItem.id, quantity: lineItem.remainingQuantity }))
+  })).filter(group => group.fulfillmentOrderLineItems.length > 0);
+  
+  if (fulfillmentStatus !== 'PARTIALLY_FULFILLED') {
+    return allItems;
+  }
+  
+  // For a partial fulfillment, ship roughly half of the units but always leave at least one behind
+  const totalUnits = allItems.reduce(
+    (sum, group) => sum + group.fulfillmentOrderLineItems.reduce((groupSum, item) => groupSum + item.quantity, 0),
+    0
+  );
+  
+  if (totalUnits < 2) {
+    return [];
+  }
+  
+  let unitsToShip = Math.max(1, Math.floor(totalUnits / 2));
+  const partialItems: typeof allItems = [];
+  
+  for (const group of allItems) {
+    const items: { id: string, quantity: number }[] = [];
+    
+    for (const item of group.fulfillmentOrderLineItems) {
+      if (unitsToShip === 0) break;
+      const quantity = Math.min(item.quantity, unitsToShip);
+      items.push({ id: item.id, quantity });
+      unitsToShip -= quantity;
+    }
+    
+    if (items.length > 0) {
+      partialItems.push({ fulfillmentOrderId: group.fulfillmentOrderId, fulfillmentOrderLineItems: items });
+    }
+  }
+  
+  return partialItems;
+}
+
+/**
+ * Creates a fulfillment with tracking information
+ */
+async function createFulfillmentWithTracking(
+  client: ShopifyClient,
+  orderId: string, 
+  fulfillmentStatus: OrderFulfillmentStatus,
+  deliveryInfo: DeliveryInfo
+): Promise<string | null> {
+  // Only create fulfillment if appropriate based on the status
+  if (
+    fulfillmentStatus === 'UNFULFILLED' || 
+    fulfillmentStatus === 'RESTOCKED' || 
+    fulfillmentStatus === 'PENDING_FULFILLMENT' ||
+    deliveryInfo.status === 'NOT_SHIPPED'
+  ) {
+    log('Order not fulfilled or shipped - skipping tracking information');
+    return null;
+  }
+  
+  const fulfillmentOrders = await fetchFulfillmentOrders(client, orderId);
+  const lineItemsByFulfillmentOrder = selectLineItemsToFulfill(fulfillmentOrders, fulfillmentStatus);
+  
+  if (lineItemsByFulfillmentOrder.length === 0) {
+    warn(`Warning: No line items available for a ${fulfillmentStatus} fulfillment - skipping fulfillment`);
+    return null;
+  }
+  
+  log(`Adding tracking information: ${deliveryInfo.carrier} - ${deliveryInfo.trackingNumber} (${deliveryInfo.status})`);
+  
+  // Customers are not notified, matching the draft order flow
+  const variables: FulfillmentCreateMutationVariables = {
+    fulfillment: {
+      lineItemsByFulfillmentOrder,
+      notifyCustomer: false,
+      trackingInfo: {
+        company: deliveryInfo.carrier,
+        number: deliveryInfo.trackingNumber,
+        url: deliveryInfo.trackingUrl
+      }
+    }
+  };
+  
+  const response = await makeShopifyGraphQLRequest(client, FulfillmentCreateDocument, variables);
+  
+  // Check for errors
+  if (response.data.fulfillmentCreate?.userErrors && response.data.fulfillmentCreate.userErrors.length > 0) {
+    throw new Error(`Failed to create fulfillment: ${JSON.stringify(response.data.fulfillmentCreate.userErrors)}`);
+  }
+  
+  if (!response.data.fulfillmentCreate?.fulfillment) {
+    throw new Error('Fulfillment was requested but none was created');
+  }
+  
+  const fulfillment = response.data.fulfillmentCreate.fulfillment;
+  log(`Created fulfillment: ${fulfillment.id} (${fulfillment.displayStatus})`);
+  writeOrderJournal({ type: 'fulfillment-created', orderId, fulfillmentId: fulfillment.id });
+  return fulfillment.id;
+}
+
+/**
+ * Fetches the current financial and fulfillment status of an order
+ */
+async function fetchOrderStatus(client: ShopifyClient, orderId: string): Promise<{
+  displayFinancialStatus: string | null,
+  displayFulfillmentStatus: string,
+  totalOutstanding: Money
+}> {
+  const response = await makeShopifyGraphQLRequest(client, OrderStatusDocument, { id: orderId });
+  
+  if (!response.data?.order) {
+    throw new Error(`Order not found: ${orderId}`);
+  }
+  
+  return {
+    displayFinancialStatus: response.data.order.displayFinancialStatus,
+    displayFulfillmentStatus: response.data.order.displayFulfillmentStatus,
+    totalOutstanding: response.data.order.totalOutstandingSet.shopMoney
+  };
+}
+
+/**
+ * Maps a requested payment status to the displayFinancialStatus Shopify should report for it.
+ * Shopify has no separate unpaid state, so UNPAID orders show as PENDING.
+ */
+function getExpectedFinancialStatus(paymentStatus: OrderPaymentStatus): string {
+  switch(paymentStatus) {
+    case 'PAID':
+      return 'PAID';
+    case 'PARTIALLY_PAID':
+      return 'PARTIALLY_PAID';
+    case 'PENDING':
+    case 'UNPAID':
+      return 'PENDING';
+  }
+}
+
+/**
+ * Maps a requested fulfillment status to the displayFulfillmentStatus Shopify should report for it.
+ * Nothing is shipped for PENDING_FULFILLMENT, so those orders show as UNFULFILLED.
+ */
+function getExpectedFulfillmentStatus(fulfillmentStatus: OrderFulfillmentStatus): string {
+  return fulfillmentStatus === 'PENDING_FULFILLMENT' ? 'UNFULFILLED' : fulfillmentStatus;
+}
+
+/**
+ * Brings a completed order's financial state in line with the requested payment status.
+ * PARTIALLY_PAID orders receive a manual payment for part of the outstanding total;
+ * PAID orders were captured on completion, and PENDING/UNPAID orders are left with nothing captured.
+ */
+async function applyPaymentStatus(client: ShopifyClient, orderId: string, paymentStatus: OrderPaymentStatus): Promise<void> {
+  if (paymentStatus !== 'PARTIALLY_PAID') {
+    return;
+  }
+  
+  const { totalOutstanding } = await fetchOrderStatus(client, orderId);
+  const outstandingCents = Math.round(parseFloat(totalOutstanding.amount) * 100);
+  
+  if (outstandingCents < 2) {
+    warn(`Warning: Outstanding total ${totalOutstanding.amount} is too small for a partial payment - skipping payment`);
+    return;
+  }
+  
+  // Pay between 25% and 75% of the outstanding total, leaving at least one cent unpaid
+  const fraction = 0.25 + random() * 0.5;
+  const paidCents = Math.min(outstandingCents - 1, Math.max(1, Math.round(outstandingCents * fraction)));
+  const amount: MoneyInput = {
+    amount: paidCents / 100,
+    currencyCode: totalOutstanding.currencyCode
+  };
+  
+  log(`Recording manual partial payment: ${amount.amount.toFixed(2)} ${amount.currencyCode} of ${totalOutstanding.amount}`);
+  
+  const response = await makeShopifyGraphQLRequest(client, OrderCreateManualPaymentDocument, { id: orderId, amount });
+  
+  // Check for errors
+  if (response.data.orderCreateManualPayment?.userErrors && response.data.orderCreateManualPayment.userErrors.length > 0) {
+    throw new Error(`Failed to create manual payment: ${JSON.stringify(response.data.orderCreateManualPayment.userErrors)}`);
+  }
+}
+
+/**
+ * Picks the payment, fulfillment and delivery statuses of a new order. A given carrier is used
+ * for the delivery instead of a random one.
+ */
+function pickOrderStatuses(carrier?: ShippingCarrier): OrderStatusSelection {
+  // Get random payment status
+  const { status: paymentStatus, paymentPending } = getRandomPaymentStatus();
+  log(`Setting payment status: ${paymentStatus} (paymentPending: ${paymentPending})`);
+  
+  // Get random fulfillment status
+  const fulfillmentStatus = getRandomFulfillmentStatus();
+  log(`Selected fulfillment status: ${fulfillmentStatus}`);
+  
+  // Get random delivery status based on fulfillment status
+  const deliveryInfo = getRandomDeliveryInfo(fulfillmentStatus, currentScenario(), carrier);
+  log(`Selected delivery status: ${deliveryInfo.status}`);
+  
+  return { paymentStatus, paymentPending, fulfillmentStatus, deliveryInfo };
+}
+
+/**
+ * Brings a new order to its requested statuses: records a partial payment and creates the
+ * fulfillment if needed, then re-reads the order so the summary reflects what Shopify recorded
+ */
+async function settleOrder(
+  client: ShopifyClient,
+  orderId: string,
+  paymentStatus: OrderPaymentStatus,
+  fulfillmentStatus: OrderFulfillmentStatus,
+  deliveryInfo: DeliveryInfo
+): Promise<{ fulfillmentId: string | null, displayFinancialStatus: string | null, displayFulfillmentStatus: string }> {
+  // Orders are fulfilled from the location their stock was reserved at, now and by whoever ships them later
+  const locationId = orderContext.getStore()?.locationId;
+  if (locationId) {
+    await moveFulfillmentOrdersToLocation(client, orderId, locationId);
+  }
+  
+  // Record a partial payment if needed
+  await applyPaymentStatus(client, orderId, paymentStatus);
+  
+  // Add tracking information if appropriate
+  const fulfillmentId = await createFulfillmentWithTracking(client, orderId, fulfillmentStatus, deliveryInfo);
+  
+  const orderStatus = await fetchOrderStatus(client, orderId);
+  return {
+    fulfillmentId,
+    displayFinancialStatus: orderStatus.displayFinancialStatus,
+    displayFulfillmentStatus: orderStatus.displayFulfillmentStatus
+  };
+}
+
+/**
+ * Completes a draft order to create a real order. A carrier that the order's shipping line
+ * was charged for is used for its fulfillment as well. The statuses are picked at random unless
+ * they were picked already.
+ */
+export async function completeDraftOrder(
+  client: ShopifyClient,
+  draftOrderId: string,
+  dryRun: boolean = false,
+  carrier?: ShippingCarrier,
+  statuses: OrderStatusSelection = pickOrderStatuses(carrier)
+): Promise<DraftOrderCompletion> {
+  log(`Completing draft order: ${draftOrderId}...`);
+  
+  const { paymentStatus, paymentPending, fulfillmentStatus, deliveryInfo } = statuses;
+  
+  const variables = {
+    id: draftOrderId,
+    paymentPending: paymentPending
+  };
+  
+  // Nothing exists to pay or fulfill, so the follow-up steps are skipped as well
+  if (dryRun) {
+    log('[dry run] Skipping draftOrderComplete with variables:');
+    log(JSON.stringify(variables, null, 2));
+    return {
+      orderId: DRY_RUN_ORDER_ID,
+      orderName: null,
+      paymentStatus,
+      actualFinancialStatus: getExpectedFinancialStatus(paymentStatus),
+      fulfillmentStatus,
+      actualFulfillmentStatus: getExpectedFulfillmentStatus(fulfillmentStatus),
+      fulfillmentId: null,
+      deliveryInfo: null
+    };
+  }
+  
+  const response = await makeShopifyGraphQLRequest(client, DraftOrderCompleteDocument, variables);
+  
+  // Check for errors
+  if (response.data.draftOrderComplete?.userErrors && response.data.draftOrderComplete.userErrors.length > 0) {
+    throw new Error(`Failed to complete draft order: ${JSON.stringify(response.data.draftOrderComplete.userErrors)}`);
+  }
+  
+  const order = response.data.draftOrderComplete?.draftOrder?.order;
+  if (!order) {
+    throw new Error('Draft order was completed but no order was created');
+  }
+  
+  const orderId = order.id;
+  
+  // Record the order right away so a later failure can't orphan it
+  const context = orderContext.getStore();
+  if (context) context.orderId = orderId;
+  writeOrderJournal({ type: 'order-created', draftOrderId, orderId });
+  const orderName = order.name;
+  let actualFinancialStatus: string = order.displayFinancialStatus || paymentStatus;
+  let actualFulfillmentStatus: string = order.displayFulfillmentStatus || "UNFULFILLED";
+  
+  log(`Created order: ${orderName} (${orderId})`);
+  log(`Payment status: ${actualFinancialStatus}`);
+  log(`Fulfillment status: ${actualFulfillmentStatus}`);
+  log(`Email notifications: Disabled`);
+  
+  const settled = await settleOrder(client, orderId, paymentStatus, fulfillmentStatus, deliveryInfo);
+  const fulfillmentId = settled.fulfillmentId;
+  actualFinancialStatus = settled.displayFinancialStatus || actualFinancialStatus;
+  actualFulfillmentStatus = settled.displayFulfillmentStatus;
+  
+  return {
+    orderId,
+    orderName,
+    paymentStatus,
+    actualFinancialStatus,
+    fulfillmentStatus,
+    actualFulfillmentStatus,
+    fulfillmentId,
+    deliveryInfo: fulfillmentId ? deliveryInfo : null
+  };
+}
+
+/**
+ * Returns a unit price after a line item discount; fixed discounts apply per unit as on draft orders
+ */
+function applyDiscountToPrice(price: number, discount: AppliedDiscount): number {
+  const reduction = discount.valueType === 'PERCENTAGE' ? price * discount.value / 100 : discount.value;
+  return Math.max(0, Math.round((price - reduction) * 100) / 100);
+}
+
+/**
+ * Turns an order discount into the discount code orderCreate applies it with, since orders
+ * can't carry a draft order's applied discount
+ */
+function toDiscountCode(discount: AppliedDiscount, currencyCode: CurrencyCode): OrderCreateDiscountCodeInput {
+  const code = discount.title.toUpperCase().replace(/[^A-Z0-9]+/g, '-');
+  return discount.valueType === 'PERCENTAGE'
+    ? { itemPercentageDiscountCode: { code, percentage: discount.value } }
+    : { itemFixedDiscountCode: { code, amountSet: { shopMoney: { amount: discount.value, currencyCode } } } };
+}
+
+/**
+ * Creates an order directly with orderCreate, backdated to `processedAt`, then pays and fulfills
+ * it like a completed draft order. Draft orders are always completed at the current time, so this
+ * is how historical orders are made. Customers get no receipt, and fulfillments and payments
+ * recorded afterwards carry the current time. The statuses are picked at random unless they were
+ * picked already.
+ */
+export async function createBackdatedOrder(
+  client: ShopifyClient,
+  customer: Customer,
+  lineItems: LineItemSelection[],
+  processedAt: string,
+  currencyCode: CurrencyCode,
+  tags?: string[],
+  dryRun: boolean = false,
+  details: OrderDetails = NO_ORDER_DETAILS,
+  statuses: OrderStatusSelection = pickOrderStatuses(details.shippingLine?.carrier)
+): Promise<BackdatedOrderCompletion> {
+  log(`Creating order backdated to ${processedAt}...`);
+  
+  const { shippingAddress, billingAddress } = generateOrderAddresses(customer);
+  logOrderDetails(tags, details);
+  const { paymentStatus, paymentPending, fulfillmentStatus, deliveryInfo } = statuses;
+  
+  // Line item discounts are applied to the unit price, and the order discount as a discount code
+  const variables: OrderCreateMutationVariables = {
+    order: {
+      processedAt,
+      customer: { toAssociate: { id: customer.id } },
+      lineItems: [
+        ...lineItems.map(lineItem => ({
+          variantId: lineItem.variant.id,
+          quantity: lineItem.quantity,
+          ...(lineItem.appliedDiscount ? {
+            priceSet: {
+              shopMoney: { amount: applyDiscountToPrice(parseFloat(lineItem.variant.price), lineItem.appliedDiscount), currencyCode }
+            }
+          } : {})
+        })),
+        ...details.customLineItems.map(item => ({
+          title: item.title,
+          priceSet: { shopMoney: item.price },
+          quantity: item.quantity,
+          requiresShipping: item.requiresShipping,
+          taxable: item.taxable
+        }))
+      ],
+      shippingAddress,
+      billingAddress,
+      tags: tags || [],
+      // PARTIALLY_PAID orders start out pending and receive a manual payment, as in completeDraftOrder
+      financialStatus: paymentPending ? 'PENDING' : 'PAID',
+      ...(details.appliedDiscount ? { discountCode: toDiscountCode(details.appliedDiscount, currencyCode) } : {}),
+      ...(details.shippingLine ? {
+        shippingLines: [{ title: details.shippingLine.title, priceSet: { shopMoney: details.shippingLine.price } }]
+      } : {}),
+      ...(details.note ? { note: details.note } : {}),
+      ...(details.customAttributes.length > 0 ? { customAttributes: details.customAttributes } : {})
+    },
+    options: {
+      inventoryBehaviour: 'DECREMENT_OBEYING_POLICY',
+      sendReceipt: false,
+      sendFulfillmentReceipt: false
+    }
+  };
+  
+  if (dryRun) {
+    log('[dry run] Skipping orderCreate with variables:');
+    log(JSON.stringify(variables, null, 2));
+    return {
+      orderId: DRY_RUN_ORDER_ID,
+      orderName: null,
+      processedAt,
+      shippingAddress,
+      billingAddress,
+      paymentStatus,
+      actualFinancialStatus: getExpectedFinancialStatus(paymentStatus),
+      fulfillmentStatus,
+      actualFulfillmentStatus: getExpectedFulfillmentStatus(fulfillmentStatus),
+      fulfillmentId: null,
+      deliveryInfo: null
+    };
+  }
+  
+  const response = await makeShopifyGraphQLRequest(client, OrderCreateDocument, variables);
+  
+  // Check for errors
+  if (response.data.orderCreate?.userErrors && response.data.orderCreate.userErrors.length > 0) {
+    throw new Error(`Failed to create order: ${JSON.stringify(response.data.orderCreate.userErrors)}`);
+  }
+  
+  if (!response.data.orderCreate?.order) {
+    throw new Error('Order creation was requested but no order was created');
+  }
+  
+  const order = response.data.orderCreate.order;
+  
+  // Record the order right away so a later failure can't orphan it
+  const context = orderContext.getStore();
+  if (context) context.orderId = order.id;
+  writeOrderJournal({ type: 'order-created', draftOrderId: null, orderId: order.id });
+  
+  log(`Created order: ${order.name} (${order.id}) processed at ${order.processedAt}`);
+  log(`Email notifications: Disabled`);
+  
+  const settled = await settleOrder(client, order.id, paymentStatus, fulfillmentStatus, deliveryInfo);
+  
+  return {
+    orderId: order.id,
+    orderName: order.name,
+    processedAt: order.processedAt,
+    shippingAddress,
+    billingAddress,
+    paymentStatus,
+    actualFinancialStatus: settled.displayFinancialStatus || order.displayFinancialStatus || paymentStatus,
+    fulfillmentStatus,
+    actualFulfillmentStatus: settled.displayFulfillmentStatus,
+    fulfillmentId: settled.fulfillmentId,
+    deliveryInfo: settled.fulfillmentId ? deliveryInfo : null
+  };
+}
+
+/**
+ * Creates a draft order and completes it, deleting the draft again when completion fails
+ */
+async function createOrderFromDraft(
+  client: ShopifyClient,
+  customer: Customer,
+  lineItems: LineItemSelection[],
+  tags: string[],
+  dryRun: boolean,
+  details: OrderDetails,
+  statuses: OrderStatusSelection
+): Promise<{ draftOrder: DraftOrderSummary, completion: DraftOrderCompletion }> {
+  const draftOrder = await createDraftOrder(client, customer, lineItems, tags, dryRun, details);
+  const draftOrderId = draftOrder.draftOrderId;
+  if (!dryRun) {
+    writeOrderJournal({ type: 'draft-created', draftOrderId });
+  }
+  
+  try {
+    const completion = await completeDraftOrder(client, draftOrderId, dryRun, details.shippingLine?.carrier, statuses);
+    return { draftOrder, completion };
+  } catch (error) {
+    // Don't leave the draft behind when no order was created from it
+    const context = orderContext.getStore();
+    if (!dryRun && context && !context.orderId) {
+      await discardDraftOrder(client, draftOrderId, context.index);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Main function to create an order with random product and customer.
+ * When a catalog is given, the customer and products are picked from it instead of being fetched.
+ */
+export async function createRandomOrder(client: ShopifyClient, options: OrderGenerationOptions, catalog?: Catalog): Promise<OrderResult> {
+  log(`Creating a random order in Shopify store: ${client.shopUrl}`);
+  
+  const orderCatalog = catalog ?? await fetchCatalog(client, options);
+  
+  // 1. Pick a random customer, or create a new one
+  const { customer, created: customerCreated } = await selectOrderCustomer(client, options, orderCatalog);
+  
+  // 2. Pick the location the order is fulfilled from, then random products with stock left there
+  // in the run, or every pinned variant. The units stay reserved at that location for this order
+  // so later orders of the run can't sell them again.
+  const pinned = options.variantIds !== undefined && options.variantIds.length > 0;
+  const location = pickFulfillmentLocation(orderCatalog.products, orderCatalog.locations, orderCatalog.reservedQuantities, pinned);
+  const context = orderContext.getStore();
+  if (context) context.locationId = location.id;
+  const selectedLineItems = pinned
+    ? pickPinnedLineItems(orderCatalog.products, options.quantity, location.id, orderCatalog.reservedQuantities)
+    : pickRandomLineItems(orderCatalog.products, options.lineItemCount, options.quantity, location.id, orderCatalog.reservedQuantities);
+  
+  // Add discounts, shipping and the other optional details the scenario asks for
+  const { lineItems, details } = generateRandomOrderDetails(selectedLineItems, orderCatalog.currencyCode, options.scenario);
+  
+  // Pick the statuses the order should end up in. A partial fulfillment ships some units and
+  // leaves at least one behind, so the order needs a second unit, or is fulfilled in full.
+  const statuses = pickOrderStatuses(details.shippingLine?.carrier);
+  const unitCount = lineItems.reduce((sum, lineItem) => sum + lineItem.quantity, 0);
+  if (statuses.fulfillmentStatus === 'PARTIALLY_FULFILLED' && unitCount < 2
+    && !addLineItemUnit(lineItems, location.id, orderCatalog.reservedQuantities)) {
+    log('Using fulfillment status FULFILLED instead of PARTIALLY_FULFILLED, as the order has a single unit');
+    statuses.fulfillmentStatus = 'FULFILLED';
+  }
+  
+  // 3. Use provided tags or generate random ones matching whether the customer is new
+  const tags = options.tags || generateRandomTags(options.scenario, isFirstOrder(customer, customerCreated));
+  
+  // 4-5. Create a draft order, marked with the run tags so cleanup can find it, and complete it
+  // to create a real order. Backdated orders are created directly, since drafts can't be backdated.
+  const orderTags = [...tags, ...getRunTags(options.runId)];
+  let draftOrderId: string | null = null;
+  let addresses: { shippingAddress: Address, billingAddress: Address };
+  let completion: DraftOrderCompletion;
+  let processedAt: string | null = null;
+  try {
+    if (options.processedAt) {
+      const backdated = await createBackdatedOrder(
+        client, customer, lineItems, options.processedAt, orderCatalog.currencyCode, orderTags, options.dryRun, details, statuses
+      );
+      addresses = backdated;
+      completion = backdated;
+      processedAt = backdated.processedAt;
+    } else {
+      const { draftOrder, completion: draftCompletion } = await createOrderFromDraft(client, customer, lineItems, orderTags, options.dryRun, details, statuses);
+      draftOrderId = draftOrder.draftOrderId;
+      addresses = draftOrder;
+      completion = draftCompletion;
+    }
+  } catch (error) {
+    // Stock of an order that was never created can go to the next order
+    if (!orderContext.getStore()?.orderId) {
+      releaseStock(orderCatalog.reservedQuantities, location.id, lineItems);
+    }
+    throw error;
+  }
+  
+  const {
+    orderId,
+    orderName,
+    paymentStatus,
+    fulfillmentStatus,
+    fulfillmentId,
+    deliveryInfo
+  } = completion;
+  let { actualFinancialStatus, actualFulfillmentStatus } = completion;
+  
+  // 6. Refund, cancel or return the order. Orders meant to end up RESTOCKED are refunded
+  // in full, which restocks every unshipped item. A scenario with a single lifecycle action
+  // other than the default NONE (as --lifecycle gives) asked for it, so replacing it is a warning.
+  let lifecycleAction: LifecycleAction = getRandomLifecycleAction(options.scenario);
+  if (fulfillmentStatus === 'RESTOCKED' && lifecycleAction !== 'FULL_REFUND') {
+    const replaced = `lifecycle action FULL_REFUND instead of ${lifecycleAction} to restock the order`;
+    if (options.scenario.lifecycleActions.length === 1 && lifecycleAction !== 'NONE') {
+      warn(`Warning: Using ${replaced}`);
+    } else {
+      log(`Using ${replaced}`);
+    }
+    lifecycleAction = 'FULL_REFUND';
+  }
+  const lifecycle = await applyOrderLifecycle(client, orderId, lifecycleAction, options.dryRun);
+  if (lifecycle.applied) {
+    const orderStatus = await fetchOrderStatus(client, orderId);
+    actualFinancialStatus = orderStatus.displayFinancialStatus || actualFinancialStatus;
+    actualFulfillmentStatus = orderStatus.displayFulfillmentStatus;
+  }
+  
+  log('\n=============================================');
+  log(options.dryRun ? 'DRY RUN - NO ORDER CREATED' : 'ORDER CREATION SUCCESSFUL');
+  log('=============================================');
+  log(`Customer: ${customer.firstName} ${customer.lastName}`);
+  log(`Email: ${customer.email}`);
+  log('Line Items:');
+  for (const lineItem of lineItems) {
+    const discount = lineItem.appliedDiscount ? ` (${lineItem.appliedDiscount.description})` : '';
+    log(`  ${lineItem.quantity} x ${lineItem.product.title} - ${lineItem.variant.title} @ ${lineItem.variant.price}${discount}`);
+  }
+  for (const item of details.customLineItems) {
+    log(`  ${item.quantity} x ${item.title} @ ${item.price.amount.toFixed(2)}`);
+  }
+  if (details.appliedDiscount) {
+    log(`Discount: ${details.appliedDiscount.title} (${details.appliedDiscount.description})`);
+  }
+  if (details.shippingLine) {
+    log(`Shipping: ${details.shippingLine.title} @ ${details.shippingLine.price.amount.toFixed(2)}`);
+  }
+  if (details.note) {
+    log(`Note: ${details.note}`);
+  }
+  log(`Order ID: ${orderId}`);
+  if (processedAt) {
+    log(`Processed At: ${processedAt}`);
+  }
+  log(`Payment Status: ${paymentStatus} (${actualFinancialStatus})`);
+  log(`Fulfillment Status: ${fulfillmentStatus} (${actualFulfillmentStatus})`);
+  if (tags && tags.length > 0) {
+    log(`Tags: ${tags.join(', ')}`);
+  }
+  
+  log(`\nDELIVERY INFORMATION:`);
+  if (deliveryInfo) {
+    log(`Status: ${deliveryInfo.status}`);
+    log(`Carrier: ${deliveryInfo.carrier}`);
+    log(`Tracking Number: ${deliveryInfo.trackingNumber}`);
+    log(`Tracking URL: ${deliveryInfo.trackingUrl}`);
+    log(`Fulfillment ID: ${fulfillmentId}`);
+  } else {
+    log('Status: NOT_SHIPPED (no fulfillment was created)');
+  }
+  
+  if (lifecycle.action !== 'NONE') {
+    log(`\nLIFECYCLE:`);
+    log(`Action: ${lifecycle.action}${lifecycle.applied ? '' : ` (skipped: ${lifecycle.skippedReason})`}`);
+    if (lifecycle.refundId && lifecycle.refundedAmount) {
+      log(`Refund: ${lifecycle.refundId} (${lifecycle.refundedAmount.amount} ${lifecycle.refundedAmount.currencyCode})`);
+    }
+    if (lifecycle.cancelled) {
+      log('Cancelled: yes');
+    }
+    if (lifecycle.restockedQuantity > 0) {
+      log(`Restocked units: ${lifecycle.restockedQuantity}`);
+    }
+    if (lifecycle.returnId) {
+      log(`Return: ${lifecycle.returnId} (${lifecycle.returnStatus})`);
+    }
+  }
+  
+  // Refunds and cancellations change the financial status on purpose
+  const expectedFinancialStatus = getExpectedFinancialStatus(paymentStatus);
+  if (!lifecycle.applied && actualFinancialStatus !== expectedFinancialStatus) {
+    warn(`\nWarning: Requested payment status ${paymentStatus} but Shopify reports ${actualFinancialStatus} (expected ${expectedFinancialStatus})`);
+  }
+  const expectedFulfillmentStatus = getExpectedFulfillmentStatus(fulfillmentStatus);
+  if (!lifecycle.applied && actualFulfillmentStatus !== expectedFulfillmentStatus) {
+    warn(`\nWarning: Requested fulfillment status ${fulfillmentStatus} but Shopify reports ${actualFulfillmentStatus} (expected ${expectedFulfillmentStatus})`);
+  }
+  
+  log('=============================================');
+  if (deliveryInfo) {
+    log('Note: Tracking information is attached to the fulfillment; the delivery status is simulated.');
+  }
+  
+  const result: OrderResult = {
+    index: context?.index ?? 1,
+    orderId,
+    orderName,
+    draftOrderId,
+    processedAt,
+    runId: options.runId,
+    dryRun: options.dryRun,
+    customer,
+    customerCreated,
+    lineItems,
+    shippingAddress: addresses.shippingAddress,
+    billingAddress: addresses.billingAddress,
+    tags,
+    details,
+    paymentStatus,
+    actualFinancialStatus,
+    fulfillmentStatus,
+    actualFulfillmentStatus,
+    fulfillmentId,
+    deliveryInfo,
+    lifecycle,
+    queryCost: { ...(context?.queryCost ?? { requests: 0, requestedCost: 0, actualCost: 0 }) }
+  };
+  
+  if (!options.dryRun) {
+    writeOrderJournal({ type: 'order-completed', order: toJournalOrderRecord(result) });
+  }
+  return result;
+}
+
+/**
+ * Deletes a draft order left behind by a failed completion. Failures are only logged,
+ * since the journal still lists the draft for a later resume or cleanup.
+ */
+export async function discardDraftOrder(client: ShopifyClient, draftOrderId: string, index: number): Promise<void> {
+  try {
+    await deleteDraftOrder(client, draftOrderId);
+    writeJournal({ type: 'draft-deleted', index, draftOrderId });
+    log(`Deleted draft order left behind by the failure: ${draftOrderId}`);
+  } catch (error) {
+    warn(`Warning: Could not delete draft order ${draftOrderId}: ${error instanceof Error ? error.message : error}`);
+  }
+}
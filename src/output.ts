@@ -0,0 +1,71 @@
+import { OrderOutput, OrderResult, OutputFormat, RunSummaryOutput } from './types';
+
+/**
+ * Writes a machine-readable value to stdout: pretty-printed for json, one line for ndjson
+ */
+export function writeOutput(format: OutputFormat, value: unknown): void {
+  process.stdout.write(`${format === 'json' ? JSON.stringify(value, null, 2) : JSON.stringify(value)}\n`);
+}
+
+/**
+ * Converts an order result into its machine-readable form
+ */
+export function toOrderOutput(result: OrderResult): OrderOutput {
+  return {
+    index: result.index,
+    orderId: result.orderId,
+    orderName: result.orderName,
+    draftOrderId: result.draftOrderId,
+    processedAt: result.processedAt,
+    runId: result.runId,
+    dryRun: result.dryRun,
+    customer: {
+      id: result.customer.id,
+      firstName: result.customer.firstName,
+      lastName: result.customer.lastName,
+      email: result.customer.email,
+      created: result.customerCreated
+    },
+    lineItems: result.lineItems.map(lineItem => ({
+      productId: lineItem.product.id,
+      productTitle: lineItem.product.title,
+      variantId: lineItem.variant.id,
+      variantTitle: lineItem.variant.title,
+      sku: lineItem.variant.sku,
+      price: lineItem.variant.price,
+      quantity: lineItem.quantity,
+      appliedDiscount: lineItem.appliedDiscount ?? null
+    })),
+    shippingAddress: result.shippingAddress,
+    billingAddress: result.billingAddress,
+    tags: result.tags,
+    ...result.details,
+    paymentStatus: { requested: result.paymentStatus, actual: result.actualFinancialStatus },
+    fulfillmentStatus: { requested: result.fulfillmentStatus, actual: result.actualFulfillmentStatus },
+    fulfillmentId: result.fulfillmentId,
+    deliveryInfo: result.deliveryInfo,
+    lifecycle: result.lifecycle,
+    graphqlCost: result.queryCost
+  };
+}
+
+/**
+ * Writes the machine-readable result of a run: the whole run as one document for json,
+ * or a closing summary line for ndjson (orders are written as they finish)
+ */
+export function writeRunOutput(
+  format: OutputFormat,
+  summary: RunSummaryOutput,
+  results: OrderResult[],
+  failures: { index: number, message: string }[]
+): void {
+  if (format === 'json') {
+    writeOutput(format, {
+      ...summary,
+      orders: [...results].sort((a, b) => a.index - b.index).map(toOrderOutput),
+      failures: [...failures].sort((a, b) => a.index - b.index)
+    });
+  } else if (format === 'ndjson') {
+    writeOutput(format, { type: 'summary', ...summary });
+  }
+}
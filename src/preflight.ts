@@ -0,0 +1,133 @@
+import {
+  GraphQLResult,
+  PreflightCheck,
+  PreflightFeature,
+  PreflightReport,
+  Scenario,
+  ShopifyClient
+} from './types';
+import { makeShopifyGraphQLRequest, ShopifyGraphQLError, ShopifyHttpError } from './shopify-client';
+import { PreflightDocument, PreflightQuery } from './generated/admin';
+
+// Access scopes each part of the order flow needs, and what they are used for
+const ACCESS_SCOPE_CHECKS: { feature: PreflightFeature, name: string, scopes: string[], usedFor: string }[] = [
+  { feature: 'customers', name: 'Customers', scopes: ['read_customers'], usedFor: 'picking customers' },
+  { feature: 'newCustomers', name: 'New customers', scopes: ['write_customers'], usedFor: 'creating customers and deleting them in cleanup' },
+  { feature: 'products', name: 'Products', scopes: ['read_products'], usedFor: 'picking products' },
+  { feature: 'draftOrders', name: 'Draft orders', scopes: ['write_draft_orders'], usedFor: 'creating and deleting draft orders' },
+  { feature: 'orders', name: 'Orders', scopes: ['write_orders'], usedFor: 'creating, paying, refunding and cancelling orders' },
+  { feature: 'fulfillments', name: 'Fulfillments', scopes: ['write_merchant_managed_fulfillment_orders'], usedFor: 'fulfilling orders' },
+  { feature: 'returns', name: 'Returns', scopes: ['write_returns'], usedFor: 'opening and closing returns' },
+  { feature: 'locations', name: 'Locations', scopes: ['read_locations', 'read_inventory'], usedFor: 'picking the location each order is fulfilled from' }
+];
+
+// Features every order run needs, whatever its scenario
+const ORDER_RUN_FEATURES: PreflightFeature[] = ['customers', 'products', 'orders', 'fulfillments', 'locations'];
+
+/**
+ * Works out which features a run creating orders with a scenario needs. Backdated orders are
+ * created without draft orders.
+ */
+export function getOrderRunFeatures(scenario: Scenario, backdated: boolean = false): PreflightFeature[] {
+  const features = [...ORDER_RUN_FEATURES];
+  if (!backdated) {
+    features.push('draftOrders');
+  }
+  if (scenario.customerTypes.some(entry => entry.value === 'new' && entry.weight > 0)) {
+    features.push('newCustomers');
+  }
+  if (scenario.lifecycleActions.some(entry => (entry.value === 'OPEN_RETURN' || entry.value === 'CLOSED_RETURN') && entry.weight > 0)) {
+    features.push('returns');
+  }
+  return features;
+}
+
+/**
+ * Checks whether a scope was granted. A write scope includes the matching read scope.
+ */
+function hasAccessScope(granted: Set<string>, scope: string): boolean {
+  return granted.has(scope) || (scope.startsWith('read_') && granted.has(`write_${scope.slice('read_'.length)}`));
+}
+
+/**
+ * Explains why the preflight query failed, in terms of what to fix
+ */
+function describeRequestFailure(client: ShopifyClient, error: unknown): string {
+  if (error instanceof ShopifyHttpError) {
+    switch(error.status) {
+      case 401:
+        return 'The access token was rejected (HTTP 401); check the token and that the app is still installed';
+      case 402:
+        return 'The shop is frozen or unpaid (HTTP 402)';
+      case 403:
+        return 'The access token may not use the Admin API (HTTP 403)';
+      case 404:
+        return `No Admin API found for ${client.shopUrl} at version ${client.apiVersion} (HTTP 404); check the shop URL and API version`;
+      default:
+        return error.message;
+    }
+  }
+  if (error instanceof ShopifyGraphQLError) {
+    return error.message;
+  }
+  return `Could not reach ${client.apiBaseUrl}: ${error instanceof Error ? error.message : error}`;
+}
+
+/**
+ * Checks the access token, the API version and the access scopes of the app installation.
+ * Missing scopes of `required` features fail the preflight; other missing scopes are warnings.
+ */
+export async function runPreflight(client: ShopifyClient, required: PreflightFeature[]): Promise<PreflightReport> {
+  const checks: PreflightCheck[] = [];
+  let response: GraphQLResult<PreflightQuery>;
+  
+  try {
+    response = await makeShopifyGraphQLRequest(client, PreflightDocument);
+  } catch (error) {
+    checks.push({ name: 'Access token', status: 'fail', message: describeRequestFailure(client, error) });
+    return { passed: false, checks };
+  }
+  
+  const { shop, currentAppInstallation, publicApiVersions } = response.data;
+  checks.push({ name: 'Access token', status: 'pass', message: `Connected to ${shop.name} (${shop.myshopifyDomain})` });
+  
+  const version = publicApiVersions.find(candidate => candidate.handle === client.apiVersion);
+  const supportedVersions = publicApiVersions.filter(candidate => candidate.supported).map(candidate => candidate.handle);
+  if (!version || !version.supported) {
+    checks.push({
+      name: 'API version',
+      status: 'fail',
+      message: `${client.apiVersion} is ${version ? 'no longer supported' : 'not a known version'} (supported: ${supportedVersions.join(', ')})`
+    });
+  } else {
+    checks.push({ name: 'API version', status: 'pass', message: `${version.displayName} is supported` });
+  }
+  
+  const granted = new Set(currentAppInstallation.accessScopes.map(scope => scope.handle));
+  for (const check of ACCESS_SCOPE_CHECKS) {
+    const missing = check.scopes.filter(scope => !hasAccessScope(granted, scope));
+    if (missing.length === 0) {
+      checks.push({ name: check.name, status: 'pass', message: `${check.scopes.join(', ')} granted` });
+    } else {
+      // Scopes for features the run doesn't use are reported but don't stop it
+      const needed = required.includes(check.feature);
+      checks.push({
+        name: check.name,
+        status: needed ? 'fail' : 'warn',
+        message: `Missing ${missing.join(', ')}, needed for ${check.usedFor}${needed ? '' : ' (not required here)'}`
+      });
+    }
+  }
+  
+  return { passed: checks.every(check => check.status !== 'fail'), checks };
+}
+
+/**
+ * Formats a preflight report as one line per check
+ */
+export function formatPreflightReport(report: PreflightReport): string {
+  const width = Math.max(...report.checks.map(check => check.name.length));
+  return report.checks
+    .map(check => `${check.status.toUpperCase().padEnd(4)}  ${check.name.padEnd(width)}  ${check.message}`)
+    .join('\n');
+}
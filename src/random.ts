@@ -0,0 +1,103 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+import { IntegerRange, OrderContext, OrderGenerationOptions, WeightedValue } from './types';
+
+/**
+ * Hashes a seed string into a 32-bit integer (FNV-1a)
+ */
+function hashSeed(seed: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Creates a seeded pseudo-random generator (mulberry32) returning numbers in [0, 1)
+ */
+export function createRandomGenerator(seed: string): () => number {
+  let state = hashSeed(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Per-order state: each order draws from its own generator so concurrent orders don't consume
+// each other's numbers, and journal entries are attributed to the order's number
+export const orderContext = new AsyncLocalStorage<OrderContext>();
+
+/**
+ * Creates a seed for a run that wasn't given one
+ */
+export function createRunSeed(): string {
+  return Math.floor(Math.random() * 4294967296).toString();
+}
+
+/**
+ * Returns a pseudo-random number in [0, 1) from the current order's generator,
+ * or an unseeded one outside of an order
+ */
+export function random(): number {
+  return (orderContext.getStore()?.random ?? Math.random)();
+}
+
+/**
+ * Returns a random whole number within an inclusive range
+ */
+export function randomInteger(range: IntegerRange): number {
+  return range.min + Math.floor(random() * (range.max - range.min + 1));
+}
+
+/**
+ * Returns true with the given probability (0-1). A rate of 0 draws no number, so optional
+ * choices that are turned off don't change the rest of a seeded order.
+ */
+export function chance(rate: number): boolean {
+  return rate > 0 && random() < rate;
+}
+
+/**
+ * Picks a value from a weighted distribution, drawing from the current order's generator
+ * unless another one is given
+ */
+export function pickWeighted<T>(values: WeightedValue<T>[], next: () => number = random): T {
+  const totalWeight = values.reduce((sum, entry) => sum + entry.weight, 0);
+  let target = next() * totalWeight;
+  
+  for (const entry of values) {
+    target -= entry.weight;
+    if (target < 0) return entry.value;
+  }
+  
+  // Floating point rounding can leave a tiny remainder; fall back to the last value with weight
+  return [...values].reverse().find(entry => entry.weight > 0)!.value;
+}
+
+/**
+ * Gives every value the same weight
+ */
+export function uniform<T>(values: T[]): WeightedValue<T>[] {
+  return values.map(value => ({ value, weight: 1 }));
+}
+
+/**
+ * Runs one order's work with a generator derived from the run seed and the order's number,
+ * so the same seed always produces the same order regardless of concurrency.
+ * Run-level work such as catalog fetches uses number 0.
+ */
+export function withOrderContext<T>(options: OrderGenerationOptions, index: number, fn: () => Promise<T>): Promise<T> {
+  return orderContext.run({
+    index,
+    random: createRandomGenerator(`${options.seed}:${index}`),
+    scenario: options.scenario,
+    locationId: null,
+    orderId: null,
+    queryCost: { requests: 0, requestedCost: 0, actualCost: 0 }
+  }, fn);
+}
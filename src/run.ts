@@ -0,0 +1,19 @@
+// Tag added to every generated order, and prefix of the tag identifying the run that created it
+export const GENERATED_ORDER_TAG = 'shopify-create-order';
+export const RUN_TAG_PREFIX = 'test-run:';
+
+/**
+ * Creates an ID for a run from the current time and a random suffix.
+ * Math.random is used so the run ID doesn't consume numbers from the seeded generator.
+ */
+export function createRunId(): string {
+  const timestamp = new Date().toISOString().replace(/[-:]/g, '').replace('T', '-').slice(0, 15);
+  return `${timestamp}-${Math.floor(Math.random() * 0x10000).toString(16).padStart(4, '0')}`;
+}
+
+/**
+ * Returns the tags that mark an order as generated by a run
+ */
+export function getRunTags(runId: string): string[] {
+  return [GENERATED_ORDER_TAG, `${RUN_TAG_PREFIX}${runId}`];
+}
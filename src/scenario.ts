@@ -0,0 +1,375 @@
+import * as fs from 'fs';
+
+import {
+  ADDRESS_COUNTRIES,
+  CUSTOMER_TYPES,
+  DISCOUNT_TYPES,
+  IntegerRange,
+  LIFECYCLE_ACTIONS,
+  ORDER_FULFILLMENT_STATUSES,
+  ORDER_PAYMENT_STATUSES,
+  Scenario,
+  SHIPPING_CARRIERS,
+  VolumeSpike,
+  WEEKDAYS,
+  WeightedValue
+} from './types';
+import { orderContext, uniform } from './random';
+import { parseHistoryDate } from './history';
+import { LOCALE_PACKS } from './locales';
+
+// Relative order volume for each hour of the day (UTC): quiet at night, busiest in the evening
+const DEFAULT_HOURLY_VOLUME = [1, 1, 1, 1, 1, 2, 3, 4, 5, 6, 7, 7, 8, 7, 7, 7, 7, 8, 9, 10, 9, 7, 4, 2];
+
+// Distributions used when no scenario file is given: every value is equally likely
+export const DEFAULT_SCENARIO: Scenario = {
+  paymentStatuses: uniform(ORDER_PAYMENT_STATUSES),
+  fulfillmentStatuses: uniform(ORDER_FULFILLMENT_STATUSES),
+  carriers: uniform(SHIPPING_CARRIERS),
+  tags: uniform([
+    'new-customer', 'returning-customer', 'high-value', 'subscription', 
+    'priority', 'gift', 'seasonal', 'promotion', 'wholesale', 'retail',
+    'international', 'domestic', 'expedited', 'custom-order', 'pre-order'
+  ]),
+  tagCount: { min: 0, max: 3 },
+  // Addresses are generated in the US unless a country mix is given
+  countries: [{ value: 'US', weight: 1 }],
+  // Orders go to existing customers unless new ones are requested
+  customerTypes: [{ value: 'new', weight: 0 }, { value: 'returning', weight: 1 }],
+  // Discounts, shipping charges and the other order details are only added when configured
+  orderDiscounts: [{ value: 'NONE', weight: 1 }],
+  lineItemDiscounts: [{ value: 'NONE', weight: 1 }],
+  discountPercentage: { min: 5, max: 30 },
+  discountAmount: { min: 1, max: 20 },
+  orderDetails: { shippingLine: 0, customLineItem: 0, note: 0, customAttributes: 0 },
+  // Completed orders are left alone unless refunds, cancellations or returns are requested
+  lifecycleActions: [{ value: 'NONE', weight: 1 }],
+  // Backdated orders are spread evenly over the days of the week
+  volumeCurve: {
+    weekdays: uniform(WEEKDAYS),
+    hours: DEFAULT_HOURLY_VOLUME.map((weight, hour) => ({ value: hour, weight })),
+    spikes: []
+  }
+};
+
+// Hours of the day as written in a scenario file's "history.hours"
+const HOURS = Array.from({ length: 24 }, (_, hour) => String(hour));
+
+/**
+ * Returns the scenario of the order being created, or the default scenario outside of an order
+ */
+export function currentScenario(): Scenario {
+  return orderContext.getStore()?.scenario ?? DEFAULT_SCENARIO;
+}
+
+/**
+ * Error raised when a scenario file cannot be read or fails validation
+ */
+export class ScenarioError extends Error {
+  readonly problems: string[];
+  
+  constructor(path: string, problems: string[]) {
+    super(`Invalid scenario file ${path}:\n${problems.map(problem => `  - ${problem}`).join('\n')}`);
+    this.name = 'ScenarioError';
+    this.problems = problems;
+  }
+}
+
+/**
+ * Checks whether a value is a plain JSON object
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Validates a `{ "VALUE": weight }` map, optionally restricted to allowed values.
+ * Problems are appended to `problems`; returns undefined when the map is invalid.
+ */
+function parseWeightMap<T extends string>(
+  problems: string[],
+  path: string,
+  raw: unknown,
+  allowed?: readonly T[]
+): WeightedValue<T>[] | undefined {
+  if (!isPlainObject(raw)) {
+    problems.push(`${path} must be an object mapping values to weights`);
+    return undefined;
+  }
+  
+  const entries: WeightedValue<T>[] = [];
+  const startingProblems = problems.length;
+  
+  for (const [value, weight] of Object.entries(raw)) {
+    if (allowed && !allowed.includes(value as T)) {
+      problems.push(`${path}.${value} is not a valid value (expected one of ${allowed.join(', ')})`);
+    } else if (typeof weight !== 'number' || !Number.isFinite(weight) || weight < 0) {
+      problems.push(`${path}.${value} must be a non-negative number (got ${JSON.stringify(weight)})`);
+    } else {
+      entries.push({ value: value as T, weight });
+    }
+  }
+  
+  if (problems.length === startingProblems && !entries.some(entry => entry.weight > 0)) {
+    problems.push(`${path} must contain at least one value with a positive weight`);
+  }
+  
+  return problems.length === startingProblems ? entries : undefined;
+}
+
+/**
+ * Validates a `{ "min": N, "max": M }` range of whole numbers no smaller than `lowest`
+ */
+function parseRange(problems: string[], path: string, raw: unknown, lowest: number): IntegerRange | undefined {
+  if (
+    !isPlainObject(raw) ||
+    !Number.isInteger(raw.min) || !Number.isInteger(raw.max) ||
+    (raw.min as number) < lowest || (raw.max as number) < (raw.min as number)
+  ) {
+    problems.push(`${path} must be { "min": N, "max": M } with ${lowest} <= N <= M`);
+    return undefined;
+  }
+  return { min: raw.min as number, max: raw.max as number };
+}
+
+/**
+ * Validates a probability between 0 and 1
+ */
+function parseRate(problems: string[], path: string, raw: unknown): number | undefined {
+  if (typeof raw !== 'number' || !(raw >= 0 && raw <= 1)) {
+    problems.push(`${path} must be a number from 0 to 1 (got ${JSON.stringify(raw)})`);
+    return undefined;
+  }
+  return raw;
+}
+
+/**
+ * Validates the list of `{ "name", "code", "cities", "weight" }` states in a scenario. A state
+ * that isn't in the US locale pack must list its cities, since the pack has none for it.
+ */
+function parseWeightedStates(problems: string[], path: string, raw: unknown): NonNullable<Scenario['states']> | undefined {
+  if (!Array.isArray(raw) || raw.length === 0) {
+    problems.push(`${path} must be a non-empty array of { "name", "code", "weight" } objects`);
+    return undefined;
+  }
+  
+  const startingProblems = problems.length;
+  const states = raw.map((entry, index) => {
+    const entryPath = `${path}[${index}]`;
+    if (!isPlainObject(entry) || typeof entry.name !== 'string' || typeof entry.code !== 'string') {
+      problems.push(`${entryPath} must have string "name" and "code" fields`);
+      return null;
+    }
+    
+    const weight = entry.weight === undefined ? 1 : entry.weight;
+    if (typeof weight !== 'number' || !Number.isFinite(weight) || weight < 0) {
+      problems.push(`${entryPath}.weight must be a non-negative number (got ${JSON.stringify(weight)})`);
+      return null;
+    }
+    
+    const cities = entry.cities;
+    if (cities === undefined) {
+      if (!LOCALE_PACKS.US.regions.some(region => region.code === entry.code)) {
+        problems.push(`${entryPath}.cities is required, since the US locale pack has no cities for ${entry.code}`);
+        return null;
+      }
+      return { value: { name: entry.name, code: entry.code }, weight };
+    }
+    if (!Array.isArray(cities) || cities.length === 0 || !cities.every(city => typeof city === 'string' && city.length > 0)) {
+      problems.push(`${entryPath}.cities must be a non-empty array of city names`);
+      return null;
+    }
+    return { value: { name: entry.name, code: entry.code, cities: cities as string[] }, weight };
+  });
+  
+  if (problems.length > startingProblems) return undefined;
+  
+  const validStates = states as NonNullable<Scenario['states']>;
+  if (!validStates.some(state => state.weight > 0)) {
+    problems.push(`${path} must contain at least one state with a positive weight`);
+    return undefined;
+  }
+  return validStates;
+}
+
+/**
+ * Validates the list of `{ "from", "to", "multiplier" }` volume spikes in a scenario
+ */
+function parseVolumeSpikes(problems: string[], path: string, raw: unknown): VolumeSpike[] | undefined {
+  if (!Array.isArray(raw)) {
+    problems.push(`${path} must be an array of { "from", "to", "multiplier" } objects`);
+    return undefined;
+  }
+  
+  const startingProblems = problems.length;
+  const spikes = raw.map((entry, index): VolumeSpike | null => {
+    const entryPath = `${path}[${index}]`;
+    if (!isPlainObject(entry) || typeof entry.from !== 'string' || typeof entry.to !== 'string') {
+      problems.push(`${entryPath} must have "from" and "to" dates (YYYY-MM-DD)`);
+      return null;
+    }
+    
+    const from = parseHistoryDate(entry.from);
+    const to = parseHistoryDate(entry.to);
+    if (from === null || to === null || from > to) {
+      problems.push(`${entryPath} must have valid "from" and "to" dates (YYYY-MM-DD) with "from" no later than "to"`);
+      return null;
+    }
+    if (typeof entry.multiplier !== 'number' || !Number.isFinite(entry.multiplier) || entry.multiplier < 0) {
+      problems.push(`${entryPath}.multiplier must be a non-negative number (got ${JSON.stringify(entry.multiplier)})`);
+      return null;
+    }
+    return { from: entry.from, to: entry.to, multiplier: entry.multiplier };
+  });
+  
+  return problems.length === startingProblems ? spikes as VolumeSpike[] : undefined;
+}
+
+/**
+ * Reads and validates a JSON scenario file. Sections that are left out keep their defaults.
+ */
+export function loadScenario(path: string): Scenario {
+  let raw: unknown;
+  
+  try {
+    raw = JSON.parse(fs.readFileSync(path, 'utf8'));
+  } catch (error) {
+    throw new ScenarioError(path, [error instanceof Error ? error.message : 'Unable to read file']);
+  }
+  
+  if (!isPlainObject(raw)) {
+    throw new ScenarioError(path, ['The scenario must be a JSON object']);
+  }
+  
+  const problems: string[] = [];
+  const scenario: Scenario = { ...DEFAULT_SCENARIO };
+  const knownKeys = ['paymentStatus', 'fulfillmentStatus', 'carrier', 'tags', 'address', 'customers', 'discounts', 'orderDetails', 'lifecycle', 'history'];
+  
+  for (const key of Object.keys(raw)) {
+    if (!knownKeys.includes(key)) {
+      problems.push(`Unknown section "${key}" (expected one of ${knownKeys.join(', ')})`);
+    }
+  }
+  
+  if (raw.paymentStatus !== undefined) {
+    scenario.paymentStatuses = parseWeightMap(problems, 'paymentStatus', raw.paymentStatus, ORDER_PAYMENT_STATUSES) ?? scenario.paymentStatuses;
+  }
+  
+  if (raw.fulfillmentStatus !== undefined) {
+    scenario.fulfillmentStatuses = parseWeightMap(problems, 'fulfillmentStatus', raw.fulfillmentStatus, ORDER_FULFILLMENT_STATUSES) ?? scenario.fulfillmentStatuses;
+  }
+  
+  if (raw.carrier !== undefined) {
+    scenario.carriers = parseWeightMap(problems, 'carrier', raw.carrier, SHIPPING_CARRIERS) ?? scenario.carriers;
+  }
+  
+  if (raw.tags !== undefined) {
+    if (!isPlainObject(raw.tags)) {
+      problems.push('tags must be an object with "weights" and/or "count"');
+    } else {
+      if (raw.tags.weights !== undefined) {
+        scenario.tags = parseWeightMap(problems, 'tags.weights', raw.tags.weights) ?? scenario.tags;
+      }
+      if (raw.tags.count !== undefined) {
+        scenario.tagCount = parseRange(problems, 'tags.count', raw.tags.count, 0) ?? scenario.tagCount;
+      }
+    }
+  }
+  
+  if (raw.address !== undefined) {
+    if (!isPlainObject(raw.address)) {
+      problems.push('address must be an object with "countries", "cities", "streets" and/or "states"');
+    } else {
+      if (raw.address.countries !== undefined) {
+        scenario.countries = parseWeightMap(problems, 'address.countries', raw.address.countries, ADDRESS_COUNTRIES) ?? scenario.countries;
+        scenario.restrictToCountries = true;
+      }
+      if (raw.address.cities !== undefined && raw.address.states !== undefined) {
+        // Cities picked apart from their state would end up in the wrong one
+        problems.push('address.cities can\'t be combined with address.states; list each state\'s cities in its "cities" instead');
+      } else if (raw.address.cities !== undefined) {
+        const usCities = LOCALE_PACKS.US.regions.flatMap(region => region.cities.map(city => city.name));
+        scenario.cities = parseWeightMap(problems, 'address.cities', raw.address.cities, usCities) ?? scenario.cities;
+      }
+      if (raw.address.streets !== undefined) {
+        scenario.streets = parseWeightMap(problems, 'address.streets', raw.address.streets) ?? scenario.streets;
+      }
+      if (raw.address.states !== undefined) {
+        scenario.states = parseWeightedStates(problems, 'address.states', raw.address.states) ?? scenario.states;
+      }
+    }
+  }
+  
+  if (raw.customers !== undefined) {
+    scenario.customerTypes = parseWeightMap(problems, 'customers', raw.customers, CUSTOMER_TYPES) ?? scenario.customerTypes;
+  }
+  
+  if (raw.discounts !== undefined) {
+    if (!isPlainObject(raw.discounts)) {
+      problems.push('discounts must be an object with "order", "lineItem", "percentage" and/or "fixedAmount"');
+    } else {
+      if (raw.discounts.order !== undefined) {
+        scenario.orderDiscounts = parseWeightMap(problems, 'discounts.order', raw.discounts.order, DISCOUNT_TYPES) ?? scenario.orderDiscounts;
+      }
+      if (raw.discounts.lineItem !== undefined) {
+        scenario.lineItemDiscounts = parseWeightMap(problems, 'discounts.lineItem', raw.discounts.lineItem, DISCOUNT_TYPES) ?? scenario.lineItemDiscounts;
+      }
+      if (raw.discounts.percentage !== undefined) {
+        const percentage = parseRange(problems, 'discounts.percentage', raw.discounts.percentage, 1);
+        if (percentage && percentage.max > 100) {
+          problems.push('discounts.percentage.max must be at most 100');
+        } else {
+          scenario.discountPercentage = percentage ?? scenario.discountPercentage;
+        }
+      }
+      if (raw.discounts.fixedAmount !== undefined) {
+        scenario.discountAmount = parseRange(problems, 'discounts.fixedAmount', raw.discounts.fixedAmount, 1) ?? scenario.discountAmount;
+      }
+    }
+  }
+  
+  if (raw.orderDetails !== undefined) {
+    if (!isPlainObject(raw.orderDetails)) {
+      problems.push('orderDetails must be an object mapping details to the chance (0-1) of adding them');
+    } else {
+      const orderDetails = { ...scenario.orderDetails };
+      for (const [key, value] of Object.entries(raw.orderDetails)) {
+        if (!(key in orderDetails)) {
+          problems.push(`orderDetails.${key} is not a valid detail (expected one of ${Object.keys(orderDetails).join(', ')})`);
+        } else {
+          orderDetails[key as keyof typeof orderDetails] = parseRate(problems, `orderDetails.${key}`, value) ?? 0;
+        }
+      }
+      scenario.orderDetails = orderDetails;
+    }
+  }
+  
+  if (raw.lifecycle !== undefined) {
+    scenario.lifecycleActions = parseWeightMap(problems, 'lifecycle', raw.lifecycle, LIFECYCLE_ACTIONS) ?? scenario.lifecycleActions;
+  }
+  
+  if (raw.history !== undefined) {
+    if (!isPlainObject(raw.history)) {
+      problems.push('history must be an object with "weekdays", "hours" and/or "spikes"');
+    } else {
+      const volumeCurve = { ...scenario.volumeCurve };
+      if (raw.history.weekdays !== undefined) {
+        volumeCurve.weekdays = parseWeightMap(problems, 'history.weekdays', raw.history.weekdays, WEEKDAYS) ?? volumeCurve.weekdays;
+      }
+      if (raw.history.hours !== undefined) {
+        const hours = parseWeightMap(problems, 'history.hours', raw.history.hours, HOURS);
+        volumeCurve.hours = hours?.map(entry => ({ value: Number(entry.value), weight: entry.weight })) ?? volumeCurve.hours;
+      }
+      if (raw.history.spikes !== undefined) {
+        volumeCurve.spikes = parseVolumeSpikes(problems, 'history.spikes', raw.history.spikes) ?? volumeCurve.spikes;
+      }
+      scenario.volumeCurve = volumeCurve;
+    }
+  }
+  
+  if (problems.length > 0) {
+    throw new ScenarioError(path, problems);
+  }
+  
+  return scenario;
+}
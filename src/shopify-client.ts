@@ -0,0 +1,290 @@
+import axios from 'axios';
+
+import {
+  GraphQLErrorDetail,
+  GraphQLResponse,
+  GraphQLResult,
+  PageInfo,
+  QueryCost,
+  QueryCostTotals,
+  ShopifyClient,
+  ShopifyClientConfig
+} from './types';
+import { log, warn } from './log';
+import { orderContext } from './random';
+import { TypedDocumentString } from './generated/admin';
+
+// Admin API version used when none is configured. Operation types are generated from the schema
+// snapshot of this version (see codegen.ts).
+const DEFAULT_API_VERSION = '2026-10';
+
+// Retry settings for GraphQL requests
+const MAX_REQUEST_ATTEMPTS = 5;
+const RETRY_BASE_DELAY_MS = 1000;
+const RETRY_MAX_DELAY_MS = 30000;
+
+// Minimum query cost budget to keep available before sending a request
+const MIN_AVAILABLE_QUERY_COST = 50;
+
+/**
+ * Error raised when Shopify returns top-level GraphQL errors
+ */
+export class ShopifyGraphQLError extends Error {
+  readonly errors: GraphQLErrorDetail[];
+  
+  constructor(errors: GraphQLErrorDetail[]) {
+    super(`GraphQL request failed: ${errors.map(error => error.message).join('; ')}`);
+    this.name = 'ShopifyGraphQLError';
+    this.errors = errors;
+  }
+}
+
+/**
+ * Error raised when a request is still throttled after all retries
+ */
+export class ShopifyThrottledError extends ShopifyGraphQLError {
+  constructor(errors: GraphQLErrorDetail[]) {
+    super(errors);
+    this.name = 'ShopifyThrottledError';
+  }
+}
+
+/**
+ * Error raised when Shopify responds with a non-success HTTP status
+ */
+export class ShopifyHttpError extends Error {
+  readonly status: number;
+  readonly body: unknown;
+  
+  constructor(status: number, body: unknown) {
+    super(`GraphQL request failed with HTTP ${status}: ${JSON.stringify(body)}`);
+    this.name = 'ShopifyHttpError';
+    this.status = status;
+    this.body = body;
+  }
+}
+
+/**
+ * Creates a client for a shop's Admin API
+ */
+export function createShopifyClient(config: ShopifyClientConfig): ShopifyClient {
+  return {
+    shopUrl: config.shopUrl,
+    accessToken: config.accessToken,
+    apiVersion: config.apiVersion ?? DEFAULT_API_VERSION,
+    apiBaseUrl: (config.apiBaseUrl ?? `https://${config.shopUrl}`).replace(/\/+$/, ''),
+    queryCostUsage: {
+      requests: 0,
+      requestedCost: 0,
+      actualCost: 0,
+      lastRequestedCost: 0,
+      throttleStatus: null,
+      throttleStatusAt: 0
+    }
+  };
+}
+
+/**
+ * Records the cost information returned in a response's extensions,
+ * for the client and for the order being created
+ */
+function recordQueryCost(client: ShopifyClient, cost: QueryCost | undefined): void {
+  const queryCostUsage = client.queryCostUsage;
+  const orderQueryCost = orderContext.getStore()?.queryCost;
+  
+  queryCostUsage.requests++;
+  if (orderQueryCost) orderQueryCost.requests++;
+  if (!cost) return;
+  
+  queryCostUsage.requestedCost += cost.requestedQueryCost;
+  queryCostUsage.actualCost += cost.actualQueryCost ?? 0;
+  if (orderQueryCost) {
+    orderQueryCost.requestedCost += cost.requestedQueryCost;
+    orderQueryCost.actualCost += cost.actualQueryCost ?? 0;
+  }
+  queryCostUsage.lastRequestedCost = cost.requestedQueryCost;
+  queryCostUsage.throttleStatus = cost.throttleStatus;
+  queryCostUsage.throttleStatusAt = Date.now();
+}
+
+/**
+ * Estimates how long to wait until the bucket has restored enough points for the next request
+ */
+function getQueryBudgetDelay(client: ShopifyClient): number {
+  const queryCostUsage = client.queryCostUsage;
+  const throttleStatus = queryCostUsage.throttleStatus;
+  if (!throttleStatus || throttleStatus.restoreRate <= 0) return 0;
+  
+  const elapsedSeconds = (Date.now() - queryCostUsage.throttleStatusAt) / 1000;
+  const available = Math.min(
+    throttleStatus.maximumAvailable,
+    throttleStatus.currentlyAvailable + elapsedSeconds * throttleStatus.restoreRate
+  );
+  const needed = Math.min(
+    throttleStatus.maximumAvailable,
+    Math.max(MIN_AVAILABLE_QUERY_COST, queryCostUsage.lastRequestedCost)
+  );
+  
+  if (available >= needed) return 0;
+  return Math.ceil(((needed - available) / throttleStatus.restoreRate) * 1000);
+}
+
+/**
+ * Computes an exponential backoff delay with jitter for a retry attempt.
+ * Jitter uses Math.random so retries never consume numbers from the seeded generator.
+ */
+function getRetryDelay(attempt: number): number {
+  const exponential = Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** (attempt - 1));
+  return Math.round(exponential / 2 + Math.random() * exponential / 2);
+}
+
+/**
+ * Tells whether a GraphQL document is a mutation
+ */
+function isMutation(query: string): boolean {
+  return /^\s*mutation\b/.test(query);
+}
+
+/**
+ * Waits for the given number of milliseconds
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Returns a summary line of the query cost used so far through a client
+ */
+export function formatQueryCostUsage(client: ShopifyClient): string {
+  const queryCostUsage = client.queryCostUsage;
+  return `${queryCostUsage.requests} requests, ${queryCostUsage.actualCost} actual / ${queryCostUsage.requestedCost} requested query cost`;
+}
+
+/**
+ * Returns the query cost used so far through a client
+ */
+export function getQueryCostTotals(client: ShopifyClient): QueryCostTotals {
+  const { requests, requestedCost, actualCost } = client.queryCostUsage;
+  return { requests, requestedCost, actualCost };
+}
+
+/**
+ * Makes a GraphQL request to Shopify.
+ * Waits for query cost budget before sending, retries HTTP 429 and THROTTLED responses with
+ * backoff, and raises typed errors for top-level GraphQL errors. Queries are also retried on
+ * HTTP 5xx and network errors; mutations aren't, since Shopify may have applied them already
+ * and sending them again could create duplicate orders or payments.
+ * Responses to the generated documents in ./generated/admin are typed by their operation.
+ */
+export async function makeShopifyGraphQLRequest<TResult, TVariables>(
+  client: ShopifyClient,
+  document: TypedDocumentString<TResult, TVariables>,
+  variables?: TVariables
+): Promise<GraphQLResult<TResult>>;
+export async function makeShopifyGraphQLRequest(
+  client: ShopifyClient,
+  document: TypedDocumentString<unknown, unknown>,
+  variables?: unknown
+): Promise<GraphQLResult<unknown>> {
+  const query = document.toString();
+  const mutation = isMutation(query);
+  
+  for (let attempt = 1; ; attempt++) {
+    const budgetDelay = getQueryBudgetDelay(client);
+    if (budgetDelay > 0) {
+      log(`Waiting ${budgetDelay}ms for query cost budget to restore...`);
+      await sleep(budgetDelay);
+    }
+    
+    let body: GraphQLResponse;
+    
+    try {
+      const response = await axios({
+        url: `${client.apiBaseUrl}/admin/api/${client.apiVersion}/graphql.json`,
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Shopify-Access-Token': client.accessToken
+        },
+        data: { 
+          query,
+          variables
+        }
+      });
+      body = response.data;
+    } catch (error) {
+      if (!axios.isAxiosError(error)) {
+        throw error;
+      }
+      
+      const status = error.response?.status;
+      const retryable = status === 429 || (!mutation && (status === undefined || status >= 500));
+      
+      if (!retryable || attempt >= MAX_REQUEST_ATTEMPTS) {
+        if (error.response) {
+          throw new ShopifyHttpError(error.response.status, error.response.data);
+        }
+        throw error;
+      }
+      
+      // Honor Retry-After (in seconds) when Shopify sends it
+      const retryAfter = Number(error.response?.headers?.['retry-after']);
+      const delay = retryAfter > 0 ? retryAfter * 1000 : getRetryDelay(attempt);
+      warn(`GraphQL request failed (${status ?? error.code ?? 'network error'}), retrying in ${delay}ms (attempt ${attempt}/${MAX_REQUEST_ATTEMPTS})`);
+      await sleep(delay);
+      continue;
+    }
+    
+    recordQueryCost(client, body.extensions?.cost);
+    
+    if (!body.errors || body.errors.length === 0) {
+      return { data: body.data };
+    }
+    
+    const throttled = body.errors.some(error => error.extensions?.code === 'THROTTLED');
+    
+    if (!throttled) {
+      throw new ShopifyGraphQLError(body.errors);
+    }
+    
+    if (attempt >= MAX_REQUEST_ATTEMPTS) {
+      throw new ShopifyThrottledError(body.errors);
+    }
+    
+    // Wait for the bucket to restore when we know its state, otherwise back off
+    const delay = Math.max(getQueryBudgetDelay(client), getRetryDelay(attempt));
+    warn(`GraphQL request throttled, retrying in ${delay}ms (attempt ${attempt}/${MAX_REQUEST_ATTEMPTS})`);
+    await sleep(delay);
+  }
+}
+
+/**
+ * Follows cursor pagination for a connection until the last page or the page cap is reached
+ */
+export async function fetchAllPages<T, TResult, TVariables extends { after?: string | null }>(
+  client: ShopifyClient,
+  label: string,
+  document: TypedDocumentString<TResult, TVariables>,
+  variables: Omit<TVariables, 'after'>,
+  getConnection: (response: GraphQLResult<TResult>) => { edges: { node: T }[], pageInfo: PageInfo } | undefined,
+  maxPages: number
+): Promise<T[]> {
+  const nodes: T[] = [];
+  let after: string | null = null;
+  
+  for (let page = 1; page <= maxPages; page++) {
+    const response = await makeShopifyGraphQLRequest(client, document, { ...variables, after } as TVariables);
+    const connection = getConnection(response);
+    if (!connection) break;
+    
+    nodes.push(...connection.edges.map(edge => edge.node));
+    
+    if (!connection.pageInfo.hasNextPage || !connection.pageInfo.endCursor) {
+      return nodes;
+    }
+    after = connection.pageInfo.endCursor;
+  }
+  
+  log(`Stopped fetching ${label} after ${maxPages} pages (${nodes.length} loaded); more are available`);
+  return nodes;
+}
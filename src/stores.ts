@@ -0,0 +1,193 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { StoreProfile, TokenSource } from './types';
+
+// Stores file read when STORES_FILE doesn't name another one
+export const DEFAULT_STORES_FILE = 'stores.json';
+
+/**
+ * Error raised when the stores file cannot be read or fails validation
+ */
+export class StoreConfigError extends Error {
+  readonly problems: string[];
+  
+  constructor(file: string, problems: string[]) {
+    super(`Invalid stores file ${file}:\n${problems.map(problem => `  - ${problem}`).join('\n')}`);
+    this.name = 'StoreConfigError';
+    this.problems = problems;
+  }
+}
+
+/**
+ * Error raised when a command would write to a store that isn't allowlisted for writes
+ */
+export class StoreWriteError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StoreWriteError';
+  }
+}
+
+/**
+ * Checks whether a value is a plain JSON object
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Reduces a shop URL to its domain, so `https://Shop.myshopify.com/` matches `shop.myshopify.com`
+ */
+export function normalizeShopDomain(shopUrl: string): string {
+  return shopUrl.trim().toLowerCase().replace(/^https?:\/\//, '').replace(/\/+$/, '');
+}
+
+/**
+ * Validates a `{ "env": NAME }` or `{ "file": PATH }` token source
+ */
+function parseTokenSource(problems: string[], path: string, raw: unknown): TokenSource | undefined {
+  if (isPlainObject(raw) && Object.keys(raw).length === 1) {
+    if (typeof raw.env === 'string' && raw.env.length > 0) return { env: raw.env };
+    if (typeof raw.file === 'string' && raw.file.length > 0) return { file: raw.file };
+  }
+  // Tokens themselves don't belong in a file that is shared between people
+  problems.push(`${path} must be { "env": "VARIABLE_NAME" } or { "file": "path/to/token" }`);
+  return undefined;
+}
+
+/**
+ * Reads and validates the stores file. Relative scenario and token file paths are resolved
+ * against the stores file's directory.
+ */
+export function loadStoreProfiles(file: string): StoreProfile[] {
+  let raw: unknown;
+  
+  try {
+    raw = JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch (error) {
+    throw new StoreConfigError(file, [error instanceof Error ? error.message : 'Unable to read file']);
+  }
+  
+  if (!isPlainObject(raw) || !isPlainObject(raw.stores)) {
+    throw new StoreConfigError(file, ['The stores file must be a JSON object with a "stores" object keyed by profile name']);
+  }
+  
+  const problems: string[] = [];
+  const profiles: StoreProfile[] = [];
+  const directory = path.dirname(file);
+  const knownKeys = ['shopUrl', 'token', 'apiVersion', 'scenario', 'allowWrites'];
+  
+  for (const [name, entry] of Object.entries(raw.stores)) {
+    const entryPath = `stores.${name}`;
+    if (!isPlainObject(entry)) {
+      problems.push(`${entryPath} must be an object`);
+      continue;
+    }
+    
+    const startingProblems = problems.length;
+    for (const key of Object.keys(entry)) {
+      if (!knownKeys.includes(key)) {
+        problems.push(`${entryPath}.${key} is not a known setting (expected one of ${knownKeys.join(', ')})`);
+      }
+    }
+    if (typeof entry.shopUrl !== 'string' || !/^[a-z0-9][a-z0-9-]*\.myshopify\.com$/.test(normalizeShopDomain(entry.shopUrl))) {
+      problems.push(`${entryPath}.shopUrl must be a shop domain like my-store.myshopify.com`);
+    }
+    const token = parseTokenSource(problems, `${entryPath}.token`, entry.token);
+    if (entry.apiVersion !== undefined && (typeof entry.apiVersion !== 'string' || !/^\d{4}-\d{2}$/.test(entry.apiVersion))) {
+      problems.push(`${entryPath}.apiVersion must be a version like 2025-04 (got ${JSON.stringify(entry.apiVersion)})`);
+    }
+    if (entry.scenario !== undefined && (typeof entry.scenario !== 'string' || entry.scenario.length === 0)) {
+      problems.push(`${entryPath}.scenario must be the path of a scenario file`);
+    }
+    if (entry.allowWrites !== undefined && typeof entry.allowWrites !== 'boolean') {
+      problems.push(`${entryPath}.allowWrites must be true or false (got ${JSON.stringify(entry.allowWrites)})`);
+    }
+    if (problems.length > startingProblems || !token) continue;
+    
+    profiles.push({
+      name,
+      shopUrl: normalizeShopDomain(entry.shopUrl as string),
+      token: 'file' in token ? { file: path.resolve(directory, token.file) } : token,
+      apiVersion: entry.apiVersion as string | undefined,
+      scenarioPath: entry.scenario !== undefined ? path.resolve(directory, entry.scenario as string) : undefined,
+      // Writes are off unless a profile opts in
+      allowWrites: entry.allowWrites === true
+    });
+  }
+  
+  if (problems.length === 0 && profiles.length === 0) {
+    problems.push('stores must contain at least one profile');
+  }
+  
+  if (problems.length > 0) {
+    throw new StoreConfigError(file, problems);
+  }
+  
+  return profiles;
+}
+
+/**
+ * Finds a profile by name, listing the configured profiles when there is none by that name
+ */
+export function findStoreProfile(profiles: StoreProfile[], name: string): StoreProfile {
+  const profile = profiles.find(profile => profile.name === name);
+  if (!profile) {
+    throw new Error(`Unknown store "${name}" (configured stores: ${profiles.map(profile => profile.name).join(', ')})`);
+  }
+  return profile;
+}
+
+/**
+ * Reads a profile's access token from its environment variable or file
+ */
+export function readStoreAccessToken(profile: StoreProfile): string {
+  let token: string | undefined;
+  let source: string;
+  
+  if ('env' in profile.token) {
+    source = `environment variable ${profile.token.env}`;
+    token = process.env[profile.token.env];
+  } else {
+    source = `file ${profile.token.file}`;
+    try {
+      token = fs.readFileSync(profile.token.file, 'utf8');
+    } catch (error) {
+      throw new Error(`Unable to read the access token for store "${profile.name}" from ${source}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+  
+  token = token?.trim();
+  if (!token) {
+    throw new Error(`The access token for store "${profile.name}" is missing: set ${source}`);
+  }
+  return token;
+}
+
+/**
+ * Refuses writes to a shop unless a profile for it allows them. `profile` is the store selected
+ * with --store; without one, the shop must match an allowlisted profile in the stores file.
+ * `allowUnlisted` lets writes through to a shop that has no profile at all, never to one whose
+ * profile leaves writes off.
+ */
+export function assertWritesAllowed(shopUrl: string, profiles: StoreProfile[], profile: StoreProfile | null, allowUnlisted = false): void {
+  if (profile) {
+    if (!profile.allowWrites) {
+      throw new StoreWriteError(`Store "${profile.name}" (${profile.shopUrl}) is not allowlisted for writes; set "allowWrites": true in its profile to create or remove orders there`);
+    }
+    return;
+  }
+  
+  const domain = normalizeShopDomain(shopUrl);
+  const listed = profiles.filter(candidate => candidate.shopUrl === domain);
+  if (listed.some(candidate => candidate.allowWrites)) {
+    return;
+  }
+  if (listed.length > 0) {
+    throw new StoreWriteError(`${domain} is not allowlisted for writes; set "allowWrites": true in its profile (${listed.map(candidate => candidate.name).join(', ')}) to create or remove orders there`);
+  }
+  if (!allowUnlisted) {
+    throw new StoreWriteError(`${domain} is not in the stores file; add a profile for it with "allowWrites": true, or pass --allow-unlisted-store to write to it anyway`);
+  }
+}
@@ -0,0 +1,810 @@
+import { CountryCode, CurrencyCode } from './generated/admin';
+
+// Define interfaces for Shopify GraphQL response types
+export interface Money {
+  amount: string;
+  currencyCode: CurrencyCode;
+}
+
+export interface MoneyInput {
+  amount: number;
+  currencyCode: CurrencyCode;
+}
+
+export interface Customer {
+  id: string;
+  firstName: string | null;
+  lastName: string | null;
+  email: string | null;
+  // Shopify serializes this count as a string
+  numberOfOrders?: string;
+  defaultAddress?: Address | null;
+}
+
+export interface CustomerEdge {
+  node: Customer;
+}
+
+export interface CustomerConnection {
+  edges: CustomerEdge[];
+}
+
+export interface ProductVariant {
+  id: string;
+  title: string;
+  price: string;
+  // Available units summed over every location
+  inventoryQuantity: number | null;
+  // CONTINUE keeps selling when the variant is out of stock
+  inventoryPolicy: 'DENY' | 'CONTINUE';
+  sku: string | null;
+  inventoryItem: InventoryItem;
+}
+
+// Inventory item of a variant, with its stock at each location it is stocked at
+export interface InventoryItem {
+  tracked: boolean;
+  inventoryLevels: {
+    edges: { node: InventoryLevel }[];
+  };
+}
+
+// Stock of an inventory item at one location
+export interface InventoryLevel {
+  location: {
+    id: string;
+  };
+  quantities: { name: string, quantity: number }[];
+}
+
+export interface ProductVariantEdge {
+  node: ProductVariant;
+}
+
+export interface ProductVariantConnection {
+  edges: ProductVariantEdge[];
+}
+
+export interface Product {
+  id: string;
+  title: string;
+  variants: ProductVariantConnection;
+}
+
+export interface ProductEdge {
+  node: Product;
+}
+
+export interface ProductConnection {
+  edges: ProductEdge[];
+}
+
+export interface PageInfo {
+  hasNextPage: boolean;
+  endCursor: string | null;
+}
+
+export interface ProductVariantWithProduct extends ProductVariant {
+  product: {
+    id: string;
+    title: string;
+  };
+}
+
+export interface GeneratedOrder {
+  id: string;
+  name: string;
+  createdAt: string;
+  cancelledAt: string | null;
+  tags: string[];
+}
+
+export interface GeneratedDraftOrder {
+  id: string;
+  name: string;
+  createdAt: string;
+  tags: string[];
+}
+
+export interface GeneratedCustomer {
+  id: string;
+  displayName: string;
+  email: string | null;
+  createdAt: string;
+  numberOfOrders: string;
+  tags: string[];
+}
+
+export interface TrackingInfo {
+  number: string;
+  url: string;
+  company: string;
+}
+
+export interface FulfillmentOrderLineItem {
+  id: string;
+  remainingQuantity: number;
+  totalQuantity: number;
+}
+
+export interface FulfillmentOrder {
+  id: string;
+  status: string;
+  assignedLocation: {
+    location: { id: string } | null;
+  };
+  lineItems: {
+    edges: { node: FulfillmentOrderLineItem }[];
+  };
+}
+
+export interface ThrottleStatus {
+  maximumAvailable: number;
+  currentlyAvailable: number;
+  restoreRate: number;
+}
+
+export interface QueryCost {
+  requestedQueryCost: number;
+  actualQueryCost: number | null;
+  throttleStatus: ThrottleStatus;
+}
+
+export interface GraphQLErrorDetail {
+  message: string;
+  path?: (string | number)[];
+  extensions?: {
+    code?: string;
+    [key: string]: unknown;
+  };
+}
+
+export interface GraphQLResponse {
+  data?: unknown;
+  errors?: GraphQLErrorDetail[];
+  extensions?: {
+    cost?: QueryCost;
+  };
+}
+
+// Response to a generated operation that returned no errors
+export interface GraphQLResult<T> {
+  data: T;
+}
+
+export interface Address {
+  address1?: string | null;
+  address2?: string | null;
+  city?: string | null;
+  province?: string | null;
+  provinceCode?: string | null;
+  zip?: string | null;
+  country?: string | null;
+  countryCode?: CountryCode | null;
+  phone?: string | null;
+  firstName?: string | null;
+  lastName?: string | null;
+  company?: string | null;
+}
+
+// Payment status types for Shopify orders
+export type OrderPaymentStatus = 'PAID' | 'PENDING' | 'PARTIALLY_PAID' | 'UNPAID';
+export const ORDER_PAYMENT_STATUSES: OrderPaymentStatus[] = ['PAID', 'PENDING', 'PARTIALLY_PAID', 'UNPAID'];
+
+// Fulfillment status types for Shopify orders
+export type OrderFulfillmentStatus = 'FULFILLED' | 'PARTIALLY_FULFILLED' | 'UNFULFILLED' | 'PENDING_FULFILLMENT' | 'RESTOCKED';
+export const ORDER_FULFILLMENT_STATUSES: OrderFulfillmentStatus[] = [
+  'FULFILLED',
+  'PARTIALLY_FULFILLED',
+  'UNFULFILLED',
+  'PENDING_FULFILLMENT',
+  'RESTOCKED'
+];
+
+// Delivery status types
+export type DeliveryStatus = 'IN_TRANSIT' | 'OUT_FOR_DELIVERY' | 'ATTEMPTED_DELIVERY' | 'DELIVERED' | 'DELAYED' | 'NOT_SHIPPED';
+
+// Shipping carriers
+export type ShippingCarrier = 'UPS' | 'USPS' | 'FEDEX' | 'DHL' | 'ONTRAC';
+export const SHIPPING_CARRIERS: ShippingCarrier[] = ['UPS', 'USPS', 'FEDEX', 'DHL', 'ONTRAC'];
+
+// Discounts applied to draft orders and their line items
+export type DiscountType = 'NONE' | 'PERCENTAGE' | 'FIXED_AMOUNT';
+export const DISCOUNT_TYPES: DiscountType[] = ['NONE', 'PERCENTAGE', 'FIXED_AMOUNT'];
+
+// A discount on a draft order or line item; `value` is a percentage or an amount in the shop currency
+export interface AppliedDiscount {
+  title: string;
+  description: string;
+  valueType: Exclude<DiscountType, 'NONE'>;
+  value: number;
+}
+
+// Shipping charge added to a draft order, for the carrier that ships it
+export interface ShippingLine {
+  carrier: ShippingCarrier;
+  title: string;
+  price: MoneyInput;
+}
+
+// Line item that isn't a product variant, such as gift wrapping or a service fee
+export interface CustomLineItem {
+  title: string;
+  price: MoneyInput;
+  quantity: number;
+  requiresShipping: boolean;
+  taxable: boolean;
+}
+
+// Key-value attribute stored on an order
+export interface CustomAttribute {
+  key: string;
+  value: string;
+}
+
+// Everything on a draft order besides the customer, product line items and tags
+export interface OrderDetails {
+  appliedDiscount: AppliedDiscount | null;
+  shippingLine: ShippingLine | null;
+  customLineItems: CustomLineItem[];
+  note: string | null;
+  customAttributes: CustomAttribute[];
+}
+
+// Chance (0-1) of each optional order detail being added
+export interface OrderDetailRates {
+  shippingLine: number;
+  customLineItem: number;
+  note: number;
+  customAttributes: number;
+}
+
+// What happens to an order after it is completed: nothing, a full or partial refund, a
+// cancellation with restock, or a return that is left open or closed
+export type LifecycleAction = 'NONE' | 'FULL_REFUND' | 'PARTIAL_REFUND' | 'CANCEL' | 'OPEN_RETURN' | 'CLOSED_RETURN';
+export const LIFECYCLE_ACTIONS: LifecycleAction[] = ['NONE', 'FULL_REFUND', 'PARTIAL_REFUND', 'CANCEL', 'OPEN_RETURN', 'CLOSED_RETURN'];
+
+// Order line item with the quantities that can still be refunded and restocked
+export interface RefundableLineItem {
+  id: string;
+  quantity: number;
+  refundableQuantity: number;
+  unfulfilledQuantity: number;
+  // Null for custom line items, which have no stock to restock
+  variant: { id: string } | null;
+}
+
+// What the lifecycle stage did to an order. `applied` is false when the action was skipped
+// because the order couldn't take it (e.g. a return for an order with nothing shipped).
+export interface LifecycleOutcome {
+  action: LifecycleAction;
+  applied: boolean;
+  skippedReason: string | null;
+  refundId: string | null;
+  refundedAmount: Money | null;
+  restockedQuantity: number;
+  cancelled: boolean;
+  returnId: string | null;
+  returnStatus: string | null;
+}
+
+// Delivery details generated for an order
+export interface DeliveryInfo {
+  status: DeliveryStatus;
+  carrier: ShippingCarrier;
+  trackingNumber: string;
+  trackingUrl: string;
+}
+
+// Statuses picked for a new order before it is created
+export interface OrderStatusSelection {
+  paymentStatus: OrderPaymentStatus;
+  paymentPending: boolean;
+  fulfillmentStatus: OrderFulfillmentStatus;
+  deliveryInfo: DeliveryInfo;
+}
+
+// Countries with a locale pack for generated addresses
+export type AddressCountry = 'US' | 'CA' | 'GB' | 'DE' | 'AU' | 'JP';
+export const ADDRESS_COUNTRIES: AddressCountry[] = ['US', 'CA', 'GB', 'DE', 'AU', 'JP'];
+
+// A city with the postal code pattern and phone area code that belong to it.
+// In patterns `#` stands for a digit and `@` for a letter.
+export interface LocaleCity {
+  name: string;
+  postalCode: string;
+  areaCode: string;
+  // Replaces the pack's phone format where the city's numbers are grouped differently
+  phoneFormat?: string;
+}
+
+// A state, province or prefecture; `code` is null for countries whose addresses have no province
+export interface LocaleRegion {
+  name: string;
+  code: string | null;
+  cities: LocaleCity[];
+}
+
+// How the street line is written: "12 Main St", "Hauptstraße 12" or "1-2-3 Chuo"
+export type StreetFormat = 'number-street' | 'street-number' | 'block-district';
+
+// Address data for one country. `phoneFormat` is a pattern with an `{area}` placeholder.
+export interface LocalePack {
+  countryCode: AddressCountry;
+  country: string;
+  regions: LocaleRegion[];
+  streets: string[];
+  streetFormat: StreetFormat;
+  phoneFormat: string;
+}
+
+// Days of the week, in the order JavaScript numbers them (Sunday is 0)
+export type Weekday = 'SUN' | 'MON' | 'TUE' | 'WED' | 'THU' | 'FRI' | 'SAT';
+export const WEEKDAYS: Weekday[] = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+// Dates (YYYY-MM-DD, inclusive) whose order volume is multiplied, such as a holiday sale
+export interface VolumeSpike {
+  from: string;
+  to: string;
+  multiplier: number;
+}
+
+// Shape of order volume over time for backdated history: relative volume per weekday and per
+// hour of the day (UTC), and spikes on top
+export interface VolumeCurve {
+  weekdays: WeightedValue<Weekday>[];
+  hours: WeightedValue<number>[];
+  spikes: VolumeSpike[];
+}
+
+// Dates (YYYY-MM-DD, inclusive) a backdated order history is spread across
+export interface HistoryRange {
+  from: string;
+  to: string;
+}
+
+// Whether an order is placed by a customer created for it or by an existing customer
+export type CustomerType = 'new' | 'returning';
+export const CUSTOMER_TYPES: CustomerType[] = ['new', 'returning'];
+
+// Marketing consent given by a synthetic customer
+export interface MarketingConsent {
+  email: boolean;
+  sms: boolean;
+}
+
+// Details of a customer generated before it is created in Shopify
+export interface SyntheticCustomer {
+  firstName: string;
+  lastName: string;
+  email: string;
+  phone: string | null;
+  address: Address;
+  consent: MarketingConsent;
+}
+
+// Customers and in-stock products fetched once and shared by every order in a run
+export interface Catalog {
+  customers: Customer[];
+  products: Product[];
+  // Shop currency, used for shipping charges and custom line item prices
+  currencyCode: CurrencyCode;
+  // Locations orders can be fulfilled from: the location orders are pinned to, or every active
+  // location that fulfills online orders
+  locations: ShopLocation[];
+  // Units already taken by orders of the run, by variant and location (see reserveStock)
+  reservedQuantities: Map<string, number>;
+}
+
+// Narrows the products orders are picked from. The values of one field are alternatives; every
+// field that is set must match.
+export interface ProductFilter {
+  productTypes?: string[];
+  vendors?: string[];
+  // Numeric IDs or global IDs of collections
+  collectionIds?: string[];
+  tags?: string[];
+  // Inclusive bounds on a variant's price
+  minPrice?: number;
+  maxPrice?: number;
+  // Shopify search syntax added to the other conditions as is
+  query?: string;
+}
+
+// Narrows the existing customers orders are placed by, in the same way as ProductFilter
+export interface CustomerFilter {
+  tags?: string[];
+  // Country codes of the default address, such as US or GB
+  countries?: string[];
+  hasDefaultAddress?: boolean;
+  // Shopify search syntax added to the other conditions as is
+  query?: string;
+}
+
+// Location a shop stocks inventory at and fulfills orders from
+export interface ShopLocation {
+  id: string;
+  name: string;
+  isActive: boolean;
+  fulfillsOnlineOrders: boolean;
+}
+
+// Inclusive range of whole numbers
+export interface IntegerRange {
+  min: number;
+  max: number;
+}
+
+// A value with its relative probability of being picked
+export interface WeightedValue<T> {
+  value: T;
+  weight: number;
+}
+
+// Weighted distributions used by the random generators
+export interface Scenario {
+  paymentStatuses: WeightedValue<OrderPaymentStatus>[];
+  fulfillmentStatuses: WeightedValue<OrderFulfillmentStatus>[];
+  carriers: WeightedValue<ShippingCarrier>[];
+  tags: WeightedValue<string>[];
+  tagCount: IntegerRange;
+  countries: WeightedValue<AddressCountry>[];
+  // Whether a customer's default address outside `countries` is replaced by a generated one;
+  // set when the countries were chosen explicitly rather than left at the default
+  restrictToCountries?: boolean;
+  customerTypes: WeightedValue<CustomerType>[];
+  orderDiscounts: WeightedValue<DiscountType>[];
+  lineItemDiscounts: WeightedValue<DiscountType>[];
+  // Range of percentage discounts, and of fixed discounts in whole units of the shop currency
+  discountPercentage: IntegerRange;
+  discountAmount: IntegerRange;
+  orderDetails: OrderDetailRates;
+  lifecycleActions: WeightedValue<LifecycleAction>[];
+  volumeCurve: VolumeCurve;
+  // Optional replacements for the US locale pack's cities, streets and states. `cities` reweights
+  // cities of the pack; `states` replaces the states along with their cities.
+  cities?: WeightedValue<string>[];
+  streets?: WeightedValue<string>[];
+  states?: WeightedValue<ScenarioState>[];
+}
+
+// A US state in a scenario file. Without `cities`, its cities come from the US locale pack.
+export interface ScenarioState {
+  name: string;
+  code: string;
+  cities?: string[];
+}
+
+// A product variant and quantity chosen for an order
+export interface LineItemSelection {
+  product: Product;
+  variant: ProductVariant;
+  quantity: number;
+  appliedDiscount?: AppliedDiscount | null;
+}
+
+// Options controlling how each order is generated
+export interface OrderGenerationOptions {
+  runId: string;
+  seed: string;
+  scenario: Scenario;
+  tags?: string[];
+  customerId?: string;
+  variantIds?: string[];
+  lineItemCount: IntegerRange;
+  quantity: IntegerRange;
+  maxCatalogPages: number;
+  dryRun: boolean;
+  // Backdates the order to this time; it is then created with orderCreate instead of a draft order
+  processedAt?: string;
+  // Fulfills every order from this location; otherwise each order picks a location with stock
+  locationId?: string;
+  productFilter?: ProductFilter;
+  customerFilter?: CustomerFilter;
+}
+
+// Query cost spent by a run or a single order
+export interface QueryCostTotals {
+  requests: number;
+  requestedCost: number;
+  actualCost: number;
+}
+
+// Query cost used through a client, and the most recent throttle status reported by Shopify
+export interface QueryCostUsage extends QueryCostTotals {
+  lastRequestedCost: number;
+  throttleStatus: ThrottleStatus | null;
+  throttleStatusAt: number;
+}
+
+// Connection settings for the Shopify Admin API
+export interface ShopifyClientConfig {
+  shopUrl: string;
+  accessToken: string;
+  apiVersion?: string;
+  // Base URL of the Admin API; override to point at a local mock server (see mock-server.ts)
+  apiBaseUrl?: string;
+}
+
+// Parts of the order flow whose access scopes are checked before a run
+export type PreflightFeature =
+  | 'customers'
+  | 'newCustomers'
+  | 'products'
+  | 'draftOrders'
+  | 'orders'
+  | 'fulfillments'
+  | 'returns'
+  | 'locations';
+
+// One line of a preflight report; a warning doesn't stop a run
+export interface PreflightCheck {
+  name: string;
+  status: 'pass' | 'warn' | 'fail';
+  message: string;
+}
+
+// Result of checking a store's token, API version and access scopes
+export interface PreflightReport {
+  passed: boolean;
+  checks: PreflightCheck[];
+}
+
+// Where a store profile's access token is read from: an environment variable or a file
+export type TokenSource = { env: string } | { file: string };
+
+// Named store from the stores file, selected with --store
+export interface StoreProfile {
+  name: string;
+  shopUrl: string;
+  token: TokenSource;
+  apiVersion?: string;
+  // Scenario file used when no --scenario is given, resolved against the stores file's directory
+  scenarioPath?: string;
+  // Orders are only created in and removed from stores that allow it; reads are always allowed
+  allowWrites: boolean;
+}
+
+// Admin API connection used by every request, with the query cost spent through it
+export interface ShopifyClient {
+  shopUrl: string;
+  accessToken: string;
+  apiVersion: string;
+  apiBaseUrl: string;
+  queryCostUsage: QueryCostUsage;
+}
+
+// Callbacks and state for a bulk run
+export interface BulkRunOptions {
+  concurrency: number;
+  // Spreads the orders across these dates following the scenario's volume curve
+  history?: HistoryRange;
+  // Orders already created by the run, when resuming
+  previous?: { createdIndices: Set<number>, records: JournalOrderRecord[], incomplete?: IncompleteOrder[] };
+  onResult?: (result: OrderResult) => void;
+  onFailure?: (failure: { index: number, message: string }) => void;
+}
+
+// Draft order created for an order, with the addresses generated for it
+export interface DraftOrderSummary {
+  draftOrderId: string;
+  name: string | null;
+  totalPrice: string | null;
+  shippingAddress: Address;
+  billingAddress: Address;
+  details: OrderDetails;
+}
+
+// Order created by completing a draft order, with the statuses chosen for it
+export interface DraftOrderCompletion {
+  orderId: string;
+  orderName: string | null;
+  paymentStatus: OrderPaymentStatus;
+  actualFinancialStatus: string;
+  fulfillmentStatus: OrderFulfillmentStatus;
+  actualFulfillmentStatus: string;
+  fulfillmentId: string | null;
+  // Null when no fulfillment was created, so nothing was shipped or tracked
+  deliveryInfo: DeliveryInfo | null;
+}
+
+// Order created directly with orderCreate, with its addresses and the statuses chosen for it
+export interface BackdatedOrderCompletion extends DraftOrderCompletion {
+  processedAt: string;
+  shippingAddress: Address;
+  billingAddress: Address;
+}
+
+// Outcome of a single order creation
+export interface OrderResult {
+  index: number;
+  orderId: string;
+  orderName: string | null;
+  // Null for backdated orders, which are created without a draft order
+  draftOrderId: string | null;
+  processedAt: string | null;
+  runId: string;
+  dryRun: boolean;
+  customer: Customer;
+  customerCreated: boolean;
+  lineItems: LineItemSelection[];
+  shippingAddress: Address;
+  billingAddress: Address;
+  tags: string[];
+  details: OrderDetails;
+  paymentStatus: OrderPaymentStatus;
+  actualFinancialStatus: string;
+  fulfillmentStatus: OrderFulfillmentStatus;
+  actualFulfillmentStatus: string;
+  fulfillmentId: string | null;
+  deliveryInfo: DeliveryInfo | null;
+  lifecycle: LifecycleOutcome;
+  queryCost: QueryCostTotals;
+}
+
+// State of the order currently being created
+export interface OrderContext {
+  index: number;
+  random: () => number;
+  scenario: Scenario;
+  // Location the order is fulfilled from, once its products have been picked
+  locationId: string | null;
+  orderId: string | null;
+  queryCost: QueryCostTotals;
+}
+
+// Compact record of a completed order, as stored in the journal
+export interface JournalOrderRecord {
+  orderId: string;
+  customerId: string;
+  lineItems: { variantId: string, quantity: number }[];
+  tags: string[];
+  paymentStatus: OrderPaymentStatus;
+  actualFinancialStatus: string;
+  fulfillmentStatus: OrderFulfillmentStatus;
+  actualFulfillmentStatus: string;
+  fulfillmentId: string | null;
+  deliveryInfo: DeliveryInfo | null;
+  // Missing from journals written before the lifecycle stage existed
+  lifecycleAction?: LifecycleAction;
+}
+
+// Order a run created but didn't finish: payment, fulfillment or lifecycle steps may be missing.
+// `lastStep` is the last journal step recorded for it, e.g. `order-created`.
+export interface IncompleteOrder {
+  index: number;
+  orderId: string;
+  lastStep: OrderJournalEvent['type'];
+}
+
+// Step of a single order recorded in the journal; the order's number is added when written
+export type OrderJournalEvent =
+  | { type: 'customer-created', customerId: string }
+  | { type: 'customer-selected', customerId: string }
+  | { type: 'draft-created', draftOrderId: string }
+  | { type: 'order-created', draftOrderId: string | null, orderId: string }
+  | { type: 'fulfillment-created', orderId: string, fulfillmentId: string }
+  | { type: 'refund-created', orderId: string, refundId: string }
+  | { type: 'order-cancelled', orderId: string }
+  | { type: 'return-created', orderId: string, returnId: string }
+  | { type: 'return-closed', orderId: string, returnId: string }
+  | { type: 'draft-deleted', draftOrderId: string }
+  | { type: 'order-completed', order: JournalOrderRecord }
+  | { type: 'order-failed', message: string };
+
+// Event recorded in the journal
+export type JournalEvent =
+  // `shopUrl` is missing from journals written before it was recorded
+  | { type: 'run-started', seed: string, args: string[], shopUrl?: string }
+  | { type: 'run-resumed' }
+  | { type: 'run-finished', created: number, failed: number }
+  | (OrderJournalEvent & { index: number });
+
+// One line of a run journal
+export type JournalEntry = JournalEvent & { time: string, runId: string };
+
+// Machine-readable form of an order result
+export interface OrderOutput {
+  index: number;
+  orderId: string;
+  orderName: string | null;
+  draftOrderId: string | null;
+  processedAt: string | null;
+  runId: string;
+  dryRun: boolean;
+  customer: { id: string, firstName: string | null, lastName: string | null, email: string | null, created: boolean };
+  lineItems: {
+    productId: string,
+    productTitle: string,
+    variantId: string,
+    variantTitle: string,
+    sku: string | null,
+    price: string,
+    quantity: number,
+    appliedDiscount: AppliedDiscount | null
+  }[];
+  shippingAddress: Address;
+  billingAddress: Address;
+  tags: string[];
+  appliedDiscount: AppliedDiscount | null;
+  shippingLine: ShippingLine | null;
+  customLineItems: CustomLineItem[];
+  note: string | null;
+  customAttributes: CustomAttribute[];
+  paymentStatus: { requested: OrderPaymentStatus, actual: string };
+  fulfillmentStatus: { requested: OrderFulfillmentStatus, actual: string };
+  fulfillmentId: string | null;
+  deliveryInfo: DeliveryInfo | null;
+  lifecycle: LifecycleOutcome;
+  graphqlCost: QueryCostTotals;
+}
+
+// Machine-readable summary of a run
+export interface RunSummaryOutput {
+  runId: string;
+  seed: string;
+  dryRun: boolean;
+  requested: number;
+  createdBeforeResume: number;
+  created: number;
+  failed: number;
+  // Orders created before a resume whose remaining steps never ran
+  incomplete: IncompleteOrder[];
+  graphqlCost: QueryCostTotals;
+}
+
+// How run results are written to stdout
+export type OutputFormat = 'text' | 'json' | 'ndjson';
+export const OUTPUT_FORMATS: OutputFormat[] = ['text', 'json', 'ndjson'];
+
+// Filters selecting generated orders and draft orders for cleanup
+export interface CleanupFilter {
+  runId: string | null;
+  since: string | null;
+  until: string | null;
+}
+
+// Settings of an order generator created with createOrderGenerator
+export interface OrderGeneratorConfig extends ShopifyClientConfig {
+  // Seed for reproducible random choices; a random seed is used when omitted
+  seed?: string;
+  scenario?: Scenario;
+  // Run ID tagged on every order; a new one is created when omitted
+  runId?: string;
+}
+
+// Order generation bound to one shop, seed and scenario
+export interface OrderGenerator {
+  client: ShopifyClient;
+  runId: string;
+  seed: string;
+  scenario: Scenario;
+  fetchRandomCustomer(maxPages?: number): Promise<Customer>;
+  // Creates a synthetic customer tagged with the generator's run ID
+  createCustomer(dryRun?: boolean): Promise<Customer>;
+  fetchRandomProduct(maxPages?: number): Promise<{ product: Product, variant: ProductVariant }>;
+  createDraftOrder(
+    customer: Customer,
+    lineItems: LineItemSelection[],
+    tags?: string[],
+    dryRun?: boolean,
+    details?: OrderDetails
+  ): Promise<DraftOrderSummary>;
+  completeDraftOrder(draftOrderId: string, dryRun?: boolean, carrier?: ShippingCarrier): Promise<DraftOrderCompletion>;
+  createBackdatedOrder(
+    customer: Customer,
+    lineItems: LineItemSelection[],
+    processedAt: string,
+    currencyCode: CurrencyCode,
+    tags?: string[],
+    dryRun?: boolean,
+    details?: OrderDetails
+  ): Promise<BackdatedOrderCompletion>;
+  applyOrderLifecycle(orderId: string, action: LifecycleAction, dryRun?: boolean): Promise<LifecycleOutcome>;
+  createRandomOrder(options?: Partial<OrderGenerationOptions>, catalog?: Catalog): Promise<OrderResult>;
+  createBulkOrders(
+    count: number,
+    options?: Partial<OrderGenerationOptions>,
+    bulkOptions?: Partial<BulkRunOptions>
+  ): Promise<{ results: OrderResult[], failures: { index: number, message: string }[] }>;
+}
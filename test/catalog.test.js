@@ -0,0 +1,49 @@
+const { describe, it } = require('node:test');
+const assert = require('node:assert/strict');
+
+const { buildProductSearchQuery, buildCustomerSearchQuery } = require('../dist');
+
+describe('buildProductSearchQuery', () => {
+  it('returns null without conditions', () => {
+    assert.equal(buildProductSearchQuery({}), null);
+    assert.equal(buildProductSearchQuery({ productTypes: [], tags: [] }), null);
+  });
+
+  it('ORs the values of a field and ANDs the fields', () => {
+    assert.equal(
+      buildProductSearchQuery({ productTypes: ['Mugs', 'Socks'], vendors: ['Acme'], tags: ['sale'] }),
+      "(product_type:'Mugs' OR product_type:'Socks') AND vendor:'Acme' AND tag:'sale'"
+    );
+  });
+
+  it('searches collections by their numeric ID', () => {
+    assert.equal(
+      buildProductSearchQuery({ collectionIds: ['gid://shopify/Collection/123', '456'] }),
+      '(collection:123 OR collection:456)'
+    );
+  });
+
+  it('escapes quotes and backslashes in values', () => {
+    assert.equal(buildProductSearchQuery({ vendors: ["O'Brien \\ Sons"] }), "vendor:'O\\'Brien \\\\ Sons'");
+  });
+
+  it('wraps a raw query so its ORs stay inside it', () => {
+    assert.equal(
+      buildProductSearchQuery({ tags: ['sale'], query: 'product_status:active OR product_status:draft' }),
+      "tag:'sale' AND (product_status:active OR product_status:draft)"
+    );
+  });
+
+  it('leaves the price range to the loaded variants', () => {
+    assert.equal(buildProductSearchQuery({ minPrice: 5, maxPrice: 20 }), null);
+  });
+});
+
+describe('buildCustomerSearchQuery', () => {
+  it('sends tags and countries through the search', () => {
+    assert.equal(
+      buildCustomerSearchQuery({ tags: ['vip'], countries: ['US', 'CA'], hasDefaultAddress: true }),
+      "tag:'vip' AND (country:US OR country:CA)"
+    );
+  });
+});
@@ -0,0 +1,989 @@
+// End-to-end runs of the CLI against the mock Admin API, on a random port
+const { describe, it, before, after } = require('node:test');
+const assert = require('node:assert/strict');
+const { execFile } = require('node:child_process');
+const fs = require('node:fs');
+const os = require('node:os');
+const path = require('node:path');
+
+const { createMockShopifyServer } = require('../dist/mock-server');
+
+const CLI = path.join(__dirname, '..', 'dist', 'create-order.js');
+
+/**
+ * Runs the CLI with the given arguments, resolving with its exit code and output
+ */
+function runCli(env, args) {
+  return new Promise(resolve => {
+    execFile(process.execPath, [CLI, ...args], { env, timeout: 60000 }, (error, stdout, stderr) => {
+      resolve({ code: error ? error.code : 0, stdout, stderr });
+    });
+  });
+}
+
+/**
+ * Runs an order command with JSON output and parses the run document it writes
+ */
+async function runJson(env, args) {
+  const { code, stdout, stderr } = await runCli(env, [...args, '--output', 'json', '--allow-unlisted-store']);
+  assert.ok(stdout.length > 0, `no JSON output (exit ${code}):\n${stderr}`);
+  return { code, run: JSON.parse(stdout), stderr };
+}
+
+/**
+ * Queues a fault on the mock server
+ */
+async function queueFault(env, fault) {
+  await fetch(`${env.SHOPIFY_API_BASE_URL}/__mock/faults`, { method: 'POST', body: JSON.stringify(fault) });
+}
+
+/**
+ * Returns the run ID a CLI run printed
+ */
+function runIdOf(stdout) {
+  return /Run ID: (\S+)/.exec(stdout)[1];
+}
+
+/**
+ * Returns the units of a variant in stock on the mock server
+ */
+function stockOf(mock, variantId) {
+  return mock.state.fixtures.products.flatMap(product => product.variants).find(variant => variant.id === variantId).inventoryQuantity;
+}
+
+/**
+ * Returns the mock orders carrying a tag
+ */
+function ordersTagged(mock, tag) {
+  return [...mock.state.orders.values()].filter(order => order.tags.includes(tag));
+}
+
+describe('CLI against the mock Admin API', () => {
+  let mock;
+  let tempDir;
+  let env;
+
+  before(async () => {
+    mock = createMockShopifyServer();
+    await new Promise(resolve => mock.server.listen(0, resolve));
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'shopify-create-order-'));
+    env = {
+      PATH: process.env.PATH,
+      SHOP_URL: 'test.myshopify.com',
+      ACCESS_TOKEN: 'test-token',
+      SHOPIFY_API_BASE_URL: `http://localhost:${mock.server.address().port}`,
+      STORES_FILE: path.join(tempDir, 'stores.json'),
+      JOURNAL_DIR: tempDir
+    };
+  });
+
+  after(async () => {
+    await new Promise(resolve => mock.server.close(resolve));
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  /**
+   * Writes a scenario file and returns its path
+   */
+  function scenarioFile(name, scenario) {
+    const file = path.join(tempDir, `${name}.json`);
+    fs.writeFileSync(file, JSON.stringify(scenario));
+    return file;
+  }
+
+  it('creates one order', async () => {
+    const { code, run } = await runJson(env, ['create', '--seed', 'e2e-create']);
+
+    assert.equal(code, 0);
+    assert.equal(run.seed, 'e2e-create');
+    assert.equal(run.created, 1);
+    assert.equal(run.failed, 0);
+    assert.equal(run.orders.length, 1);
+    assert.match(run.orders[0].orderId, /^gid:\/\/shopify\/Order\/\d+$/);
+    assert.ok(mock.state.orders.has(run.orders[0].orderId));
+    assert.deepEqual(ordersTagged(mock, `test-run:${run.runId}`).map(order => order.id), [run.orders[0].orderId]);
+  });
+
+  it('creates a bulk run of orders', async () => {
+    const { code, stdout, stderr } = await runCli(env, ['bulk', '--count', '3', '--seed', 'e2e-bulk', '--tags', 'e2e-bulk', '--allow-unlisted-store']);
+
+    assert.equal(code, 0, stderr);
+    assert.match(stdout, /Created: 3\n/);
+    assert.equal(ordersTagged(mock, 'e2e-bulk').length, 3);
+  });
+
+  it('loads the catalog once and totals a bulk run by status and tag', async () => {
+    const { code, stdout, stderr } = await runCli(env, [
+      'bulk',
+      '--count', '4',
+      '--concurrency', '2',
+      '--payment-status', 'PAID',
+      '--fulfillment-status', 'UNFULFILLED',
+      '--tags', 'e2e-summary',
+      '--seed', 'e2e-summary',
+      '--allow-unlisted-store'
+    ]);
+
+    assert.equal(code, 0, stderr);
+    assert.equal(stdout.match(/Fetching customer and product catalog/g).length, 1);
+    assert.match(stdout, /Payment Status:\n {2}PAID: 4\n/);
+    assert.match(stdout, /Fulfillment Status:\n {2}UNFULFILLED: 4\n/);
+    assert.match(stdout, /Tags:\n {2}e2e-summary: 4\n/);
+  });
+
+  it('makes the same choices for the same seed', async () => {
+    const choices = run => run.orders.map(order => ({
+      customer: order.customer.id,
+      lineItems: order.lineItems.map(lineItem => [lineItem.variantId, lineItem.quantity]),
+      shippingAddress: order.shippingAddress,
+      tags: order.tags,
+      paymentStatus: order.paymentStatus.requested,
+      fulfillmentStatus: order.fulfillmentStatus.requested
+    }));
+    const first = await runJson(env, ['bulk', '--count', '3', '--line-items', '1-3', '--dry-run', '--seed', 'e2e-seed']);
+    const second = await runJson(env, ['bulk', '--count', '3', '--line-items', '1-3', '--dry-run', '--seed', 'e2e-seed']);
+
+    assert.equal(first.code, 0);
+    assert.notEqual(first.run.runId, second.run.runId);
+    assert.deepEqual(choices(second.run), choices(first.run));
+  });
+
+  it('creates orders with several line items of different products', async () => {
+    const { code, run } = await runJson(env, ['bulk', '--count', '3', '--line-items', '2-3', '--quantity', '1-2', '--seed', 'e2e-line-items']);
+
+    assert.equal(code, 0);
+    for (const order of run.orders) {
+      const draft = mock.state.draftOrders.get(order.draftOrderId);
+      const productIds = order.lineItems.map(lineItem => lineItem.productId);
+      assert.ok(draft.lineItems.length >= 2 && draft.lineItems.length <= 3);
+      assert.equal(new Set(productIds).size, productIds.length);
+      assert.ok(draft.lineItems.every(lineItem => lineItem.quantity >= 1 && lineItem.quantity <= 2));
+    }
+  });
+
+  it('pages through the catalog up to the page cap', async () => {
+    const customers = mock.state.fixtures.customers;
+    mock.state.fixtures.customers = [
+      ...customers,
+      ...Array.from({ length: 120 }, (_, i) => ({
+        id: `gid://shopify/Customer/${5000 + i}`,
+        firstName: 'Page',
+        lastName: `Customer ${i}`,
+        email: `page-${i}@example.com`,
+        defaultAddress: null
+      }))
+    ];
+    try {
+      const all = await runCli(env, ['create', '--dry-run', '--seed', 'e2e-pages']);
+      const capped = await runCli(env, ['create', '--dry-run', '--max-pages', '1', '--seed', 'e2e-pages']);
+
+      assert.equal(all.code, 0, all.stderr);
+      assert.match(all.stdout, new RegExp(`Catalog loaded: ${mock.state.fixtures.customers.length} customers`));
+      assert.equal(capped.code, 0, capped.stderr);
+      assert.match(capped.stdout, /Stopped fetching customers after 1 pages \(100 loaded\); more are available/);
+      assert.match(capped.stdout, /Catalog loaded: 100 customers/);
+    } finally {
+      mock.state.fixtures.customers = customers;
+    }
+  });
+
+  it('prints the planned mutations without writing in a dry run', async () => {
+    const draftOrders = mock.state.draftOrders.size;
+    const orders = mock.state.orders.size;
+    const { code, stdout, stderr } = await runCli(env, ['create', '--dry-run', '--seed', 'e2e-dry-run']);
+
+    assert.equal(code, 0, stderr);
+    assert.match(stdout, /\[dry run\] Skipping draftOrderCreate with variables:/);
+    assert.match(stdout, /\[dry run\] Skipping draftOrderComplete with variables:/);
+    assert.match(stdout, /"paymentPending": (true|false)/);
+    assert.equal(mock.state.draftOrders.size, draftOrders);
+    assert.equal(mock.state.orders.size, orders);
+  });
+
+  it('refuses to write to a store missing from the stores file', async () => {
+    const draftOrders = mock.state.draftOrders.size;
+    const { code, stderr } = await runCli(env, ['bulk', '--count', '1']);
+
+    assert.equal(code, 1);
+    assert.match(stderr, /test\.myshopify\.com is not in the stores file/);
+    assert.equal(mock.state.draftOrders.size, draftOrders);
+  });
+
+  it('records a failed order and finishes the rest of the run', async () => {
+    await queueFault(env, { operation: 'draftOrderCreate', type: 'userErrors', message: 'Injected failure' });
+    const { code, stdout } = await runCli(env, ['bulk', '--count', '3', '--seed', 'e2e-failure', '--tags', 'e2e-failure', '--allow-unlisted-store']);
+
+    assert.equal(code, 1);
+    assert.match(stdout, /Created: 2\n/);
+    assert.match(stdout, /Failed: 1\n/);
+    assert.match(stdout, /Injected failure/);
+    assert.equal(ordersTagged(mock, 'e2e-failure').length, 2);
+  });
+
+  it('waits out throttled requests', async () => {
+    await queueFault(env, { operation: 'customers', type: 'throttled', times: 2 });
+    const { code, stdout, stderr } = await runCli(env, ['create', '--seed', 'e2e-throttled', '--tags', 'e2e-throttled', '--allow-unlisted-store']);
+
+    assert.equal(code, 0, stderr);
+    assert.match(stdout, /throttled, retrying/);
+    assert.equal(ordersTagged(mock, 'e2e-throttled').length, 1);
+  });
+
+  it('retries queries on HTTP 5xx', async () => {
+    await queueFault(env, { operation: 'customers', type: 'httpError', status: 503 });
+    const { code, stdout, stderr } = await runCli(env, ['create', '--seed', 'e2e-query-5xx', '--allow-unlisted-store']);
+
+    assert.equal(code, 0, stderr);
+    assert.match(stdout, /GraphQL request failed \(503\), retrying/);
+  });
+
+  it('retries mutations on HTTP 429', async () => {
+    await queueFault(env, { operation: 'draftOrderCreate', type: 'httpError', status: 429 });
+    const { code, stdout, stderr } = await runCli(env, ['create', '--seed', 'e2e-mutation-429', '--allow-unlisted-store']);
+
+    assert.equal(code, 0, stderr);
+    assert.match(stdout, /GraphQL request failed \(429\), retrying/);
+  });
+
+  it('doesn\'t retry mutations on HTTP 5xx', async () => {
+    await queueFault(env, { operation: 'draftOrderCreate', type: 'httpError', status: 503, times: 2 });
+    const draftOrders = mock.state.draftOrders.size;
+    const { code, stdout, stderr } = await runCli(env, ['create', '--seed', 'e2e-mutation-5xx', '--allow-unlisted-store']);
+
+    try {
+      assert.equal(code, 1);
+      assert.match(stderr, /HTTP 503/);
+      assert.doesNotMatch(stdout, /retrying/);
+      // Only the first of the two queued faults was used up
+      assert.deepEqual(mock.state.faults.map(fault => [fault.operation, fault.times]), [['draftOrderCreate', 1]]);
+      assert.equal(mock.state.draftOrders.size, draftOrders);
+    } finally {
+      await fetch(`${env.SHOPIFY_API_BASE_URL}/__mock/faults`, { method: 'DELETE' });
+    }
+  });
+
+  it('follows the distributions of a scenario file', async () => {
+    const scenario = scenarioFile('paid-ups', {
+      paymentStatus: { PAID: 1 },
+      fulfillmentStatus: { FULFILLED: 1 },
+      carrier: { UPS: 1 },
+      tags: { weights: { wholesale: 1 }, count: { min: 1, max: 1 } }
+    });
+    const draftOrders = mock.state.draftOrders.size;
+    const { code, stderr } = await runCli(env, ['bulk', '--count', '3', '--scenario', scenario, '--seed', 'e2e-scenario', '--allow-unlisted-store']);
+
+    assert.equal(code, 0, stderr);
+    const drafts = [...mock.state.draftOrders.values()].slice(draftOrders);
+    assert.equal(drafts.length, 3);
+    for (const draft of drafts) {
+      assert.deepEqual(draft.tags.filter(tag => !tag.startsWith('test-run:') && tag !== 'shopify-create-order'), ['wholesale']);
+      const order = mock.state.orders.get(draft.orderId);
+      assert.equal(order.amountPaid, order.totalPrice);
+      assert.equal(order.fulfillments.length, 1);
+      assert.equal(order.fulfillments[0].trackingInfo[0].company, 'UPS');
+    }
+  });
+
+  it('rejects an invalid scenario file before sending anything', async () => {
+    const scenario = scenarioFile('invalid', { paymentStatus: { SETTLED: 1 }, carrier: { UPS: -1 } });
+    const draftOrders = mock.state.draftOrders.size;
+    const { code, stderr } = await runCli(env, ['create', '--scenario', scenario, '--allow-unlisted-store']);
+
+    assert.equal(code, 1);
+    assert.match(stderr, /Invalid scenario file/);
+    assert.match(stderr, /paymentStatus/);
+    assert.match(stderr, /carrier/);
+    assert.equal(mock.state.draftOrders.size, draftOrders);
+  });
+
+  it('uses the options given instead of random choices', async () => {
+    const { code, stderr } = await runCli(env, [
+      'create',
+      '--customer-id', '1002',
+      '--variant-id', '3003,gid://shopify/ProductVariant/3005',
+      '--payment-status', 'PAID',
+      '--fulfillment-status', 'FULFILLED',
+      '--carrier', 'FEDEX',
+      '--tags', 'e2e-overrides,vip',
+      '--allow-unlisted-store'
+    ]);
+
+    assert.equal(code, 0, stderr);
+    const draft = [...mock.state.draftOrders.values()].find(draft => draft.tags.includes('e2e-overrides'));
+    assert.equal(draft.customerId, 'gid://shopify/Customer/1002');
+    assert.deepEqual(draft.lineItems.map(lineItem => lineItem.variantId), ['gid://shopify/ProductVariant/3003', 'gid://shopify/ProductVariant/3005']);
+    assert.deepEqual(draft.tags.slice(0, 2), ['e2e-overrides', 'vip']);
+
+    const inspected = await runCli(env, ['inspect', draft.orderId]);
+
+    assert.equal(inspected.code, 0, inspected.stderr);
+    assert.match(inspected.stdout, /Financial Status: PAID\n/);
+    assert.match(inspected.stdout, /Fulfillment Status: FULFILLED\n/);
+    assert.match(inspected.stdout, /FEDEX: /);
+  });
+
+  it('rejects an unsupported option value', async () => {
+    const draftOrders = mock.state.draftOrders.size;
+    const { code, stderr } = await runCli(env, ['create', '--payment-status', 'SETTLED', '--allow-unlisted-store']);
+
+    assert.equal(code, 1);
+    assert.match(stderr, /--payment-status must be one of/);
+    assert.equal(mock.state.draftOrders.size, draftOrders);
+  });
+
+  it('refuses to clean up without a terminal unless --yes is given', async () => {
+    const created = await runCli(env, ['create', '--seed', 'e2e-cleanup-prompt', '--allow-unlisted-store']);
+    const runId = runIdOf(created.stdout);
+    const { code, stderr } = await runCli(env, ['cleanup', '--run-id', runId, '--allow-unlisted-store']);
+
+    assert.equal(code, 1);
+    assert.match(stderr, /pass --yes when not running in a terminal/);
+    assert.ok(ordersTagged(mock, `test-run:${runId}`).every(order => order.cancelledAt === null));
+  });
+
+  it('cancels the orders of a run and deletes its open draft orders in cleanup', async () => {
+    await queueFault(env, { operation: 'draftOrderComplete', type: 'userErrors' });
+    const created = await runCli(env, ['bulk', '--count', '3', '--seed', 'e2e-cleanup', '--allow-unlisted-store']);
+    const runId = runIdOf(created.stdout);
+    const openDrafts = () => [...mock.state.draftOrders.values()].filter(draft => draft.tags.includes(`test-run:${runId}`) && draft.orderId === null);
+
+    const dryRun = await runCli(env, ['cleanup', '--run-id', runId, '--dry-run', '--allow-unlisted-store']);
+
+    assert.equal(dryRun.code, 0, dryRun.stderr);
+    assert.match(dryRun.stdout, /Orders to cancel and restock: 2\n/);
+    assert.ok(ordersTagged(mock, `test-run:${runId}`).every(order => order.cancelledAt === null));
+
+    const { code, stdout, stderr } = await runCli(env, ['cleanup', '--run-id', runId, '--yes', '--allow-unlisted-store']);
+
+    assert.equal(code, 0, stderr);
+    assert.match(stdout, /Orders cancelled: 2\n/);
+    const orders = ordersTagged(mock, `test-run:${runId}`);
+    assert.equal(orders.length, 2);
+    assert.ok(orders.every(order => order.cancelledAt !== null));
+    assert.equal(openDrafts().length, 0);
+  });
+
+  it('deletes generated customers left without orders in cleanup', async () => {
+    await queueFault(env, { operation: 'draftOrderCreate', type: 'userErrors' });
+    const created = await runCli(env, ['create', '--new-customers', '100', '--seed', 'e2e-cleanup-customers', '--allow-unlisted-store']);
+    const runId = runIdOf(created.stdout);
+    const runCustomers = () => mock.state.fixtures.customers.filter(customer => customer.tags?.includes(`test-run:${runId}`));
+
+    assert.equal(created.code, 1);
+    assert.equal(runCustomers().length, 1);
+
+    const { code, stdout, stderr } = await runCli(env, ['cleanup', '--run-id', runId, '--yes', '--allow-unlisted-store']);
+
+    assert.equal(code, 0, stderr);
+    assert.match(stdout, /Customers deleted: 1\n/);
+    assert.equal(runCustomers().length, 0);
+  });
+
+  it('never cleans up orders it didn\'t generate', async () => {
+    const created = await runCli(env, ['create', '--seed', 'e2e-cleanup-untagged', '--allow-unlisted-store']);
+    const runId = runIdOf(created.stdout);
+    const [order] = ordersTagged(mock, `test-run:${runId}`);
+    order.tags = order.tags.filter(tag => tag !== 'shopify-create-order');
+
+    const { code, stdout, stderr } = await runCli(env, ['cleanup', '--run-id', runId, '--yes', '--allow-unlisted-store']);
+
+    assert.equal(code, 0, stderr);
+    assert.match(stdout, /Nothing to clean up/);
+    assert.equal(order.cancelledAt, null);
+  });
+
+  it('includes the whole day of a date-only --until in cleanup', async () => {
+    const created = await runCli(env, ['create', '--seed', 'e2e-cleanup-until', '--allow-unlisted-store']);
+    const runId = runIdOf(created.stdout);
+    const [order] = ordersTagged(mock, `test-run:${runId}`);
+    const day = order.createdAt.slice(0, 10);
+
+    const { code, stdout, stderr } = await runCli(env, ['cleanup', '--run-id', runId, '--since', day, '--until', day, '--dry-run', '--allow-unlisted-store']);
+
+    assert.equal(code, 0, stderr);
+    assert.match(stdout, /Orders to cancel and restock: 1\n/);
+  });
+
+  it('resumes a run whose orders failed', async () => {
+    await queueFault(env, { operation: 'draftOrderCreate', type: 'userErrors' });
+    const first = await runCli(env, ['bulk', '--count', '3', '--seed', 'e2e-resume', '--allow-unlisted-store']);
+    const runId = runIdOf(first.stdout);
+
+    assert.equal(first.code, 1);
+    assert.match(first.stdout, /Created: 2\n/);
+    assert.ok(fs.existsSync(path.join(tempDir, `${runId}.jsonl`)));
+
+    const resumed = await runCli(env, ['bulk', '--resume', runId, '--allow-unlisted-store']);
+
+    assert.equal(resumed.code, 0, resumed.stderr);
+    assert.equal(runIdOf(resumed.stdout), runId);
+    assert.match(resumed.stdout, /Created before resume: 2\n/);
+    assert.match(resumed.stdout, /Failed: 0\n/);
+    assert.equal(ordersTagged(mock, `test-run:${runId}`).length, 3);
+  });
+
+  it('refuses to resume a single-order run instead of creating its order again', async () => {
+    const created = await runCli(env, ['create', '--seed', 'e2e-resume-create', '--allow-unlisted-store']);
+    const runId = runIdOf(created.stdout);
+
+    assert.equal(created.code, 0, created.stderr);
+
+    const resumed = await runCli(env, ['bulk', '--resume', runId, '--allow-unlisted-store']);
+
+    assert.equal(resumed.code, 1);
+    assert.match(resumed.stderr, /Only bulk runs can be resumed/);
+    assert.equal(ordersTagged(mock, `test-run:${runId}`).length, 1);
+  });
+
+  it('reports orders created but not finished instead of replaying them when resuming', async () => {
+    await queueFault(env, { operation: 'fulfillmentCreate', type: 'userErrors' });
+    const first = await runCli(env, ['bulk', '--count', '2', '--fulfillment-status', 'FULFILLED', '--seed', 'e2e-resume-incomplete', '--allow-unlisted-store']);
+    const runId = runIdOf(first.stdout);
+
+    assert.equal(first.code, 1);
+    assert.match(first.stdout, /Failed: 1\n/);
+
+    const { code, run } = await runJson(env, ['bulk', '--resume', runId]);
+
+    assert.equal(code, 1);
+    assert.equal(run.failed, 0);
+    assert.equal(run.incomplete.length, 1);
+    assert.equal(run.incomplete[0].lastStep, 'order-created');
+    const orders = ordersTagged(mock, `test-run:${runId}`);
+    assert.equal(orders.length, 2);
+    assert.ok(orders.some(order => order.id === run.incomplete[0].orderId));
+  });
+
+  it('deletes draft orders left behind by an interrupted order when resuming', async () => {
+    // The failed order's draft can't be deleted right away, so it is left for the resume
+    await queueFault(env, { operation: 'draftOrderComplete', type: 'userErrors' });
+    await queueFault(env, { operation: 'draftOrderDelete', type: 'userErrors' });
+    const first = await runCli(env, ['bulk', '--count', '2', '--seed', 'e2e-resume-draft', '--allow-unlisted-store']);
+    const runId = runIdOf(first.stdout);
+    const openDrafts = () => [...mock.state.draftOrders.values()].filter(draft => draft.tags.includes(`test-run:${runId}`) && draft.orderId === null);
+
+    assert.equal(first.code, 1);
+    assert.equal(openDrafts().length, 1);
+
+    const resumed = await runCli(env, ['bulk', '--resume', path.join(tempDir, `${runId}.jsonl`), '--allow-unlisted-store']);
+
+    assert.equal(resumed.code, 0, resumed.stderr);
+    assert.match(resumed.stdout, /Deleting orphaned draft order/);
+    assert.equal(openDrafts().length, 0);
+    assert.equal(ordersTagged(mock, `test-run:${runId}`).length, 2);
+  });
+
+  it('streams one NDJSON line per order, then the summary', async () => {
+    await queueFault(env, { operation: 'draftOrderCreate', type: 'userErrors', message: 'Injected failure' });
+    const { code, stdout } = await runCli(env, ['bulk', '--count', '3', '--seed', 'e2e-ndjson', '--output', 'ndjson', '--allow-unlisted-store']);
+    const lines = stdout.trim().split('\n').map(line => JSON.parse(line));
+
+    assert.equal(code, 1);
+    assert.deepEqual(lines.map(line => line.type).sort(), ['failure', 'order', 'order', 'summary']);
+    assert.equal(lines[lines.length - 1].type, 'summary');
+    assert.equal(lines[lines.length - 1].created, 2);
+    assert.match(lines.find(line => line.type === 'failure').message, /Injected failure/);
+    for (const order of lines.filter(line => line.type === 'order')) {
+      assert.equal(mock.state.orders.get(order.orderId).draftOrderId, order.draftOrderId);
+    }
+  });
+
+  it('creates new customers for the requested share of orders', async () => {
+    const existing = new Set(mock.state.fixtures.customers.map(customer => customer.id));
+    const { code, run } = await runJson(env, ['bulk', '--count', '3', '--new-customers', '100', '--country', 'CA', '--seed', 'e2e-new-customers']);
+
+    assert.equal(code, 0);
+    assert.equal(run.created, 3);
+    for (const order of run.orders) {
+      const customer = mock.state.fixtures.customers.find(customer => customer.id === order.customer.id);
+      assert.ok(!existing.has(customer.id));
+      assert.match(customer.email, /@example\.com$/);
+      assert.ok(customer.tags.includes(`test-run:${run.runId}`));
+      assert.equal(customer.defaultAddress.countryCode, 'CA');
+    }
+    assert.equal(new Set(run.orders.map(order => order.customer.id)).size, 3);
+  });
+
+  it('creates a customer when the store has none', async () => {
+    const customers = mock.state.fixtures.customers;
+    mock.state.fixtures.customers = [];
+    try {
+      const { code, run } = await runJson(env, ['create', '--seed', 'e2e-no-customers']);
+
+      assert.equal(code, 0);
+      assert.equal(mock.state.fixtures.customers.length, 1);
+      assert.equal(run.orders[0].customer.id, mock.state.fixtures.customers[0].id);
+    } finally {
+      mock.state.fixtures.customers = [...customers, ...mock.state.fixtures.customers];
+    }
+  });
+
+  it('adds the discounts and order details of a scenario to the draft order', async () => {
+    const scenario = scenarioFile('details', {
+      fulfillmentStatus: { FULFILLED: 1 },
+      carrier: { UPS: 1 },
+      discounts: { order: { PERCENTAGE: 1 }, lineItem: { NONE: 1 }, percentage: { min: 10, max: 10 } },
+      orderDetails: { shippingLine: 1, customLineItem: 1, note: 1, customAttributes: 1 }
+    });
+    const { code, run } = await runJson(env, ['create', '--scenario', scenario, '--seed', 'e2e-details']);
+    const [order] = run.orders;
+
+    assert.equal(code, 0);
+    assert.deepEqual({ valueType: order.appliedDiscount.valueType, value: order.appliedDiscount.value }, { valueType: 'PERCENTAGE', value: 10 });
+    assert.equal(order.shippingLine.carrier, 'UPS');
+    assert.ok(order.customLineItems.length > 0);
+    assert.ok(order.note);
+    assert.ok(order.customAttributes.length > 0);
+
+    const draft = mock.state.draftOrders.get(order.draftOrderId);
+    const custom = draft.lineItems.filter(lineItem => lineItem.variantId === null);
+    assert.deepEqual(custom.map(lineItem => lineItem.title), order.customLineItems.map(lineItem => lineItem.title));
+    const subtotal = draft.lineItems.reduce((sum, lineItem) => sum + lineItem.price * lineItem.quantity, 0);
+    assert.equal(draft.totalPrice.toFixed(2), (Math.round(subtotal * 90) / 100 + order.shippingLine.price.amount).toFixed(2));
+    assert.equal(mock.state.orders.get(order.orderId).fulfillments[0].trackingInfo[0].company, 'UPS');
+  });
+
+  describe('requested statuses', () => {
+    before(() => {
+      mock.state.fixtures.products.push({
+        id: 'gid://shopify/Product/2904',
+        title: 'Status Mug',
+        variants: [{ id: 'gid://shopify/ProductVariant/3904', title: 'Default Title', price: '12.00', inventoryQuantity: 100, sku: 'MUG-STATUS' }]
+      });
+    });
+
+    /**
+     * Creates an order with the requested statuses and no lifecycle action, returning its output
+     */
+    async function createWithStatuses(paymentStatus, fulfillmentStatus, variantId = '3904') {
+      const { code, run, stderr } = await runJson(env, [
+        'create',
+        '--variant-id', variantId,
+        '--payment-status', paymentStatus,
+        '--fulfillment-status', fulfillmentStatus,
+        '--lifecycle', 'NONE',
+        '--seed', `e2e-${paymentStatus}-${fulfillmentStatus}`
+      ]);
+      assert.equal(code, 0, stderr);
+      assert.doesNotMatch(stderr, /Warning: Requested/);
+      return { order: run.orders[0], mockOrder: mock.state.orders.get(run.orders[0].orderId), stderr };
+    }
+
+    it('fulfills and pays an order in full', async () => {
+      const { order, mockOrder } = await createWithStatuses('PAID', 'FULFILLED');
+
+      assert.deepEqual(order.paymentStatus, { requested: 'PAID', actual: 'PAID' });
+      assert.deepEqual(order.fulfillmentStatus, { requested: 'FULFILLED', actual: 'FULFILLED' });
+      assert.equal(mockOrder.fulfillments.length, 1);
+      assert.equal(mockOrder.fulfillments[0].trackingInfo[0].number, order.deliveryInfo.trackingNumber);
+    });
+
+    it('adds a second unit to fulfill and pay an order in part', async () => {
+      const { order, mockOrder } = await createWithStatuses('PARTIALLY_PAID', 'PARTIALLY_FULFILLED');
+
+      assert.deepEqual(order.paymentStatus, { requested: 'PARTIALLY_PAID', actual: 'PARTIALLY_PAID' });
+      assert.deepEqual(order.fulfillmentStatus, { requested: 'PARTIALLY_FULFILLED', actual: 'PARTIALLY_FULFILLED' });
+      assert.equal(order.lineItems[0].quantity, 2);
+      assert.equal(mockOrder.fulfillments.length, 1);
+      assert.notEqual(order.deliveryInfo, null);
+    });
+
+    it('fulfills a single unit in full when no second unit is in stock', async () => {
+      mock.state.fixtures.products.push({
+        id: 'gid://shopify/Product/2903',
+        title: 'Last Lamp',
+        variants: [{ id: 'gid://shopify/ProductVariant/3903', title: 'Default Title', price: '80.00', inventoryQuantity: 1, sku: 'LAMP-01' }]
+      });
+      const { order, stderr } = await createWithStatuses('PAID', 'PARTIALLY_FULFILLED', '3903');
+
+      assert.match(stderr, /Using fulfillment status FULFILLED instead of PARTIALLY_FULFILLED/);
+      assert.deepEqual(order.fulfillmentStatus, { requested: 'FULFILLED', actual: 'FULFILLED' });
+      assert.equal(order.lineItems[0].quantity, 1);
+    });
+
+    it('records a manual payment for part of a partially paid order', async () => {
+      const { mockOrder } = await createWithStatuses('PARTIALLY_PAID', 'UNFULFILLED');
+
+      assert.ok(mockOrder.amountPaid > 0);
+      assert.ok(mockOrder.amountPaid < mockOrder.totalPrice);
+    });
+
+    it('captures nothing for an unpaid order', async () => {
+      const { order, mockOrder } = await createWithStatuses('UNPAID', 'UNFULFILLED');
+
+      assert.deepEqual(order.paymentStatus, { requested: 'UNPAID', actual: 'PENDING' });
+      assert.equal(mockOrder.amountPaid, 0);
+    });
+
+    it('leaves out delivery info when nothing was fulfilled', async () => {
+      const { order, mockOrder } = await createWithStatuses('PENDING', 'UNFULFILLED');
+
+      assert.deepEqual(order.paymentStatus, { requested: 'PENDING', actual: 'PENDING' });
+      assert.deepEqual(order.fulfillmentStatus, { requested: 'UNFULFILLED', actual: 'UNFULFILLED' });
+      assert.equal(order.fulfillmentId, null);
+      assert.equal(order.deliveryInfo, null);
+      assert.equal(mockOrder.fulfillments.length, 0);
+    });
+  });
+
+  describe('lifecycle actions', () => {
+    /**
+     * Creates a paid order of two mugs with a lifecycle action, returning its output and mock order
+     */
+    async function createWithLifecycle(action, fulfillmentStatus) {
+      const { code, run } = await runJson(env, [
+        'create',
+        '--variant-id', '3003',
+        '--quantity', '2',
+        '--payment-status', 'PAID',
+        '--fulfillment-status', fulfillmentStatus,
+        '--lifecycle', action,
+        '--seed', `e2e-${action}`
+      ]);
+      assert.equal(code, 0);
+      return { order: run.orders[0], mockOrder: mock.state.orders.get(run.orders[0].orderId) };
+    }
+
+    it('refunds and restocks the whole order', async () => {
+      const stock = stockOf(mock, 'gid://shopify/ProductVariant/3003');
+      const { order, mockOrder } = await createWithLifecycle('FULL_REFUND', 'UNFULFILLED');
+
+      assert.equal(order.lifecycle.applied, true);
+      assert.equal(order.lifecycle.restockedQuantity, 2);
+      assert.equal(mockOrder.refunds.length, 1);
+      assert.equal(mockOrder.amountRefunded, mockOrder.amountPaid);
+      assert.equal(order.paymentStatus.actual, 'REFUNDED');
+      assert.equal(stockOf(mock, 'gid://shopify/ProductVariant/3003'), stock);
+    });
+
+    it('refunds one unit', async () => {
+      const { order, mockOrder } = await createWithLifecycle('PARTIAL_REFUND', 'UNFULFILLED');
+
+      assert.equal(order.lifecycle.applied, true);
+      assert.equal(order.lifecycle.restockedQuantity, 1);
+      assert.deepEqual(mockOrder.refunds[0].lineItems.map(lineItem => lineItem.quantity), [1]);
+      assert.equal(order.paymentStatus.actual, 'PARTIALLY_REFUNDED');
+    });
+
+    it('cancels an unshipped order', async () => {
+      const { order, mockOrder } = await createWithLifecycle('CANCEL', 'UNFULFILLED');
+
+      assert.equal(order.lifecycle.cancelled, true);
+      assert.notEqual(mockOrder.cancelledAt, null);
+    });
+
+    it('skips cancelling an order that has shipped', async () => {
+      const { order, mockOrder } = await createWithLifecycle('CANCEL', 'FULFILLED');
+
+      assert.equal(order.lifecycle.applied, false);
+      assert.ok(order.lifecycle.skippedReason);
+      assert.equal(mockOrder.cancelledAt, null);
+    });
+
+    it('opens a return for a shipped order', async () => {
+      const { order, mockOrder } = await createWithLifecycle('OPEN_RETURN', 'FULFILLED');
+
+      assert.equal(order.lifecycle.returnStatus, 'OPEN');
+      assert.deepEqual(mockOrder.returns.map(ret => [ret.id, ret.status]), [[order.lifecycle.returnId, 'OPEN']]);
+    });
+
+    it('closes the return it opened', async () => {
+      const { order, mockOrder } = await createWithLifecycle('CLOSED_RETURN', 'FULFILLED');
+
+      assert.equal(order.lifecycle.returnStatus, 'CLOSED');
+      assert.deepEqual(mockOrder.returns.map(ret => ret.status), ['CLOSED']);
+    });
+
+    it('rejects another lifecycle action for a restocked order', async () => {
+      const { code, stderr } = await runCli(env, ['create', '--fulfillment-status', 'RESTOCKED', '--lifecycle', 'CANCEL', '--allow-unlisted-store']);
+
+      assert.equal(code, 1);
+      assert.match(stderr, /--fulfillment-status RESTOCKED can only be combined with --lifecycle FULL_REFUND/);
+    });
+
+    it('warns when a restocked order replaces the requested lifecycle action', async () => {
+      const scenario = scenarioFile('restocked', { fulfillmentStatus: { RESTOCKED: 1 } });
+      const { code, run, stderr } = await runJson(env, ['create', '--variant-id', '3003', '--scenario', scenario, '--lifecycle', 'OPEN_RETURN', '--seed', 'e2e-restocked']);
+
+      assert.equal(code, 0, stderr);
+      assert.match(stderr, /Warning: Using lifecycle action FULL_REFUND instead of OPEN_RETURN/);
+      assert.equal(run.orders[0].lifecycle.action, 'FULL_REFUND');
+    });
+  });
+
+  it('backdates a history of orders over a date range', async () => {
+    const { code, run } = await runJson(env, ['bulk', '--count', '5', '--history', '2025-01-01..2025-01-31', '--seed', 'e2e-history']);
+
+    assert.equal(code, 0);
+    assert.equal(run.created, 5);
+    const processed = run.orders.map(order => order.processedAt);
+    assert.deepEqual([...processed].sort(), processed);
+    for (const order of run.orders) {
+      const mockOrder = mock.state.orders.get(order.orderId);
+      assert.equal(mockOrder.draftOrderId, null);
+      assert.equal(mockOrder.processedAt, order.processedAt);
+      assert.ok(order.processedAt >= '2025-01-01T00:00:00' && order.processedAt < '2025-02-01', order.processedAt);
+    }
+  });
+
+  it('backdates a single order', async () => {
+    const { code, run } = await runJson(env, ['create', '--processed-at', '2025-02-03T10:30:00Z', '--seed', 'e2e-processed-at']);
+
+    assert.equal(code, 0);
+    assert.equal(Date.parse(mock.state.orders.get(run.orders[0].orderId).processedAt), Date.parse('2025-02-03T10:30:00Z'));
+  });
+
+  it('refuses a history that starts in the future', async () => {
+    const { code, stderr } = await runCli(env, ['bulk', '--count', '1', '--history', '2999-01-01..2999-01-31', '--allow-unlisted-store']);
+
+    assert.equal(code, 1);
+    assert.match(stderr, /--history must not start in the future/);
+  });
+
+  describe('store profiles', () => {
+    let profileEnv;
+
+    before(() => {
+      const storesFile = path.join(tempDir, 'profiles.json');
+      fs.writeFileSync(storesFile, JSON.stringify({
+        stores: {
+          staging: { shopUrl: 'staging.myshopify.com', token: { env: 'STAGING_TOKEN' }, allowWrites: true },
+          production: { shopUrl: 'production.myshopify.com', token: { env: 'PRODUCTION_TOKEN' } }
+        }
+      }));
+      profileEnv = { ...env, SHOP_URL: '', ACCESS_TOKEN: '', STORES_FILE: storesFile, STAGING_TOKEN: 'staging-token', PRODUCTION_TOKEN: 'production-token' };
+    });
+
+    it('creates orders in an allowlisted store', async () => {
+      const { code, stdout, stderr } = await runCli(profileEnv, ['create', '--store', 'staging', '--seed', 'e2e-staging', '--output', 'json']);
+      const run = JSON.parse(stdout);
+
+      assert.equal(code, 0, stderr);
+      assert.ok(mock.state.orders.has(run.orders[0].orderId));
+    });
+
+    it('refuses to write to a store that isn\'t allowlisted', async () => {
+      const draftOrders = mock.state.draftOrders.size;
+      const orders = mock.state.orders.size;
+      const { code, stderr } = await runCli(profileEnv, ['create', '--store', 'production']);
+
+      assert.equal(code, 1);
+      assert.match(stderr, /is not allowlisted for writes/);
+      assert.equal(mock.state.draftOrders.size, draftOrders);
+      assert.equal(mock.state.orders.size, orders);
+    });
+
+    it('refuses to write to a .env store that no allowlisted profile matches', async () => {
+      const { code, stderr } = await runCli({ ...env, STORES_FILE: profileEnv.STORES_FILE }, ['create']);
+
+      assert.equal(code, 1);
+      assert.match(stderr, /test\.myshopify\.com is not in the stores file/);
+    });
+
+    it('still reads from a store that isn\'t allowlisted', async () => {
+      const [orderId] = mock.state.orders.keys();
+      const { code, stdout, stderr } = await runCli(profileEnv, ['inspect', orderId, '--store', 'production']);
+
+      assert.equal(code, 0, stderr);
+      assert.match(stdout, new RegExp(`Order ID: ${orderId}`));
+    });
+  });
+
+  describe('preflight', () => {
+    const ALL_SCOPES = [
+      'write_customers',
+      'read_products',
+      'write_draft_orders',
+      'write_orders',
+      'write_merchant_managed_fulfillment_orders',
+      'write_returns',
+      'read_locations',
+      'read_inventory'
+    ];
+
+    /**
+     * Runs a command with only some access scopes granted
+     */
+    async function runWithScopes(scopes, args, runEnv = env) {
+      mock.state.fixtures.accessScopes = scopes;
+      try {
+        return await runCli(runEnv, args);
+      } finally {
+        delete mock.state.fixtures.accessScopes;
+      }
+    }
+
+    it('passes every check in doctor when every scope is granted', async () => {
+      const { code, stdout, stderr } = await runCli(env, ['doctor']);
+
+      assert.equal(code, 0, stderr);
+      assert.match(stdout, /PASS {2}Access token +Connected to /);
+      assert.match(stdout, /PASS {2}API version +2026-10 \(Latest\) is supported/);
+      assert.match(stdout, /PASS {2}Fulfillments +write_merchant_managed_fulfillment_orders granted/);
+      assert.match(stdout, /All required checks passed/);
+    });
+
+    it('reports a missing scope in doctor', async () => {
+      const scopes = ALL_SCOPES.filter(scope => scope !== 'write_merchant_managed_fulfillment_orders');
+      const { code, stdout } = await runWithScopes(scopes, ['doctor']);
+
+      assert.equal(code, 1);
+      assert.match(stdout, /FAIL {2}Fulfillments +Missing write_merchant_managed_fulfillment_orders, needed for fulfilling orders/);
+      assert.match(stdout, /PASS {2}Orders /);
+      assert.match(stdout, /Some required checks failed/);
+    });
+
+    it('only warns about scopes the scenario doesn\'t need', async () => {
+      const scopes = ALL_SCOPES.filter(scope => scope !== 'write_returns');
+      const { code, stdout } = await runWithScopes(scopes, ['doctor']);
+
+      assert.equal(code, 0);
+      assert.match(stdout, /WARN {2}Returns +Missing write_returns, needed for opening and closing returns \(not required here\)/);
+    });
+
+    it('reports an unsupported API version', async () => {
+      const { code, stdout } = await runCli({ ...env, API_VERSION: '2024-04' }, ['doctor']);
+
+      assert.equal(code, 1);
+      assert.match(stdout, /FAIL {2}API version +2024-04 is no longer supported/);
+    });
+
+    it('stops a run before writing when a scope is missing', async () => {
+      const draftOrders = mock.state.draftOrders.size;
+      const scopes = ALL_SCOPES.filter(scope => scope !== 'write_draft_orders');
+      const { code, stderr } = await runWithScopes(scopes, ['create', '--allow-unlisted-store']);
+
+      assert.equal(code, 1);
+      assert.match(stderr, /Preflight failed, nothing was changed in the store/);
+      assert.match(stderr, /FAIL {2}Draft orders +Missing write_draft_orders/);
+      assert.equal(mock.state.draftOrders.size, draftOrders);
+    });
+  });
+
+  describe('inventory', () => {
+    it('never sells more units of a variant in a run than are in stock', async () => {
+      mock.state.fixtures.products.push({
+        id: 'gid://shopify/Product/2901',
+        title: 'Limited Print',
+        variants: [{ id: 'gid://shopify/ProductVariant/3901', title: 'Default Title', price: '30.00', inventoryQuantity: 2, sku: 'PRINT-01' }]
+      });
+      const { code, run } = await runJson(env, ['bulk', '--count', '3', '--variant-id', '3901', '--concurrency', '3', '--seed', 'e2e-stock']);
+
+      assert.equal(code, 1);
+      assert.equal(run.created, 2);
+      assert.equal(run.failed, 1);
+      assert.match(run.failures[0].message, /No stock left to sell/);
+      assert.equal(stockOf(mock, 'gid://shopify/ProductVariant/3901'), 0);
+    });
+
+    it('pins orders to a location', async () => {
+      const { code, run } = await runJson(env, ['create', '--location', '2', '--variant-id', '3003', '--seed', 'e2e-location']);
+
+      assert.equal(code, 0);
+      assert.equal(mock.state.orders.get(run.orders[0].orderId).locationId, 'gid://shopify/Location/2');
+    });
+
+    it('fulfills orders from a location that has the picked variants in stock', async () => {
+      mock.state.fixtures.products.push({
+        id: 'gid://shopify/Product/2902',
+        title: 'Pop-up Poster',
+        variants: [{
+          id: 'gid://shopify/ProductVariant/3902',
+          title: 'Default Title',
+          price: '15.00',
+          inventoryQuantity: 5,
+          sku: 'POSTER-01',
+          inventoryLevels: { 'gid://shopify/Location/2': 5 }
+        }]
+      });
+      const { code, run } = await runJson(env, ['create', '--variant-id', '3902', '--fulfillment-status', 'FULFILLED', '--seed', 'e2e-stock-location']);
+
+      assert.equal(code, 0);
+      assert.equal(mock.state.orders.get(run.orders[0].orderId).locationId, 'gid://shopify/Location/2');
+    });
+
+    it('refuses an unknown location', async () => {
+      const { code, stderr } = await runCli(env, ['create', '--location', '99', '--allow-unlisted-store']);
+
+      assert.equal(code, 1);
+      assert.match(stderr, /Location not found: gid:\/\/shopify\/Location\/99/);
+    });
+  });
+
+  describe('product and customer filters', () => {
+    /**
+     * Returns the fixture product with an ID
+     */
+    function productOf(productId) {
+      return mock.state.fixtures.products.find(product => product.id === productId);
+    }
+
+    it('picks only products and customers matching the filters', async () => {
+      const { code, run } = await runJson(env, [
+        'bulk',
+        '--count', '3',
+        '--line-items', '1-2',
+        '--vendor', 'Harbor Goods',
+        '--product-tag', 'wholesale',
+        '--customer-tag', 'wholesale',
+        '--seed', 'e2e-filters'
+      ]);
+
+      assert.equal(code, 0);
+      for (const order of run.orders) {
+        assert.ok(mock.state.fixtures.customers.find(customer => customer.id === order.customer.id).tags.includes('wholesale'));
+        for (const lineItem of order.lineItems) {
+          const product = productOf(lineItem.productId);
+          assert.equal(product.vendor, 'Harbor Goods');
+          assert.ok(product.tags.includes('wholesale'));
+        }
+      }
+    });
+
+    it('keeps variants in the price range', async () => {
+      const { code, run } = await runJson(env, ['bulk', '--count', '3', '--line-items', '1-3', '--max-price', '10', '--seed', 'e2e-price']);
+
+      assert.equal(code, 0);
+      assert.ok(run.orders.flatMap(order => order.lineItems).every(lineItem => Number(lineItem.price) <= 10));
+    });
+
+    it('fails when no customer matches instead of creating one', async () => {
+      const customers = mock.state.fixtures.customers.length;
+      const { code, stderr } = await runCli(env, ['create', '--customer-tag', 'nobody', '--allow-unlisted-store']);
+
+      assert.equal(code, 1);
+      assert.match(stderr, /No customers match the customer filter/);
+      assert.equal(mock.state.fixtures.customers.length, customers);
+    });
+
+    it('only picks customers whose default address is in the filtered country', async () => {
+      const { code, run } = await runJson(env, ['bulk', '--count', '3', '--customer-country', 'US', '--seed', 'e2e-customer-country']);
+
+      assert.equal(code, 0);
+      for (const order of run.orders) {
+        const customer = mock.state.fixtures.customers.find(candidate => candidate.id === order.customer.id);
+        assert.equal(customer.defaultAddress.countryCode, 'US');
+      }
+    });
+
+    it('passes a raw product query to the variant search', async () => {
+      mock.state.fixtures.products.push({
+        id: 'gid://shopify/Product/2905',
+        title: 'Draft Notebook',
+        status: 'DRAFT',
+        variants: [{ id: 'gid://shopify/ProductVariant/3905', title: 'Default Title', price: '6.00', inventoryQuantity: 10, sku: 'NOTE-01' }]
+      });
+      const { code, run } = await runJson(env, ['bulk', '--count', '2', '--product-query', 'product_status:draft', '--seed', 'e2e-product-query']);
+
+      assert.equal(code, 0);
+      assert.ok(run.orders.every(order => order.lineItems.every(lineItem => lineItem.productId === 'gid://shopify/Product/2905')));
+    });
+
+    it('rejects a customer filter combined with new customers', async () => {
+      const { code, stderr } = await runCli(env, ['create', '--new-customers', '50', '--customer-tag', 'vip', '--allow-unlisted-store']);
+
+      assert.equal(code, 1);
+      assert.match(stderr, /--new-customers can't be combined with --customer-tag/);
+    });
+  });
+});
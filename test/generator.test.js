@@ -0,0 +1,88 @@
+const { describe, it, before, after } = require('node:test');
+const assert = require('node:assert/strict');
+
+const { createOrderGenerator, setLogger } = require('../dist');
+const { createMockShopifyServer } = require('../dist/mock-server');
+
+/**
+ * Starts a mock Admin API with the default fixtures on a random port
+ */
+async function startMock() {
+  const mock = createMockShopifyServer();
+  await new Promise(resolve => mock.server.listen(0, resolve));
+  return mock;
+}
+
+/**
+ * Creates a generator against a mock server
+ */
+function generatorFor(mock, config = {}) {
+  return createOrderGenerator({
+    shopUrl: 'test.myshopify.com',
+    accessToken: 'test-token',
+    apiBaseUrl: `http://localhost:${mock.server.address().port}`,
+    ...config
+  });
+}
+
+describe('createOrderGenerator', () => {
+  const logs = [];
+  let mocks;
+
+  before(async () => {
+    setLogger((...args) => logs.push(args.join(' ')));
+    mocks = [await startMock(), await startMock()];
+  });
+
+  after(async () => {
+    setLogger(console.log);
+    await Promise.all(mocks.map(mock => new Promise(resolve => mock.server.close(resolve))));
+  });
+
+  it('creates an order tagged with its run ID, logging through the logger', async () => {
+    const generator = generatorFor(mocks[0]);
+    const order = await generator.createRandomOrder({ lineItemCount: { min: 2, max: 2 } });
+
+    assert.equal(order.runId, generator.runId);
+    assert.equal(order.lineItems.length, 2);
+    const draft = mocks[0].state.draftOrders.get(order.draftOrderId);
+    assert.equal(draft.orderId, order.orderId);
+    assert.ok(draft.tags.includes(`test-run:${generator.runId}`));
+    assert.ok(logs.some(line => line.includes(order.orderId)));
+  });
+
+  it('sends warnings through the logger as well', async () => {
+    mocks[0].state.faults.push({ operation: 'customers', type: 'throttled', times: 1 });
+    await generatorFor(mocks[0]).fetchRandomCustomer();
+
+    assert.ok(logs.some(line => /throttled, retrying/.test(line)));
+  });
+
+  it('makes the same choices for the same seed', async () => {
+    const config = { seed: 'library', runId: 'library-run' };
+    const [first, second] = await Promise.all(mocks.map(mock => generatorFor(mock, config).createRandomOrder()));
+
+    assert.equal(first.customer.id, second.customer.id);
+    assert.deepEqual(
+      first.lineItems.map(lineItem => lineItem.variant.id),
+      second.lineItems.map(lineItem => lineItem.variant.id)
+    );
+    assert.deepEqual(first.tags, second.tags);
+    assert.equal(first.paymentStatus, second.paymentStatus);
+    assert.equal(first.fulfillmentStatus, second.fulfillmentStatus);
+    assert.deepEqual(first.shippingAddress, second.shippingAddress);
+  });
+
+  it('runs the order steps one by one', async () => {
+    const generator = generatorFor(mocks[1]);
+    const customer = await generator.fetchRandomCustomer();
+    const { product, variant } = await generator.fetchRandomProduct();
+    const draft = await generator.createDraftOrder(customer, [{ product, variant, quantity: 1 }], ['library']);
+    const completed = await generator.completeDraftOrder(draft.draftOrderId);
+
+    const order = mocks[1].state.orders.get(completed.orderId);
+    assert.equal(order.draftOrderId, draft.draftOrderId);
+    assert.equal(mocks[1].state.draftOrders.get(draft.draftOrderId).customerId, customer.id);
+    assert.ok(mocks[1].state.draftOrders.get(draft.draftOrderId).tags.includes('library'));
+  });
+});
@@ -0,0 +1,135 @@
+const { describe, it } = require('node:test');
+const assert = require('node:assert/strict');
+
+const { generateRandomAddress, DEFAULT_SCENARIO, LOCALE_PACKS } = require('../dist');
+
+const CUSTOMER = {
+  firstName: 'Ada',
+  lastName: 'Lovelace',
+  defaultAddress: {
+    address1: '12 St James Sq',
+    address2: null,
+    city: 'London',
+    province: null,
+    provinceCode: null,
+    zip: 'SW1Y 4JH',
+    country: 'United Kingdom',
+    countryCode: 'GB',
+    phone: null
+  }
+};
+
+/**
+ * Builds a scenario generating addresses in the given countries
+ */
+function scenario(overrides = {}) {
+  return { ...DEFAULT_SCENARIO, ...overrides };
+}
+
+/**
+ * Turns a locale pack pattern (`#` for a digit, `@` for a letter) into a regular expression
+ */
+function patternToRegExp(pattern) {
+  const source = pattern
+    .replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    .replace(/#/g, '\\d')
+    .replace(/@/g, '[A-Z]');
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Returns the state a US pack city is in
+ */
+function stateOf(cityName) {
+  return LOCALE_PACKS.US.regions.find(region => region.cities.some(city => city.name === cityName))?.code;
+}
+
+describe('generateRandomAddress', () => {
+  it('keeps city, province, postal code and phone area code together in every country', () => {
+    const customer = { ...CUSTOMER, defaultAddress: null };
+
+    for (const pack of Object.values(LOCALE_PACKS)) {
+      const countries = [{ value: pack.countryCode, weight: 1 }];
+      for (let i = 0; i < 30; i++) {
+        const address = generateRandomAddress(customer, scenario({ countries }));
+        const region = pack.regions.find(region => region.cities.some(city => city.name === address.city));
+        const city = region?.cities.find(city => city.name === address.city);
+        const label = `${address.city}, ${address.provinceCode}, ${address.zip}, ${address.phone}`;
+
+        assert.ok(city, label);
+        assert.equal(address.countryCode, pack.countryCode);
+        assert.equal(address.country, pack.country);
+        assert.equal(address.provinceCode, region.code, label);
+        assert.equal(address.province, region.code === null ? null : region.name, label);
+        assert.match(address.zip, patternToRegExp(city.postalCode), label);
+        assert.match(address.phone, patternToRegExp((city.phoneFormat ?? pack.phoneFormat).replace('{area}', city.areaCode)), label);
+      }
+    }
+  });
+
+  it('gives Japanese phone numbers nine digits after the country code', () => {
+    const customer = { ...CUSTOMER, defaultAddress: null };
+
+    for (const region of LOCALE_PACKS.JP.regions) {
+      for (const city of region.cities) {
+        const japan = scenario({
+          countries: [{ value: 'JP', weight: 1 }],
+          states: [{ value: { name: region.name, code: region.code, cities: [city.name] }, weight: 1 }]
+        });
+        const address = generateRandomAddress(customer, japan);
+        assert.equal(address.phone.replace(/^\+81/, '').replace(/\D/g, '').length, 9, `${address.city}: ${address.phone}`);
+      }
+    }
+  });
+
+  it('leaves UK and German addresses without a province', () => {
+    const customer = { ...CUSTOMER, defaultAddress: null };
+
+    for (const country of ['GB', 'DE']) {
+      const address = generateRandomAddress(customer, scenario({ countries: [{ value: country, weight: 1 }] }));
+      assert.equal(address.province, null);
+      assert.equal(address.provinceCode, null);
+    }
+  });
+
+  it('keeps the customer\'s default address unless countries are chosen', () => {
+    const address = generateRandomAddress(CUSTOMER, scenario({ countries: [{ value: 'US', weight: 1 }] }));
+
+    assert.equal(address.city, 'London');
+    assert.equal(address.countryCode, 'GB');
+  });
+
+  it('replaces a default address outside the chosen countries', () => {
+    const restricted = scenario({ countries: [{ value: 'US', weight: 1 }], restrictToCountries: true });
+
+    assert.equal(generateRandomAddress(CUSTOMER, restricted).countryCode, 'US');
+    assert.equal(generateRandomAddress(CUSTOMER, { ...restricted, countries: [{ value: 'GB', weight: 1 }] }).city, 'London');
+  });
+
+  it('keeps generated cities in their state', () => {
+    const customer = { ...CUSTOMER, defaultAddress: null };
+    for (let i = 0; i < 50; i++) {
+      const address = generateRandomAddress(customer, scenario({ countries: [{ value: 'US', weight: 1 }] }));
+      assert.equal(stateOf(address.city), address.provinceCode, `${address.city}, ${address.provinceCode}`);
+    }
+  });
+
+  it('picks the cities of the scenario\'s states', () => {
+    const customer = { ...CUSTOMER, defaultAddress: null };
+    const texas = scenario({ countries: [{ value: 'US', weight: 1 }], states: [{ value: { name: 'Texas', code: 'TX' }, weight: 1 }] });
+    const vermont = scenario({
+      countries: [{ value: 'US', weight: 1 }],
+      states: [{ value: { name: 'Vermont', code: 'VT', cities: ['Burlington'] }, weight: 1 }]
+    });
+
+    for (let i = 0; i < 20; i++) {
+      const address = generateRandomAddress(customer, texas);
+      assert.equal(address.provinceCode, 'TX');
+      assert.equal(stateOf(address.city), 'TX');
+    }
+    const address = generateRandomAddress(customer, vermont);
+    assert.equal(address.city, 'Burlington');
+    assert.equal(address.provinceCode, 'VT');
+    assert.match(address.zip, /^\d{5}$/);
+  });
+});
@@ -0,0 +1,70 @@
+const { describe, it } = require('node:test');
+const assert = require('node:assert/strict');
+
+const { buildHistorySchedule } = require('../dist');
+
+const WEEKDAYS = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+/**
+ * Builds a volume curve with the given weekday weights, every order placed at `hour`
+ */
+function curve(weekdayWeights, hour = 14, spikes = []) {
+  return {
+    weekdays: WEEKDAYS.map((value, i) => ({ value, weight: weekdayWeights[i] })),
+    hours: [{ value: hour, weight: 1 }],
+    spikes
+  };
+}
+
+const EVERY_DAY = curve([1, 1, 1, 1, 1, 1, 1]);
+const RANGE = { from: '2025-03-01', to: '2025-03-31' };
+const AFTER_RANGE = Date.parse('2025-06-01T00:00:00Z');
+
+describe('buildHistorySchedule', () => {
+  it('gives the same times for the same seed', () => {
+    const first = buildHistorySchedule(20, RANGE, EVERY_DAY, 'seed-a', AFTER_RANGE);
+
+    assert.deepEqual(buildHistorySchedule(20, RANGE, EVERY_DAY, 'seed-a', AFTER_RANGE), first);
+    assert.notDeepEqual(buildHistorySchedule(20, RANGE, EVERY_DAY, 'seed-b', AFTER_RANGE), first);
+  });
+
+  it('sorts the times oldest first within the range and at the curve\'s hours', () => {
+    const times = buildHistorySchedule(50, RANGE, EVERY_DAY, 'sorted', AFTER_RANGE);
+
+    assert.equal(times.length, 50);
+    assert.deepEqual([...times].sort(), times);
+    for (const time of times) {
+      assert.ok(time >= '2025-03-01T00:00:00.000Z' && time < '2025-04-01T00:00:00.000Z', time);
+      assert.equal(new Date(time).getUTCHours(), 14);
+    }
+  });
+
+  it('skips weekdays without volume', () => {
+    const weekendsOnly = curve([1, 0, 0, 0, 0, 0, 1]);
+    const times = buildHistorySchedule(50, RANGE, weekendsOnly, 'weekends', AFTER_RANGE);
+
+    assert.ok(times.every(time => [0, 6].includes(new Date(time).getUTCDay())));
+  });
+
+  it('multiplies the volume of spike days', () => {
+    const withSpike = curve([1, 1, 1, 1, 1, 1, 1], 14, [{ from: '2025-03-15', to: '2025-03-15', multiplier: 1000 }]);
+    const times = buildHistorySchedule(100, RANGE, withSpike, 'spike', AFTER_RANGE);
+    const onSpike = times.filter(time => time.startsWith('2025-03-15')).length;
+
+    assert.ok(onSpike > 90, `${onSpike} of 100 orders on the spike day`);
+  });
+
+  it('never places orders in the future', () => {
+    const now = Date.parse('2025-03-10T12:00:00Z');
+    const times = buildHistorySchedule(50, RANGE, curve([1, 1, 1, 1, 1, 1, 1], 23), 'future', now);
+
+    assert.ok(times.every(time => Date.parse(time) <= now));
+  });
+
+  it('fails when no day of the range has volume', () => {
+    assert.throws(
+      () => buildHistorySchedule(5, RANGE, curve([0, 0, 0, 0, 0, 0, 0]), 'empty', AFTER_RANGE),
+      /gives no orders to any day/
+    );
+  });
+});
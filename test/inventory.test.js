@@ -0,0 +1,124 @@
+const { describe, it, before } = require('node:test');
+const assert = require('node:assert/strict');
+
+const {
+  getAvailableQuantity,
+  isInStock,
+  getUnreservedQuantity,
+  reserveStock,
+  releaseStock,
+  pickRandomLineItems,
+  pickFulfillmentLocation,
+  setLogger
+} = require('../dist');
+
+const WAREHOUSE = { id: 'gid://shopify/Location/1', name: 'Warehouse', isActive: true, fulfillsOnlineOrders: true };
+const POP_UP = { id: 'gid://shopify/Location/2', name: 'Pop-up Store', isActive: true, fulfillsOnlineOrders: true };
+
+/**
+ * Builds a variant with the given available units by location
+ */
+function variant(id, levels, { inventoryPolicy = 'DENY', tracked = true } = {}) {
+  return {
+    id,
+    title: 'Default Title',
+    price: '10.00',
+    sku: null,
+    inventoryQuantity: Object.values(levels).reduce((total, quantity) => total + quantity, 0),
+    inventoryPolicy,
+    inventoryItem: {
+      tracked,
+      inventoryLevels: {
+        edges: Object.entries(levels).map(([locationId, quantity]) => ({
+          node: { location: { id: locationId }, quantities: [{ name: 'available', quantity }] }
+        }))
+      }
+    }
+  };
+}
+
+/**
+ * Builds a product with one variant per entry
+ */
+function product(id, variants) {
+  return { id, title: id, variants: { edges: variants.map(node => ({ node })) } };
+}
+
+describe('stock by location', () => {
+  before(() => setLogger(() => {}));
+
+  it('counts the available units at one location', () => {
+    const mug = variant('mug', { [WAREHOUSE.id]: 5, [POP_UP.id]: 0 });
+
+    assert.equal(getAvailableQuantity(mug, WAREHOUSE.id), 5);
+    assert.equal(getAvailableQuantity(mug, POP_UP.id), 0);
+    assert.equal(getAvailableQuantity(mug, 'gid://shopify/Location/3'), 0);
+    assert.equal(isInStock(mug), true);
+    assert.equal(isInStock(variant('pin', { [WAREHOUSE.id]: 0 })), false);
+  });
+
+  it('doesn\'t limit variants that keep selling or aren\'t tracked', () => {
+    const continues = variant('gift-card', { [WAREHOUSE.id]: 0 }, { inventoryPolicy: 'CONTINUE' });
+    const untracked = variant('gift-wrap', {}, { tracked: false });
+
+    assert.equal(getAvailableQuantity(continues, WAREHOUSE.id), Infinity);
+    assert.equal(getAvailableQuantity(untracked, POP_UP.id), Infinity);
+    assert.equal(isInStock(continues), true);
+    assert.equal(isInStock(untracked), true);
+  });
+
+  it('reserves and releases units per location', () => {
+    const mug = variant('mug', { [WAREHOUSE.id]: 5, [POP_UP.id]: 2 });
+    const reserved = new Map();
+
+    reserveStock(reserved, WAREHOUSE.id, [{ variant: mug, quantity: 3 }]);
+    assert.equal(getUnreservedQuantity(mug, WAREHOUSE.id, reserved), 2);
+    assert.equal(getUnreservedQuantity(mug, POP_UP.id, reserved), 2);
+
+    releaseStock(reserved, WAREHOUSE.id, [{ variant: mug, quantity: 3 }]);
+    assert.equal(getUnreservedQuantity(mug, WAREHOUSE.id, reserved), 5);
+    assert.equal(reserved.size, 0);
+  });
+
+  it('never picks more units at a location than are left there', () => {
+    const mug = variant('mug', { [WAREHOUSE.id]: 3, [POP_UP.id]: 100 });
+    const products = [product('Mug', [mug])];
+    const reserved = new Map();
+    let picked = 0;
+
+    while (getUnreservedQuantity(mug, WAREHOUSE.id, reserved) > 0) {
+      const [lineItem] = pickRandomLineItems(products, { min: 1, max: 1 }, { min: 1, max: 2 }, WAREHOUSE.id, reserved);
+      picked += lineItem.quantity;
+    }
+
+    assert.equal(picked, 3);
+    assert.throws(
+      () => pickRandomLineItems(products, { min: 1, max: 1 }, { min: 1, max: 1 }, WAREHOUSE.id, reserved),
+      /No stock left to sell/
+    );
+    assert.equal(getUnreservedQuantity(mug, POP_UP.id, reserved), 100);
+  });
+
+  it('fulfills orders from a location that still has stock', () => {
+    const mug = variant('mug', { [WAREHOUSE.id]: 1, [POP_UP.id]: 0 });
+    const products = [product('Mug', [mug])];
+    const reserved = new Map();
+
+    assert.equal(pickFulfillmentLocation(products, [WAREHOUSE, POP_UP], reserved).id, WAREHOUSE.id);
+
+    reserveStock(reserved, WAREHOUSE.id, [{ variant: mug, quantity: 1 }]);
+    assert.throws(() => pickFulfillmentLocation(products, [WAREHOUSE, POP_UP], reserved), /No stock left to sell/);
+  });
+
+  it('needs every pinned variant at the same location', () => {
+    const mug = variant('mug', { [WAREHOUSE.id]: 4 });
+    const pin = variant('pin', { [POP_UP.id]: 4 });
+    const sock = variant('sock', { [WAREHOUSE.id]: 1, [POP_UP.id]: 1 });
+
+    assert.equal(pickFulfillmentLocation([product('Sock', [sock]), product('Pin', [pin])], [WAREHOUSE, POP_UP], new Map(), true).id, POP_UP.id);
+    assert.throws(
+      () => pickFulfillmentLocation([product('Mug', [mug]), product('Pin', [pin])], [WAREHOUSE, POP_UP], new Map(), true),
+      /pinned product variants at one location/
+    );
+  });
+});
@@ -0,0 +1,108 @@
+const { describe, it, before, after } = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('node:fs');
+const os = require('node:os');
+const path = require('node:path');
+
+const { loadStoreProfiles, assertWritesAllowed, StoreConfigError, StoreWriteError } = require('../dist');
+
+describe('loadStoreProfiles', () => {
+  let directory;
+
+  /**
+   * Writes a stores file and returns its path
+   */
+  function storesFile(contents) {
+    const file = path.join(directory, 'stores.json');
+    fs.writeFileSync(file, typeof contents === 'string' ? contents : JSON.stringify(contents));
+    return file;
+  }
+
+  /**
+   * Returns the problems a stores file is rejected with
+   */
+  function problemsOf(contents) {
+    try {
+      loadStoreProfiles(storesFile(contents));
+    } catch (error) {
+      assert.ok(error instanceof StoreConfigError);
+      return error.problems;
+    }
+    assert.fail('the stores file was accepted');
+  }
+
+  before(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'shopify-stores-'));
+  });
+
+  after(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('reads profiles, resolving file paths against the stores file', () => {
+    const profiles = loadStoreProfiles(storesFile({
+      stores: {
+        staging: { shopUrl: 'https://Staging-Shop.myshopify.com/', token: { file: 'secrets/staging' }, scenario: 'scenarios/busy.json', allowWrites: true },
+        production: { shopUrl: 'shop.myshopify.com', token: { env: 'PRODUCTION_TOKEN' }, apiVersion: '2025-04' }
+      }
+    }));
+
+    assert.deepEqual(profiles, [
+      {
+        name: 'staging',
+        shopUrl: 'staging-shop.myshopify.com',
+        token: { file: path.join(directory, 'secrets/staging') },
+        apiVersion: undefined,
+        scenarioPath: path.join(directory, 'scenarios/busy.json'),
+        allowWrites: true
+      },
+      {
+        name: 'production',
+        shopUrl: 'shop.myshopify.com',
+        token: { env: 'PRODUCTION_TOKEN' },
+        apiVersion: '2025-04',
+        scenarioPath: undefined,
+        allowWrites: false
+      }
+    ]);
+  });
+
+  it('lists every problem of every profile', () => {
+    const problems = problemsOf({
+      stores: {
+        broken: { shopUrl: 'example.com', token: 'shpat_123', apiVersion: 'latest', allowWrites: 'yes', region: 'eu' }
+      }
+    });
+
+    assert.deepEqual(problems, [
+      'stores.broken.region is not a known setting (expected one of shopUrl, token, apiVersion, scenario, allowWrites)',
+      'stores.broken.shopUrl must be a shop domain like my-store.myshopify.com',
+      'stores.broken.token must be { "env": "VARIABLE_NAME" } or { "file": "path/to/token" }',
+      'stores.broken.apiVersion must be a version like 2025-04 (got "latest")',
+      'stores.broken.allowWrites must be true or false (got "yes")'
+    ]);
+  });
+
+  it('rejects files that aren\'t a stores object', () => {
+    assert.equal(problemsOf('{ not json').length, 1);
+    assert.deepEqual(problemsOf({ stores: [] }), ['The stores file must be a JSON object with a "stores" object keyed by profile name']);
+    assert.deepEqual(problemsOf({ stores: {} }), ['stores must contain at least one profile']);
+  });
+});
+
+describe('assertWritesAllowed', () => {
+  const staging = { name: 'staging', shopUrl: 'staging.myshopify.com', token: { env: 'T' }, allowWrites: true };
+  const production = { name: 'production', shopUrl: 'shop.myshopify.com', token: { env: 'T' }, allowWrites: false };
+
+  it('lets writes through to allowlisted profiles only', () => {
+    assert.doesNotThrow(() => assertWritesAllowed(staging.shopUrl, [staging, production], staging));
+    assert.doesNotThrow(() => assertWritesAllowed('https://Staging.myshopify.com', [staging, production], null));
+    assert.throws(() => assertWritesAllowed(production.shopUrl, [staging, production], production), StoreWriteError);
+    assert.throws(() => assertWritesAllowed(production.shopUrl, [staging, production], null, true), /not allowlisted for writes/);
+  });
+
+  it('refuses shops missing from the stores file unless they are allowed explicitly', () => {
+    assert.throws(() => assertWritesAllowed('other.myshopify.com', [], null), /is not in the stores file/);
+    assert.doesNotThrow(() => assertWritesAllowed('other.myshopify.com', [], null, true));
+  });
+});